@@ -5,6 +5,72 @@
 
 import path from 'path';
 
+/**
+ * Supported LLM providers
+ * - sampling: ask the connected MCP client to generate via `sampling/createMessage`
+ * - openai: call an OpenAI-compatible chat completions endpoint (llama.cpp, Ollama, vLLM, ...)
+ * - echo: hand the prompt back to the caller instead of generating
+ * - cassette: record responses from another provider to a file, or replay them offline
+ */
+export type LLMProviderName = 'sampling' | 'openai' | 'echo' | 'cassette';
+
+/**
+ * Timeout, retry and context window settings shared by every provider
+ * `contextWindowTokens` bounds prompt plus response; larger todolists are trimmed or split to fit
+ */
+export interface LLMProviderSettings {
+  timeoutMs: number;
+  maxRetries: number;
+  retryDelayMs: number;
+  contextWindowTokens: number;
+}
+
+/**
+ * Settings for an OpenAI-compatible HTTP endpoint
+ */
+export interface OpenAIProviderSettings extends LLMProviderSettings {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Settings for the record/replay cassette provider
+ */
+export interface CassetteProviderSettings {
+  mode: 'record' | 'replay';
+  path: string;
+  provider: Exclude<LLMProviderName, 'cassette'>;
+}
+
+/**
+ * Settings for handing prompts back to the caller when no model can be called
+ */
+export interface HandoffSettings {
+  enabled: boolean;
+  ttlMinutes: number;
+}
+
+/**
+ * Settings for responses that must match a schema (plan actions, next task)
+ * Invalid responses are sent back to the model with the validation errors
+ */
+export interface StructuredOutputSettings {
+  maxAttempts: number;
+}
+
+/**
+ * LLM configuration
+ */
+export interface LLMConfig {
+  provider: LLMProviderName;
+  sampling: LLMProviderSettings;
+  openai: OpenAIProviderSettings;
+  cassette: CassetteProviderSettings;
+  handoff: HandoffSettings;
+  structuredOutput: StructuredOutputSettings;
+}
+
 /**
  * Configuration interface
  */
@@ -20,6 +86,14 @@ export interface Config {
     projectsBasePath: string;
     avoidToolDirectories: boolean;
   };
+  
+  // LLM provider settings
+  llm: LLMConfig;
+  
+  // Prompt template settings
+  prompts: {
+    globalDir: string;
+  };
 }
 
 /**
@@ -37,5 +111,41 @@ export const defaultConfig: Config = {
     createProjectDirectories: true,
     projectsBasePath: path.join(process.env.HOME || process.env.USERPROFILE || '~', 'projects'),
     avoidToolDirectories: true
+  },
+  
+  // LLM provider settings
+  llm: {
+    provider: 'sampling',
+    sampling: {
+      timeoutMs: 120000,
+      maxRetries: 1,
+      retryDelayMs: 1000,
+      contextWindowTokens: 128000
+    },
+    openai: {
+      baseUrl: 'http://localhost:11434/v1',
+      model: 'llama3.1',
+      timeoutMs: 300000,
+      maxRetries: 2,
+      retryDelayMs: 2000,
+      contextWindowTokens: 8192
+    },
+    cassette: {
+      mode: 'replay',
+      path: '.tanuki/cassettes/llm-cassette.json',
+      provider: 'sampling'
+    },
+    handoff: {
+      enabled: true,
+      ttlMinutes: 60
+    },
+    structuredOutput: {
+      maxAttempts: 3
+    }
+  },
+  
+  // Prompt template settings
+  prompts: {
+    globalDir: path.join(process.env.HOME || process.env.USERPROFILE || '~', '.tanuki', 'prompts')
   }
 }; 
\ No newline at end of file
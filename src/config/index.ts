@@ -5,7 +5,7 @@
 
 import { existsSync, readFileSync, writeFileSync } from 'fs';
 import path from 'path';
-import { Config, defaultConfig } from './default.js';
+import { Config, LLMConfig, LLMProviderName, LLMProviderSettings, OpenAIProviderSettings, CassetteProviderSettings, HandoffSettings, StructuredOutputSettings, defaultConfig } from './default.js';
 
 /**
  * Load configuration from file
@@ -27,6 +27,11 @@ export function loadConfig(): Config {
         projectManagement: {
           ...defaultConfig.projectManagement,
           ...(userConfig.projectManagement || {})
+        },
+        llm: mergeLLMConfig(userConfig.llm),
+        prompts: {
+          ...defaultConfig.prompts,
+          ...(userConfig.prompts || {})
         }
       };
     }
@@ -35,7 +40,47 @@ export function loadConfig(): Config {
   }
   
   // Return default config if loading fails
-  return defaultConfig;
+  return {
+    ...defaultConfig,
+    llm: mergeLLMConfig(undefined)
+  };
+}
+
+/**
+ * Merge user LLM settings with the defaults
+ * The TANUKI_LLM_PROVIDER environment variable overrides the configured provider
+ * @param userLLMConfig The `llm` section of the user's config file, if any
+ * @returns The complete LLM configuration
+ */
+function mergeLLMConfig(userLLMConfig: Partial<LLMConfig> | undefined): LLMConfig {
+  const llm = userLLMConfig || {};
+  const envProvider = process.env.TANUKI_LLM_PROVIDER as LLMProviderName | undefined;
+  
+  return {
+    ...defaultConfig.llm,
+    ...llm,
+    provider: envProvider || llm.provider || defaultConfig.llm.provider,
+    sampling: {
+      ...defaultConfig.llm.sampling,
+      ...(llm.sampling || {})
+    },
+    openai: {
+      ...defaultConfig.llm.openai,
+      ...(llm.openai || {})
+    },
+    cassette: {
+      ...defaultConfig.llm.cassette,
+      ...(llm.cassette || {})
+    },
+    handoff: {
+      ...defaultConfig.llm.handoff,
+      ...(llm.handoff || {})
+    },
+    structuredOutput: {
+      ...defaultConfig.llm.structuredOutput,
+      ...(llm.structuredOutput || {})
+    }
+  };
 }
 
 /**
@@ -90,4 +135,4 @@ export function updateConfig(property: string, value: any): boolean {
 }
 
 // Export types and defaults
-export { Config, defaultConfig }; 
\ No newline at end of file
+export { Config, LLMConfig, LLMProviderName, LLMProviderSettings, OpenAIProviderSettings, CassetteProviderSettings, HandoffSettings, StructuredOutputSettings, defaultConfig }; 
\ No newline at end of file
@@ -7,7 +7,8 @@ import express from 'express';
 import cors from 'cors';
 import { readFileSync, existsSync } from 'fs';
 import path from 'path';
-import { createTanukiServer } from './server.js';
+import { createTanukiServer, getRegisteredTool, getRegisteredToolNames } from './server.js';
+import { runWithToolContext, ToolRunContext } from './tools/progress.js';
 import { FastMCP } from 'fastmcp';
 
 const app = express();
@@ -46,12 +47,15 @@ try {
   console.log('🛠️ FastMCP server initialized for HTTP mode');
   
   // Debug: Check if tools are registered
-  const tools = (mcpServer as any)._tools || new Map();
-  console.log(`📋 Registered ${tools.size} tools for HTTP bridge:`, Array.from(tools.keys()));
+  const toolNames = getRegisteredToolNames();
+  console.log(`📋 Registered ${toolNames.length} tools for HTTP bridge:`, toolNames);
 } catch (error) {
   console.error('❌ Failed to initialize FastMCP server:', error);
 }
 
+// Abort controllers of tool calls in progress, by JSON-RPC request id, for notifications/cancelled
+const activeToolCalls: Map<string | number, AbortController> = new Map();
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ 
@@ -109,6 +113,13 @@ app.post('/messages', async (req, res) => {
     
     const { method, params } = req.body;
     
+    if (method === 'notifications/cancelled') {
+      // Cancel a tool call in progress; notifications get no JSON-RPC response
+      activeToolCalls.get(params?.requestId)?.abort(params?.reason);
+      res.status(202).end();
+      return;
+    }
+    
     if (method === 'tools/list') {
       // Return tools list
       if (toolsManifest) {
@@ -130,14 +141,58 @@ app.post('/messages', async (req, res) => {
     if (method === 'tools/call') {
       // Execute tool via HTTP bridge
       const { name, arguments: toolArgs } = params;
+      const requestId = req.body.id;
+      const progressToken = params?._meta?.progressToken;
+      
+      // Stream progress notifications as server-sent events when the client asks for progress and accepts them
+      const streaming = progressToken !== undefined && String(req.headers.accept || '').includes('text/event-stream');
+      if (streaming) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive'
+        });
+      }
+      
+      // Cancel the call if the client disconnects or sends notifications/cancelled
+      const controller = new AbortController();
+      if (requestId !== undefined) {
+        activeToolCalls.set(requestId, controller);
+      }
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          controller.abort('Client disconnected');
+        }
+      });
+      
+      const runContext: ToolRunContext = {
+        signal: controller.signal,
+        sendProgress: streaming
+          ? async update => {
+              res.write(`event: message\ndata: ${JSON.stringify({
+                jsonrpc: "2.0",
+                method: "notifications/progress",
+                params: { ...update, progressToken }
+              })}\n\n`);
+            }
+          : undefined
+      };
+      
+      const respond = (body: object, status = 200) => {
+        const message = { jsonrpc: "2.0", id: requestId, ...body };
+        if (streaming) {
+          res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+          res.end();
+        } else {
+          res.status(status).json(message);
+        }
+      };
       
       try {
         // Bridge to FastMCP tool execution
-        const result = await executeToolViaHTTP(name, toolArgs);
+        const result = await executeToolViaHTTP(name, toolArgs, runContext);
         
-        res.json({
-          jsonrpc: "2.0",
-          id: req.body.id,
+        respond({
           result: {
             content: [
               {
@@ -151,14 +206,16 @@ app.post('/messages', async (req, res) => {
         console.log(`✅ Tool ${name} executed successfully via HTTP`);
       } catch (error) {
         console.error(`❌ Tool ${name} execution failed:`, error);
-        res.status(500).json({
-          jsonrpc: "2.0",
-          id: req.body.id,
+        respond({
           error: {
             code: -32000,
             message: error instanceof Error ? error.message : String(error)
           }
-        });
+        }, 500);
+      } finally {
+        if (requestId !== undefined && activeToolCalls.get(requestId) === controller) {
+          activeToolCalls.delete(requestId);
+        }
       }
       return;
     }
@@ -186,15 +243,18 @@ app.post('/messages', async (req, res) => {
 /**
  * HTTP Bridge: Execute FastMCP tools via HTTP requests
  * This bridges HTTP requests to existing FastMCP tool implementations
+ * @param toolName The tool to execute
+ * @param args The tool arguments
+ * @param runContext The call's cancellation signal and progress sink
+ * @returns The tool's text result
  */
-async function executeToolViaHTTP(toolName: string, args: any): Promise<string> {
+async function executeToolViaHTTP(toolName: string, args: any, runContext: ToolRunContext): Promise<string> {
   if (!mcpServer) {
     throw new Error('MCP server not initialized');
   }
 
-  // Get the tool from the server using FastMCP internal API
-  const tools = (mcpServer as any)._tools || new Map();
-  const tool = tools.get(toolName);
+  // Get the tool registered on the server
+  const tool = getRegisteredTool(toolName);
   
   if (!tool) {
     throw new Error(`Tool ${toolName} not found in server`);
@@ -211,8 +271,8 @@ async function executeToolViaHTTP(toolName: string, args: any): Promise<string>
   
   try {
     // Execute the tool using FastMCP's internal structure
-    const result = await tool.execute(args, mockRequest);
-    return result;
+    const result = await runWithToolContext(runContext, () => tool.execute(args, mockRequest as any));
+    return result as string;
   } catch (error) {
     console.error(`Tool execution error for ${toolName}:`, error);
     throw error;
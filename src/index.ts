@@ -69,6 +69,24 @@ if (isSmitheryDeployment || OPTIMIZE_FOR_TOOL_SCAN) {
   console.log('- plan_task_implementation: Create a detailed implementation plan for a task');
   console.log('- task_executor: Execute a planned task by implementing necessary file operations');
   console.log('- mark_task_complete: Mark a task as complete in the todolist');
+  console.log('- assign_task_ids: Give every task in a todolist a stable ID');
+  console.log('- query_tasks: Filter and sort tasks by state, priority, tag, owner, due date or estimate');
+  console.log('- set_task_status: Mark a task as open, in progress, blocked, cancelled or done');
+  console.log('- reopen_task: Reopen a task that was marked done by mistake');
+  console.log('- todolist_report: Report progress per section and recently completed tasks');
+  console.log('- export_todolist: Export a todolist to JSON, CSV, todo.txt or GitHub issues');
+  console.log('- import_todolist: Import todo.txt, CSV, GitHub issues or a markdown checklist as a todolist');
+  console.log('- diff_todolists: Compare two todolists task by task: added, removed, reworded, moved and changed state');
+  console.log('- lint_todolist: Check a todolist for duplicates, broken checkboxes, indentation and dependency problems, and fix them');
+  console.log('- add_task: Add a task to a todolist in a section, under a parent or next to another task');
+  console.log('- update_task: Reword a task or change its metadata, dependencies or notes');
+  console.log('- move_task: Move a task with its subtasks to another section, parent or position');
+  console.log('- remove_task: Delete a task with its subtasks from a todolist');
+  console.log('- undo_last_todolist_change: Revert the most recent tool change to a todolist');
+  console.log('- submit_llm_result: Finish a tool operation with a model answer for a handed-off prompt');
+  console.log('- list_prompt_templates: List prompt templates and where they come from');
+  console.log('- render_prompt_template: Show or render the effective prompt template');
+  console.log('- clear_llm_cache: Delete cached model responses for the workspace');
   console.log('- create_file: Create a new file with specified content');
   console.log('- edit_file: Edit an existing file by applying changes');
   console.log('- delete_file: Delete a file from the workspace');
@@ -78,6 +96,7 @@ if (isSmitheryDeployment || OPTIMIZE_FOR_TOOL_SCAN) {
   console.log('- list_directory: List contents of a directory');
   console.log('- delete_directory: Delete a directory');
   console.log('- batch_operations: Execute multiple file operations in a batch');
+  console.log('Available prompts: organize-thoughts, enhance-todolist, find-next-task, plan-next-task');
   
   // Advise users on how to set working directory
   console.log('\n📌 IMPORTANT: To ensure file operations happen in the correct directory,');
@@ -0,0 +1,177 @@
+/**
+ * Response Cache
+ * Stores model responses under `.tanuki/cache` so re-running a tool on unchanged input skips the model call
+ *
+ * Entries are keyed by the prompt template id and text, the normalized template variables and the provider/model.
+ * Variables are normalized so whitespace-only edits to a todolist still hit the cache.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+import { LLMCacheStats, PromptCacheKey } from './types.js';
+
+/**
+ * A cached model response
+ */
+export interface CachedResponse {
+  key: string;
+  templateId: string;
+  provider: string;
+  model: string;
+  text: string;
+  createdAt: string;
+}
+
+// Keys are sha256 hex digests so they can be used as file names safely
+const KEY_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Get the directory holding cached responses for a workspace
+ * @param workspaceRoot The workspace root directory
+ * @returns The cache directory path
+ */
+export function getResponseCacheDir(workspaceRoot: string): string {
+  return resolveWorkspacePath(workspaceRoot, path.join('.tanuki', 'cache'));
+}
+
+/**
+ * Normalize a template variable so formatting-only changes map to the same key
+ * Line endings are unified, trailing whitespace is removed and runs of blank lines are collapsed
+ * @param value The variable value
+ * @returns The normalized value
+ */
+export function normalizeCacheVariable(value: string): string {
+  return value
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Compute the cache key for a prompt sent to a provider/model
+ * @param prompt What the prompt was rendered from
+ * @param provider The provider name
+ * @param model The model name
+ * @returns The cache key
+ */
+export function computeResponseCacheKey(prompt: PromptCacheKey, provider: string, model: string): string {
+  const variables = Object.keys(prompt.variables)
+    .sort()
+    .map(name => [name, normalizeCacheVariable(prompt.variables[name])]);
+
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([prompt.templateId, prompt.templateHash, variables, provider, model]))
+    .digest('hex');
+}
+
+/**
+ * Read a cached response
+ * @param workspaceRoot The workspace root directory
+ * @param key The cache key
+ * @returns The cached response, or null if there is none or it cannot be read
+ */
+export async function readCachedResponse(workspaceRoot: string, key: string): Promise<CachedResponse | null> {
+  const filePath = path.join(getResponseCacheDir(workspaceRoot), `${key}.json`);
+  if (!KEY_PATTERN.test(key) || !existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const entry = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CachedResponse;
+    return typeof entry.text === 'string' ? entry : null;
+  } catch {
+    // A corrupt entry behaves like a miss and is overwritten by the next response
+    return null;
+  }
+}
+
+/**
+ * Store a response in the cache
+ * @param workspaceRoot The workspace root directory
+ * @param entry The response and what it was generated for
+ */
+export async function writeCachedResponse(workspaceRoot: string, entry: Omit<CachedResponse, 'createdAt'>): Promise<void> {
+  if (!KEY_PATTERN.test(entry.key)) {
+    return;
+  }
+
+  const dir = getResponseCacheDir(workspaceRoot);
+  await fs.mkdir(dir, { recursive: true });
+
+  // Write to a temporary file first so a concurrent read never sees a partial entry
+  const filePath = path.join(dir, `${entry.key}.json`);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify({ ...entry, createdAt: new Date().toISOString() }, null, 2), 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Remove one cached response
+ * @param workspaceRoot The workspace root directory
+ * @param key The cache key
+ */
+export async function deleteCachedResponse(workspaceRoot: string, key: string): Promise<void> {
+  if (!KEY_PATTERN.test(key)) {
+    return;
+  }
+  await fs.rm(path.join(getResponseCacheDir(workspaceRoot), `${key}.json`), { force: true });
+}
+
+/**
+ * Remove cached responses from a workspace
+ * @param workspaceRoot The workspace root directory
+ * @param templateId Only remove responses generated from this template
+ * @returns The number of responses removed
+ */
+export async function clearResponseCache(workspaceRoot: string, templateId?: string): Promise<number> {
+  const dir = getResponseCacheDir(workspaceRoot);
+  if (!existsSync(dir)) {
+    return 0;
+  }
+
+  let removed = 0;
+  for (const entry of await fs.readdir(dir)) {
+    if (!entry.endsWith('.json')) {
+      continue;
+    }
+
+    const filePath = path.join(dir, entry);
+    if (templateId) {
+      try {
+        const cached = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CachedResponse;
+        if (cached.templateId !== templateId) {
+          continue;
+        }
+      } catch {
+        // Unreadable entries are removed whatever the filter
+      }
+    }
+
+    await fs.rm(filePath, { force: true });
+    removed++;
+  }
+
+  return removed;
+}
+
+/**
+ * Describe cache use for a tool response
+ * @param stats The invocation's cache hits and misses
+ * @returns A line like "LLM cache: 1 hit, 2 misses", or an empty string if the cache was not consulted
+ */
+export function formatCacheStats(stats?: LLMCacheStats): string {
+  if (!stats || stats.hits + stats.misses === 0) {
+    return '';
+  }
+  const hits = `${stats.hits} ${stats.hits === 1 ? 'hit' : 'hits'}`;
+  const misses = `${stats.misses} ${stats.misses === 1 ? 'miss' : 'misses'}`;
+  return `LLM cache: ${hits}, ${misses}`;
+}
@@ -0,0 +1,269 @@
+/**
+ * Cassette Provider
+ * Records prompt/response pairs from another provider to a cassette file,
+ * or replays them offline with no model attached
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+
+import { CassetteProviderSettings } from '../config/index.js';
+import { LLMProvider, LLMRequest, LLMResponse } from './types.js';
+import { LLMProviderError } from './errors.js';
+
+/**
+ * A recorded prompt and the responses it received, in order
+ */
+interface CassetteEntry {
+  prompt: string;
+  systemPrompt?: string;
+  responses: Array<{
+    text: string;
+    provider: string;
+    model?: string;
+    recordedAt: string;
+  }>;
+}
+
+/**
+ * Cassette file layout
+ */
+interface CassetteFile {
+  version: 1;
+  entries: Record<string, CassetteEntry>;
+}
+
+// Maximum number of diff lines included in a replay miss error
+const MAX_DIFF_LINES = 60;
+
+/**
+ * Compute the cassette key for a request
+ * @param request The generation request
+ * @returns A SHA-256 hash of the system prompt and prompt
+ */
+export function hashPrompt(request: Pick<LLMRequest, 'prompt' | 'systemPrompt'>): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${request.systemPrompt ?? ''}\u0000${request.prompt}`)
+    .digest('hex');
+}
+
+/**
+ * LLM provider that records to or replays from a cassette file
+ * When a prompt was recorded several times, replay returns its responses in recorded order
+ */
+export class CassetteProvider implements LLMProvider {
+  readonly name = 'cassette' as const;
+
+  private readonly cassettePath: string;
+  private cassette: CassetteFile;
+  private replayCursor: Map<string, number> = new Map();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param settings Cassette mode and file path (relative paths resolve against the working directory)
+   * @param inner The provider to record from; unused in replay mode
+   */
+  constructor(private readonly settings: CassetteProviderSettings, private readonly inner: LLMProvider | null) {
+    this.cassettePath = path.resolve(process.cwd(), settings.path);
+    this.cassette = this.loadCassette();
+
+    if (settings.mode === 'record' && !inner) {
+      throw new Error('Cassette provider in record mode needs an underlying provider to record from.');
+    }
+  }
+
+  /**
+   * Record or replay a response for the request
+   * @param request The generation request
+   * @returns The live response (record mode) or the recorded response (replay mode)
+   */
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const key = hashPrompt(request);
+
+    if (this.settings.mode === 'replay') {
+      return this.replay(key, request);
+    }
+
+    const response = await this.inner!.generate(request);
+    await this.record(key, request, response);
+    return response;
+  }
+
+  /**
+   * Return the next recorded response for a key
+   * @param key The prompt hash
+   * @param request The generation request, used to explain misses
+   * @returns The recorded response
+   * @throws LLMProviderError with a diff against the nearest recorded prompt when nothing matches
+   */
+  private replay(key: string, request: LLMRequest): LLMResponse {
+    const entry = this.cassette.entries[key];
+
+    if (!entry || entry.responses.length === 0) {
+      throw new LLMProviderError(this.name, 'replay_miss', this.describeMiss(request));
+    }
+
+    const cursor = this.replayCursor.get(key) ?? 0;
+    const recorded = entry.responses[Math.min(cursor, entry.responses.length - 1)];
+    this.replayCursor.set(key, cursor + 1);
+
+    return { text: recorded.text, provider: this.name, model: recorded.model };
+  }
+
+  /**
+   * Append a response to the cassette and persist it
+   * @param key The prompt hash
+   * @param request The generation request
+   * @param response The response to record
+   */
+  private async record(key: string, request: LLMRequest, response: LLMResponse): Promise<void> {
+    const entry = this.cassette.entries[key] ?? {
+      prompt: request.prompt,
+      systemPrompt: request.systemPrompt,
+      responses: []
+    };
+
+    entry.responses.push({
+      text: response.text,
+      provider: response.provider,
+      model: response.model,
+      recordedAt: new Date().toISOString()
+    });
+    this.cassette.entries[key] = entry;
+
+    // Serialize writes so concurrent tool calls never interleave partial files
+    const snapshot = JSON.stringify(this.cassette, null, 2);
+    this.writeQueue = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.cassettePath), { recursive: true });
+      const tempPath = `${this.cassettePath}.tmp`;
+      await fs.writeFile(tempPath, snapshot, 'utf-8');
+      await fs.rename(tempPath, this.cassettePath);
+    });
+    await this.writeQueue;
+  }
+
+  /**
+   * Load the cassette file, or start an empty one in record mode
+   * @returns The cassette contents
+   */
+  private loadCassette(): CassetteFile {
+    if (!existsSync(this.cassettePath)) {
+      if (this.settings.mode === 'replay') {
+        throw new Error(`Cassette file "${this.cassettePath}" does not exist. Record one first with llm.cassette.mode = "record".`);
+      }
+      return { version: 1, entries: {} };
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.cassettePath, 'utf-8'));
+      if (!parsed || typeof parsed.entries !== 'object') {
+        throw new Error('missing "entries" object');
+      }
+      return parsed as CassetteFile;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load cassette "${this.cassettePath}": ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Explain a replay miss with a diff against the most similar recorded prompt
+   * @param request The unmatched request
+   * @returns The error message
+   */
+  private describeMiss(request: LLMRequest): string {
+    const header = `No recorded response in "${this.cassettePath}" for prompt ${hashPrompt(request).substring(0, 12)}.`;
+    const actualLines = toLines(request);
+
+    let nearest: { key: string; lines: string[]; score: number } | null = null;
+    for (const [key, entry] of Object.entries(this.cassette.entries)) {
+      const lines = toLines(entry);
+      const score = commonLineCount(lines, actualLines) / Math.max(lines.length, actualLines.length, 1);
+      if (!nearest || score > nearest.score) {
+        nearest = { key, lines, score };
+      }
+    }
+
+    if (!nearest) {
+      return `${header} The cassette is empty.`;
+    }
+
+    const diff = diffLines(nearest.lines, actualLines);
+    const shown = diff.slice(0, MAX_DIFF_LINES);
+    const truncated = diff.length > shown.length ? `\n... ${diff.length - shown.length} more diff lines` : '';
+
+    return `${header}\nNearest recorded prompt ${nearest.key.substring(0, 12)} (${Math.round(nearest.score * 100)}% of lines match). Diff (- recorded, + actual):\n${shown.join('\n')}${truncated}`;
+  }
+}
+
+/**
+ * Split a request into lines for diffing, with the system prompt first
+ * @param request The prompt and system prompt
+ * @returns The lines
+ */
+function toLines(request: { prompt: string; systemPrompt?: string }): string[] {
+  const system = request.systemPrompt ? [`[system] ${request.systemPrompt}`] : [];
+  return [...system, ...request.prompt.split('\n')];
+}
+
+/**
+ * Build the longest-common-subsequence table for two line arrays
+ * @param a The first lines
+ * @param b The second lines
+ * @returns The LCS table, where table[i][j] covers a[i..] and b[j..]
+ */
+function lcsTable(a: string[], b: string[]): number[][] {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table;
+}
+
+/**
+ * Count the lines two prompts have in common, in order
+ * @param a The first lines
+ * @param b The second lines
+ * @returns The length of the longest common subsequence
+ */
+function commonLineCount(a: string[], b: string[]): number {
+  return lcsTable(a, b)[0][0];
+}
+
+/**
+ * Produce the changed lines between two prompts, with one line of context around each change
+ * @param recorded The recorded prompt lines
+ * @param actual The actual prompt lines
+ * @returns Diff lines prefixed with "-", "+" or " "
+ */
+function diffLines(recorded: string[], actual: string[]): string[] {
+  const table = lcsTable(recorded, actual);
+  const ops: Array<{ sign: ' ' | '-' | '+'; line: string }> = [];
+
+  let i = 0;
+  let j = 0;
+  while (i < recorded.length && j < actual.length) {
+    if (recorded[i] === actual[j]) {
+      ops.push({ sign: ' ', line: recorded[i] });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      ops.push({ sign: '-', line: recorded[i++] });
+    } else {
+      ops.push({ sign: '+', line: actual[j++] });
+    }
+  }
+  while (i < recorded.length) ops.push({ sign: '-', line: recorded[i++] });
+  while (j < actual.length) ops.push({ sign: '+', line: actual[j++] });
+
+  // Keep changed lines plus one line of context on either side
+  const isChange = (index: number) => ops[index] !== undefined && ops[index].sign !== ' ';
+  return ops
+    .filter((op, index) => isChange(index) || isChange(index - 1) || isChange(index + 1))
+    .map(op => `${op.sign} ${op.line}`);
+}
@@ -0,0 +1,147 @@
+/**
+ * Continuation Store
+ * Persists pending prompt handoffs so submit_llm_result can finish them, even after a server restart
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+
+/**
+ * A tool invocation waiting for the caller to supply a model answer
+ */
+export interface Continuation {
+  token: string;
+  tool: string;
+  args: Record<string, unknown>;
+  // Answers already supplied for earlier prompts of the same invocation, keyed by prompt hash
+  answers: Record<string, string>;
+  // Options of the original call that the resumed run keeps; absent in continuations saved before they were kept
+  options?: {
+    noCache?: boolean;
+  };
+  pending: {
+    promptHash: string;
+    prompt: string;
+    systemPrompt?: string;
+  };
+  createdAt: string;
+  expiresAt: string;
+}
+
+// Tokens are random hex so they can be used as file names safely
+const TOKEN_PATTERN = /^[a-f0-9]{24}$/;
+
+/**
+ * Get the directory holding continuations for a workspace
+ * @param workspaceRoot The workspace root directory
+ * @returns The continuation directory path
+ */
+function getContinuationDir(workspaceRoot: string): string {
+  return resolveWorkspacePath(workspaceRoot, path.join('.tanuki', 'continuations'));
+}
+
+/**
+ * Save a new continuation
+ * @param workspaceRoot The workspace root directory
+ * @param data The tool invocation and pending prompt
+ * @param ttlMinutes Minutes until the continuation expires
+ * @returns The stored continuation including its token
+ */
+export async function saveContinuation(
+  workspaceRoot: string,
+  data: Omit<Continuation, 'token' | 'createdAt' | 'expiresAt'>,
+  ttlMinutes: number
+): Promise<Continuation> {
+  await pruneExpiredContinuations(workspaceRoot);
+
+  const now = Date.now();
+  const continuation: Continuation = {
+    token: crypto.randomBytes(12).toString('hex'),
+    ...data,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMinutes * 60 * 1000).toISOString()
+  };
+
+  const dir = getContinuationDir(workspaceRoot);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, `${continuation.token}.json`), JSON.stringify(continuation, null, 2), 'utf-8');
+
+  return continuation;
+}
+
+/**
+ * Load a continuation by token
+ * @param workspaceRoot The workspace root directory
+ * @param token The continuation token
+ * @returns The continuation
+ * @throws Error if the token is malformed, unknown or expired
+ */
+export async function loadContinuation(workspaceRoot: string, token: string): Promise<Continuation> {
+  const trimmedToken = token.trim();
+  if (!TOKEN_PATTERN.test(trimmedToken)) {
+    throw new Error(`Invalid continuation token "${token}".`);
+  }
+
+  const filePath = path.join(getContinuationDir(workspaceRoot), `${trimmedToken}.json`);
+  if (!existsSync(filePath)) {
+    throw new Error(`Unknown continuation token "${trimmedToken}". It may have been used already or belong to another workspace.`);
+  }
+
+  const continuation = JSON.parse(await fs.readFile(filePath, 'utf-8')) as Continuation;
+  if (Date.parse(continuation.expiresAt) <= Date.now()) {
+    await fs.rm(filePath, { force: true });
+    throw new Error(`Continuation token "${trimmedToken}" expired at ${continuation.expiresAt}. Run the original tool again.`);
+  }
+
+  return continuation;
+}
+
+/**
+ * Delete a continuation once it has been used
+ * @param workspaceRoot The workspace root directory
+ * @param token The continuation token
+ */
+export async function deleteContinuation(workspaceRoot: string, token: string): Promise<void> {
+  if (!TOKEN_PATTERN.test(token)) {
+    return;
+  }
+  await fs.rm(path.join(getContinuationDir(workspaceRoot), `${token}.json`), { force: true });
+}
+
+/**
+ * Delete all expired continuations in a workspace
+ * @param workspaceRoot The workspace root directory
+ * @returns The number of continuations removed
+ */
+export async function pruneExpiredContinuations(workspaceRoot: string): Promise<number> {
+  const dir = getContinuationDir(workspaceRoot);
+  if (!existsSync(dir)) {
+    return 0;
+  }
+
+  let removed = 0;
+  for (const entry of await fs.readdir(dir)) {
+    if (!entry.endsWith('.json')) {
+      continue;
+    }
+
+    const filePath = path.join(dir, entry);
+    try {
+      const continuation = JSON.parse(await fs.readFile(filePath, 'utf-8')) as Continuation;
+      if (Date.parse(continuation.expiresAt) > Date.now()) {
+        continue;
+      }
+    } catch {
+      // Unreadable continuations can never be resumed, so they are removed too
+    }
+
+    await fs.rm(filePath, { force: true });
+    removed++;
+  }
+
+  return removed;
+}
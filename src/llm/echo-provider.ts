@@ -0,0 +1,24 @@
+/**
+ * Echo Provider
+ * Hands the prompt back to the caller instead of generating a response
+ */
+
+import { LLMProvider, LLMRequest, LLMResponse } from './types.js';
+import { PromptEchoError } from './errors.js';
+
+/**
+ * LLM provider that never calls a model
+ * Every request fails with a PromptEchoError carrying the prompt, which tools return to the caller
+ */
+export class EchoProvider implements LLMProvider {
+  readonly name = 'echo' as const;
+
+  /**
+   * Echo the request back to the caller
+   * @param request The generation request
+   * @throws PromptEchoError always
+   */
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    throw new PromptEchoError(request.prompt, request.systemPrompt);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * LLM Errors
+ * Errors raised by the LLM providers
+ */
+
+import { LLMProviderName } from '../config/index.js';
+
+/**
+ * Categories that provider-specific failures are mapped onto
+ */
+export type LLMErrorCode =
+  | 'unavailable'
+  | 'unsupported'
+  | 'timeout'
+  | 'rate_limited'
+  | 'auth'
+  | 'bad_request'
+  | 'bad_response'
+  | 'replay_miss'
+  | 'echo';
+
+/**
+ * Error raised by an LLM provider
+ */
+export class LLMProviderError extends Error {
+  readonly provider: LLMProviderName;
+  readonly code: LLMErrorCode;
+  readonly retryable: boolean;
+
+  constructor(provider: LLMProviderName, code: LLMErrorCode, message: string, retryable = false) {
+    super(`[${provider}] ${message}`);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Raised by the echo provider to hand the prompt back to the caller
+ */
+export class PromptEchoError extends LLMProviderError {
+  readonly prompt: string;
+  readonly systemPrompt?: string;
+
+  constructor(prompt: string, systemPrompt?: string) {
+    super('echo', 'echo', 'LLM provider is set to "echo"; the prompt is returned to the caller instead of being generated.');
+    this.name = 'PromptEchoError';
+    this.prompt = prompt;
+    this.systemPrompt = systemPrompt;
+  }
+}
+
+/**
+ * Format an echoed prompt as a tool response
+ * @param error The echo error carrying the prompt
+ * @returns A response asking the caller to run the prompt with its own model
+ */
+export function formatPromptEcho(error: PromptEchoError): string {
+  const systemSection = error.systemPrompt ? `System prompt:\n${error.systemPrompt}\n\n` : '';
+  return `LLM provider is set to "echo": no model was called. Run the prompt below with your own model.\n\n${systemSection}Prompt:\n${error.prompt.trim()}`;
+}
+
+/**
+ * Raised when no model can be called and the prompt should be handed to the caller instead
+ * Tools turn this into a continuation that submit_llm_result can finish
+ */
+export class PromptHandoffError extends Error {
+  readonly prompt: string;
+  readonly systemPrompt?: string;
+  readonly promptHash: string;
+  readonly reason: string;
+
+  constructor(prompt: string, systemPrompt: string | undefined, promptHash: string, reason: string) {
+    super(`No model available to answer the prompt: ${reason}`);
+    this.name = 'PromptHandoffError';
+    this.prompt = prompt;
+    this.systemPrompt = systemPrompt;
+    this.promptHash = promptHash;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Raised when the model keeps returning output that does not match the expected schema
+ */
+export class StructuredOutputError extends Error {
+  readonly attempts: number;
+  readonly issues: string;
+
+  constructor(attempts: number, issues: string) {
+    super(`The model did not return valid output after ${attempts} attempt(s):\n${issues}`);
+    this.name = 'StructuredOutputError';
+    this.attempts = attempts;
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * LLM Index
+ * Provider selection and exports for the LLM layer
+ */
+
+import { LLMConfig, loadConfig } from '../config/index.js';
+import { LLMProvider } from './types.js';
+import { SamplingProvider } from './sampling-provider.js';
+import { OpenAIProvider } from './openai-provider.js';
+import { EchoProvider } from './echo-provider.js';
+import { CassetteProvider } from './cassette-provider.js';
+
+export * from './types.js';
+export * from './errors.js';
+export { setSamplingServer } from './sampling-provider.js';
+export { hashPrompt } from './cassette-provider.js';
+export * from './continuations.js';
+export * from './cache.js';
+
+/**
+ * The LLM configuration loaded on first use
+ */
+let activeConfig: LLMConfig | null = null;
+
+/**
+ * The provider built from the loaded configuration
+ */
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Get the `llm` section of tanuki-config.json
+ * The configuration is loaded on first use and reused afterwards
+ * @returns The LLM configuration
+ */
+export function getLLMConfig(): LLMConfig {
+  if (!activeConfig) {
+    activeConfig = loadConfig().llm;
+  }
+  return activeConfig;
+}
+
+/**
+ * Get the context window of the configured provider, in tokens
+ * The cassette provider uses its inner provider's window; echo hands prompts to the caller's model,
+ * so it uses the sampling window
+ * @param config The LLM configuration
+ * @returns The number of tokens available for prompt and response together
+ */
+export function getContextWindowTokens(config: LLMConfig = getLLMConfig()): number {
+  const provider = config.provider === 'cassette' ? config.cassette.provider : config.provider;
+  return provider === 'openai' ? config.openai.contextWindowTokens : config.sampling.contextWindowTokens;
+}
+
+/**
+ * Get the provider and model that responses can be cached for
+ * Echo generates nothing and cassettes already replay recorded responses, so neither is cached.
+ * Sampling has no model name until a response arrives, so its responses are keyed by the provider alone.
+ * @param config The LLM configuration
+ * @returns The provider and model, or null if responses from this provider are not cached
+ */
+export function getCacheableModel(config: LLMConfig = getLLMConfig()): { provider: string; model: string } | null {
+  switch (config.provider) {
+    case 'sampling':
+      return { provider: 'sampling', model: 'client' };
+    case 'openai':
+      return { provider: 'openai', model: `${config.openai.baseUrl} ${config.openai.model}` };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Create a provider from LLM configuration
+ * @param config The LLM configuration
+ * @returns The configured provider
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case 'sampling':
+      return new SamplingProvider(config.sampling);
+    case 'openai':
+      return new OpenAIProvider(config.openai);
+    case 'echo':
+      return new EchoProvider();
+    case 'cassette': {
+      if ((config.cassette.provider as string) === 'cassette') {
+        throw new Error('llm.cassette.provider cannot itself be "cassette".');
+      }
+      const inner = config.cassette.mode === 'record'
+        ? createLLMProvider({ ...config, provider: config.cassette.provider })
+        : null;
+      return new CassetteProvider(config.cassette, inner);
+    }
+    default:
+      throw new Error(`Unknown LLM provider "${(config as any).provider}" in tanuki-config.json. Expected one of: sampling, openai, echo, cassette.`);
+  }
+}
+
+/**
+ * Get the provider selected in tanuki-config.json
+ * The provider is created on first use and reused afterwards
+ * @returns The active provider
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider(getLLMConfig());
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the active provider
+ * @param provider The provider to use, or null to rebuild it from configuration on next use
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
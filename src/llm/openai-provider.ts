@@ -0,0 +1,130 @@
+/**
+ * OpenAI-Compatible Provider
+ * Generates text through an OpenAI-compatible chat completions endpoint,
+ * such as a local llama.cpp server or Ollama
+ */
+
+import fetch from 'node-fetch';
+
+import { OpenAIProviderSettings } from '../config/index.js';
+import { LLMProvider, LLMRequest, LLMResponse, DEFAULT_MAX_TOKENS } from './types.js';
+import { LLMProviderError } from './errors.js';
+import { withRetries } from './retry.js';
+
+/**
+ * Subset of the chat completions response that the provider reads
+ */
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null };
+  }>;
+}
+
+/**
+ * LLM provider backed by an OpenAI-compatible HTTP endpoint
+ * Model preferences are ignored; the configured model is always used
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(private readonly settings: OpenAIProviderSettings) {}
+
+  /**
+   * Send a chat completion request to the endpoint
+   * @param request The generation request
+   * @returns The generated text and the model that produced it
+   */
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const url = `${this.settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const apiKey = this.settings.apiKey || process.env.TANUKI_LLM_API_KEY;
+
+    const messages: Array<{ role: string; content: string }> = [];
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+    messages.push({ role: 'user', content: request.prompt });
+
+    return withRetries(this.settings, async (signal) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: this.settings.model,
+          messages,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: request.temperature,
+          stream: false
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw this.mapStatus(response.status, body);
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      const text = data.choices?.[0]?.message?.content;
+
+      if (typeof text !== 'string') {
+        throw new LLMProviderError(this.name, 'bad_response', `Endpoint ${url} returned no message content.`);
+      }
+
+      return { text, provider: this.name, model: data.model || this.settings.model };
+    }, (error, timedOut) => this.mapError(error, timedOut, url));
+  }
+
+  /**
+   * Map an HTTP error status to a provider error
+   * @param status The HTTP status code
+   * @param body The response body, used for the error message
+   * @returns The mapped error
+   */
+  private mapStatus(status: number, body: string): LLMProviderError {
+    const detail = body.trim().substring(0, 500);
+
+    if (status === 401 || status === 403) {
+      return new LLMProviderError(this.name, 'auth', `Endpoint rejected the credentials (HTTP ${status}). Set llm.openai.apiKey or TANUKI_LLM_API_KEY.`);
+    }
+    if (status === 404) {
+      return new LLMProviderError(this.name, 'bad_request', `Endpoint or model "${this.settings.model}" not found (HTTP 404). ${detail}`);
+    }
+    if (status === 408) {
+      return new LLMProviderError(this.name, 'timeout', `Endpoint timed out (HTTP 408).`, true);
+    }
+    if (status === 429) {
+      return new LLMProviderError(this.name, 'rate_limited', `Endpoint is rate limiting requests (HTTP 429).`, true);
+    }
+    if (status >= 500) {
+      return new LLMProviderError(this.name, 'unavailable', `Endpoint failed with HTTP ${status}. ${detail}`, true);
+    }
+    return new LLMProviderError(this.name, 'bad_request', `Endpoint rejected the request with HTTP ${status}. ${detail}`);
+  }
+
+  /**
+   * Map a network or parsing failure to a provider error
+   * @param error The raw failure
+   * @param timedOut Whether the request was aborted by the timeout
+   * @param url The endpoint URL, used for the error message
+   * @returns The mapped error
+   */
+  private mapError(error: unknown, timedOut: boolean, url: string): LLMProviderError {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const code = (error as { code?: unknown } | null)?.code;
+
+    if (timedOut) {
+      return new LLMProviderError(this.name, 'timeout', `Request to ${url} timed out after ${this.settings.timeoutMs}ms.`, true);
+    }
+    if (code === 'ECONNREFUSED' || code === 'ECONNRESET' || code === 'ENOTFOUND' || code === 'EAI_AGAIN') {
+      return new LLMProviderError(this.name, 'unavailable', `Could not reach ${url} (${code}). Is the model server running?`, true);
+    }
+    if (error instanceof SyntaxError) {
+      return new LLMProviderError(this.name, 'bad_response', `Endpoint ${url} returned invalid JSON.`);
+    }
+    return new LLMProviderError(this.name, 'unavailable', `Request to ${url} failed: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * LLM Retry Helpers
+ * Timeout and retry handling for provider requests
+ */
+
+import { LLMProviderSettings } from '../config/index.js';
+import { LLMProviderError } from './errors.js';
+
+/**
+ * Run a provider request, retrying retryable failures with linear backoff
+ * @param settings The provider's timeout and retry settings
+ * @param attempt The request to run; receives an abort signal that fires on timeout
+ * @param mapError Maps a raw failure (including a timeout abort) to a provider error
+ * @returns The result of the first successful attempt
+ * @throws LLMProviderError from the last failed attempt
+ */
+export async function withRetries<T>(
+  settings: LLMProviderSettings,
+  attempt: (signal: AbortSignal) => Promise<T>,
+  mapError: (error: unknown, timedOut: boolean) => LLMProviderError
+): Promise<T> {
+  let lastError: LLMProviderError | undefined;
+
+  for (let tryIndex = 0; tryIndex <= settings.maxRetries; tryIndex++) {
+    if (tryIndex > 0) {
+      await delay(settings.retryDelayMs * tryIndex);
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+
+    try {
+      return await attempt(controller.signal);
+    } catch (error) {
+      lastError = error instanceof LLMProviderError ? error : mapError(error, controller.signal.aborted);
+      if (!lastError.retryable) {
+        throw lastError;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ * @param ms Milliseconds to wait
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,113 @@
+/**
+ * Sampling Provider
+ * Generates text by sending `sampling/createMessage` requests back to the connected MCP client
+ */
+
+import type { FastMCP, FastMCPSession } from 'fastmcp';
+
+import { LLMProviderSettings } from '../config/index.js';
+import { LLMProvider, LLMRequest, LLMResponse, DEFAULT_MAX_TOKENS } from './types.js';
+import { LLMProviderError } from './errors.js';
+import { withRetries } from './retry.js';
+
+// JSON-RPC error codes used by the MCP SDK
+const CONNECTION_CLOSED = -32000;
+const REQUEST_TIMEOUT = -32001;
+const METHOD_NOT_FOUND = -32601;
+
+/**
+ * The server whose connected client sessions answer sampling requests
+ */
+let samplingServer: FastMCP | null = null;
+
+/**
+ * Attach the MCP server whose client sessions will be used for sampling
+ * @param server The FastMCP server instance
+ */
+export function setSamplingServer(server: FastMCP): void {
+  samplingServer = server;
+}
+
+/**
+ * LLM provider backed by MCP sampling
+ */
+export class SamplingProvider implements LLMProvider {
+  readonly name = 'sampling' as const;
+
+  constructor(private readonly settings: LLMProviderSettings) {}
+
+  /**
+   * Ask the connected client to generate a response
+   * @param request The generation request
+   * @returns The generated text and the model the client used
+   */
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const session = this.getSession();
+
+    return withRetries(this.settings, async (signal) => {
+      const response = await session.server.createMessage({
+        messages: [
+          {
+            role: 'user',
+            content: { type: 'text', text: request.prompt }
+          }
+        ],
+        systemPrompt: request.systemPrompt,
+        maxTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        modelPreferences: request.modelPreferences,
+        includeContext: 'none'
+      }, { signal, timeout: this.settings.timeoutMs });
+
+      if (response.content.type !== 'text') {
+        throw new LLMProviderError(this.name, 'bad_response', `Expected text content from the client, got "${response.content.type}".`);
+      }
+
+      return { text: response.content.text, provider: this.name, model: response.model };
+    }, (error, timedOut) => this.mapError(error, timedOut));
+  }
+
+  /**
+   * Get the client session that should answer sampling requests
+   * The most recently connected session is used, which is the only one in stdio mode
+   * @returns The client session
+   * @throws LLMProviderError if no client is connected or the client does not support sampling
+   */
+  private getSession(): FastMCPSession {
+    const sessions = samplingServer ? samplingServer.sessions : [];
+    const session = sessions[sessions.length - 1];
+
+    if (!session) {
+      throw new LLMProviderError(this.name, 'unavailable', 'No MCP client is connected to answer sampling requests.');
+    }
+
+    // Capabilities may be unknown if the client did not report them in time; let the request decide then
+    if (session.clientCapabilities && !session.clientCapabilities.sampling) {
+      throw new LLMProviderError(this.name, 'unsupported', 'The connected MCP client does not support sampling (sampling/createMessage). Use a client with sampling support or configure another llm.provider in tanuki-config.json.');
+    }
+
+    return session;
+  }
+
+  /**
+   * Map a failed sampling request to a provider error
+   * @param error The raw failure
+   * @param timedOut Whether the request was aborted by the timeout
+   * @returns The mapped error
+   */
+  private mapError(error: unknown, timedOut: boolean): LLMProviderError {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const code = (error as { code?: unknown } | null)?.code;
+
+    if (timedOut || code === REQUEST_TIMEOUT) {
+      return new LLMProviderError(this.name, 'timeout', `Sampling request timed out after ${this.settings.timeoutMs}ms.`, true);
+    }
+    if (code === METHOD_NOT_FOUND || /does not support sampling/i.test(errorMessage)) {
+      return new LLMProviderError(this.name, 'unsupported', 'The connected MCP client does not support sampling (sampling/createMessage).');
+    }
+    if (code === CONNECTION_CLOSED) {
+      return new LLMProviderError(this.name, 'unavailable', 'The MCP client connection closed during a sampling request.');
+    }
+    return new LLMProviderError(this.name, 'bad_response', `Sampling request failed: ${errorMessage}`);
+  }
+}
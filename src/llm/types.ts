@@ -0,0 +1,93 @@
+/**
+ * LLM Types
+ * Type definitions shared by the LLM providers
+ */
+
+import { LLMProviderName } from '../config/index.js';
+
+/**
+ * Model preferences forwarded to the model with a request
+ * Mirrors the MCP `ModelPreferences` structure
+ */
+export interface LLMModelPreferences {
+  hints?: Array<{ name?: string }>;
+  costPriority?: number;
+  speedPriority?: number;
+  intelligencePriority?: number;
+}
+
+/**
+ * Options for a single LLM generation request
+ */
+export interface LLMRequestOptions {
+  systemPrompt?: string;
+  maxTokens?: number;
+  temperature?: number;
+  modelPreferences?: LLMModelPreferences;
+}
+
+/**
+ * A complete LLM generation request
+ */
+export interface LLMRequest extends LLMRequestOptions {
+  prompt: string;
+}
+
+/**
+ * The result of an LLM generation request
+ */
+export interface LLMResponse {
+  text: string;
+  provider: LLMProviderName;
+  model?: string;
+}
+
+/**
+ * LLM provider
+ * Each provider owns its own timeout, retry and error mapping
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Per-invocation context threaded from a tool through the workflow functions to generateWithLLM
+ */
+export interface LLMCallContext {
+  // Workspace root, used to find prompt template overrides and the response cache
+  workspaceRoot?: string;
+  // Answers supplied through submit_llm_result, keyed by prompt hash
+  answers?: Record<string, string>;
+  // Skip the response cache for this invocation
+  noCache?: boolean;
+  // Cache hits and misses of this invocation, reported in the tool response
+  cacheStats?: LLMCacheStats;
+  // Aborted when the client cancels the tool call; checked between model calls
+  signal?: AbortSignal;
+  // Reports the steps of work that takes several model calls
+  reportProgress?: (message: string, completed?: number, total?: number) => Promise<void>;
+}
+
+/**
+ * What a prompt was rendered from, used to key the response cache
+ */
+export interface PromptCacheKey {
+  templateId: string;
+  // Hash of the effective template and system prompt text, so editing an override invalidates entries
+  templateHash: string;
+  variables: Record<string, string>;
+}
+
+/**
+ * Response cache hits and misses for one tool invocation
+ */
+export interface LLMCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Default token limit for a request when none is given
+ */
+export const DEFAULT_MAX_TOKENS = 4096;
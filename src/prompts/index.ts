@@ -0,0 +1,192 @@
+/**
+ * Prompt Template Registry
+ * Resolves the effective prompt templates, applying workspace and global overrides
+ *
+ * Overrides are plain files named after the template id:
+ * - `<id>.md` replaces the prompt body
+ * - `<id>.system.md` replaces the system prompt
+ * Workspace overrides live in `<workspace_root>/.tanuki/prompts/`, global ones in `prompts.globalDir`
+ * (or the TANUKI_PROMPTS_DIR environment variable). Workspace files win over global files.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+
+import { loadConfig } from '../config/index.js';
+import { LLMRequestOptions, PromptCacheKey } from '../llm/index.js';
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+import { builtInTemplates, PromptTemplate, PromptTemplateId, PromptTemplateVariables } from './templates.js';
+
+export * from './templates.js';
+
+/**
+ * Where the effective text of a template came from
+ */
+export type PromptTemplateSource = 'workspace' | 'global' | 'built-in';
+
+/**
+ * A template with overrides applied
+ */
+export interface ResolvedPromptTemplate extends PromptTemplate {
+  source: PromptTemplateSource;
+  sourcePath?: string;
+  systemPromptSource: PromptTemplateSource;
+  systemPromptPath?: string;
+}
+
+/**
+ * A rendered prompt ready to send to the LLM
+ */
+export interface RenderedPrompt {
+  id: PromptTemplateId;
+  prompt: string;
+  options: LLMRequestOptions;
+  cacheKey: PromptCacheKey;
+}
+
+// Matches {{variable}} placeholders, allowing inner whitespace
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Check whether a string is a known template id
+ * @param id The candidate id
+ * @returns True if a built-in template has this id
+ */
+export function isPromptTemplateId(id: string): id is PromptTemplateId {
+  return Object.prototype.hasOwnProperty.call(builtInTemplates, id);
+}
+
+/**
+ * Get the directory holding global template overrides
+ * @returns The global prompts directory
+ */
+export function getGlobalPromptsDir(): string {
+  return process.env.TANUKI_PROMPTS_DIR || loadConfig().prompts.globalDir;
+}
+
+/**
+ * Get the directory holding a workspace's template overrides
+ * @param workspaceRoot The workspace root directory
+ * @returns The workspace prompts directory
+ */
+export function getWorkspacePromptsDir(workspaceRoot: string): string {
+  return resolveWorkspacePath(workspaceRoot, path.join('.tanuki', 'prompts'));
+}
+
+/**
+ * Resolve the effective template for an id
+ * @param id The template id
+ * @param workspaceRoot Optional workspace root, to apply workspace overrides
+ * @returns The template with overrides applied and their sources
+ */
+export async function resolvePromptTemplate(id: PromptTemplateId, workspaceRoot?: string): Promise<ResolvedPromptTemplate> {
+  const builtIn = builtInTemplates[id] as PromptTemplate;
+  const body = await findOverride(`${id}.md`, workspaceRoot);
+  const system = await findOverride(`${id}.system.md`, workspaceRoot);
+
+  return {
+    ...builtIn,
+    template: body ? body.content : builtIn.template,
+    source: body ? body.source : 'built-in',
+    sourcePath: body?.filePath,
+    systemPrompt: system ? system.content : builtIn.systemPrompt,
+    systemPromptSource: system ? system.source : 'built-in',
+    systemPromptPath: system?.filePath
+  };
+}
+
+/**
+ * Resolve every template
+ * @param workspaceRoot Optional workspace root, to apply workspace overrides
+ * @returns The effective templates in definition order
+ */
+export async function listPromptTemplates(workspaceRoot?: string): Promise<ResolvedPromptTemplate[]> {
+  const ids = Object.keys(builtInTemplates) as PromptTemplateId[];
+  return Promise.all(ids.map(id => resolvePromptTemplate(id, workspaceRoot)));
+}
+
+/**
+ * Render the effective template for an id
+ * @param id The template id
+ * @param variables Values for the template's variables
+ * @param workspaceRoot Optional workspace root, to apply workspace overrides
+ * @returns The rendered prompt and request options
+ * @throws Error if the template references a variable that was not supplied
+ */
+export async function renderPromptTemplate<Id extends PromptTemplateId>(
+  id: Id,
+  variables: PromptTemplateVariables[Id],
+  workspaceRoot?: string
+): Promise<RenderedPrompt> {
+  const resolved = await resolvePromptTemplate(id, workspaceRoot);
+  const values = variables as unknown as Record<string, string>;
+
+  return {
+    id,
+    prompt: fillTemplate(resolved.template, values, resolved.sourcePath || id),
+    options: {
+      ...resolved.requestOptions,
+      systemPrompt: fillTemplate(resolved.systemPrompt, values, resolved.systemPromptPath || `${id} system prompt`)
+    },
+    cacheKey: {
+      templateId: id,
+      templateHash: crypto.createHash('sha256').update(`${resolved.systemPrompt}\u0000${resolved.template}`).digest('hex'),
+      variables: { ...values }
+    }
+  };
+}
+
+/**
+ * Replace `{{variable}}` placeholders in a template
+ * Values are inserted verbatim and never re-scanned for placeholders
+ * @param template The template text
+ * @param values Values by variable name
+ * @param origin Template name or file path, used in error messages
+ * @returns The filled text
+ * @throws Error if a placeholder has no value
+ */
+export function fillTemplate(template: string, values: Record<string, string>, origin: string): string {
+  const missing = new Set<string>();
+  const filled = template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(values, name)) {
+      missing.add(name);
+      return placeholder;
+    }
+    return values[name];
+  });
+
+  if (missing.size > 0) {
+    throw new Error(`Prompt template "${origin}" references variable(s) with no value: ${Array.from(missing).join(', ')}. Available: ${Object.keys(values).join(', ')}.`);
+  }
+
+  return filled;
+}
+
+/**
+ * Look for an override file, workspace first and then global
+ * @param fileName The override file name
+ * @param workspaceRoot Optional workspace root
+ * @returns The override content and origin, or null if there is none
+ */
+async function findOverride(
+  fileName: string,
+  workspaceRoot?: string
+): Promise<{ content: string; source: PromptTemplateSource; filePath: string } | null> {
+  const candidates: Array<{ dir: string; source: PromptTemplateSource }> = [];
+  if (workspaceRoot) {
+    candidates.push({ dir: getWorkspacePromptsDir(workspaceRoot), source: 'workspace' });
+  }
+  candidates.push({ dir: getGlobalPromptsDir(), source: 'global' });
+
+  for (const candidate of candidates) {
+    const filePath = path.join(candidate.dir, fileName);
+    if (existsSync(filePath)) {
+      const content = await fs.readFile(filePath, 'utf-8');
+      return { content: content.trim(), source: candidate.source, filePath };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,314 @@
+/**
+ * Built-in Prompt Templates
+ * The default prompts used by the sequential workflow; each can be overridden per workspace or globally
+ */
+
+import { LLMRequestOptions } from '../llm/index.js';
+
+/**
+ * Variables accepted by each template, keyed by template id
+ */
+export interface PromptTemplateVariables {
+  'generate-todolist': { projectDescription: string; thoughts: string };
+  'enhance-todolist': { todolist: string };
+  'enhance-todolist-section': { outline: string; section: string };
+  'find-next-task': { todolist: string };
+  'choose-next-task': { todolist: string; candidates: string };
+  'implementation-plan': { task: string; todolist: string };
+  'plan-actions': { task: string; plan: string };
+  'repair-structured-output': { prompt: string; response: string; errors: string };
+}
+
+/**
+ * Template identifier
+ */
+export type PromptTemplateId = keyof PromptTemplateVariables;
+
+/**
+ * A prompt template definition
+ * `template` and `systemPrompt` use `{{variable}}` placeholders
+ */
+export interface PromptTemplate<Id extends PromptTemplateId = PromptTemplateId> {
+  id: Id;
+  description: string;
+  variables: Record<keyof PromptTemplateVariables[Id] & string, string>;
+  systemPrompt: string;
+  template: string;
+  requestOptions: Omit<LLMRequestOptions, 'systemPrompt'>;
+}
+
+/**
+ * Built-in templates by id
+ */
+export const builtInTemplates: { [Id in PromptTemplateId]: PromptTemplate<Id> } = {
+  'generate-todolist': {
+    id: 'generate-todolist',
+    description: 'Organize unstructured thoughts into a markdown todolist (brain_dump_organize)',
+    variables: {
+      projectDescription: 'Brief description of the project',
+      thoughts: 'Unstructured thoughts about the project'
+    },
+    systemPrompt: 'You are a project planning assistant that turns rough notes into clear, actionable markdown todolists.',
+    template: `Your task is to analyze the following unstructured thoughts about a project and organize them into a clear, structured todolist.
+
+Project: {{projectDescription}}
+
+Unstructured thoughts:
+{{thoughts}}
+
+Create a markdown todolist that:
+1. Starts with a heading showing the project name
+2. Organizes tasks into logical categories based on the content
+3. Uses proper Markdown formatting with checkboxes (- [ ] Task)
+4. Includes EVERY thought from the input, transformed into clear, actionable tasks
+5. Is comprehensive and detailed
+
+Return ONLY the markdown todolist without any other text.`,
+    requestOptions: {
+      maxTokens: 4096,
+      modelPreferences: { intelligencePriority: 0.7, speedPriority: 0.3 }
+    }
+  },
+
+  'enhance-todolist': {
+    id: 'enhance-todolist',
+    description: 'Add acceptance criteria and technical detail to a todolist (enhance_todolist)',
+    variables: {
+      todolist: 'The todolist to enhance'
+    },
+    systemPrompt: 'You are a senior engineer who refines project todolists with acceptance criteria and technical detail.',
+    template: `Your task is to enhance and improve this todolist with more specific details, acceptance criteria, and technical requirements.
+
+Original todolist:
+{{todolist}}
+
+For each existing task:
+1. Add 2-3 specific acceptance criteria as subtasks
+2. Add relevant technical requirements and implementation details
+3. Consider edge cases and error handling
+
+Also, add any missing categories that would be important for a complete project, such as:
+- Testing & QA
+- Deployment
+- Security
+- Documentation
+
+Preserve all existing content and structure. Add to it, don't remove anything.
+Keep each task's trailing ID comment, such as <!-- id: T-001 -->, unchanged on its line. Do not add ID comments to new tasks. Do not write progress counts such as (3/5) after tasks; they are computed from the subtasks.
+Return the complete enhanced markdown todolist.`,
+    requestOptions: {
+      maxTokens: 8192,
+      modelPreferences: { intelligencePriority: 0.8, speedPriority: 0.2 }
+    }
+  },
+
+  'enhance-todolist-section': {
+    id: 'enhance-todolist-section',
+    description: 'Enhance one part of a todolist too large for a single prompt (enhance_todolist)',
+    variables: {
+      outline: 'The todolist title and section headings, for context',
+      section: 'The sections to enhance'
+    },
+    systemPrompt: 'You are a senior engineer who refines project todolists with acceptance criteria and technical detail.',
+    template: `Your task is to enhance part of a large todolist with more specific details, acceptance criteria, and technical requirements.
+
+Outline of the whole todolist:
+{{outline}}
+
+Sections to enhance:
+{{section}}
+
+For each existing task in these sections:
+1. Add 2-3 specific acceptance criteria as subtasks
+2. Add relevant technical requirements and implementation details
+3. Consider edge cases and error handling
+
+Only enhance the sections given above. Do not add new sections and do not repeat the todolist title; the other sections are enhanced separately.
+Preserve all existing content, headings and structure. Add to it, don't remove anything.
+Keep each task's trailing ID comment, such as <!-- id: T-001 -->, unchanged on its line. Do not add ID comments to new tasks. Do not write progress counts such as (3/5) after tasks; they are computed from the subtasks.
+Return the enhanced markdown for these sections only.`,
+    requestOptions: {
+      maxTokens: 8192,
+      modelPreferences: { intelligencePriority: 0.8, speedPriority: 0.2 }
+    }
+  },
+
+  'find-next-task': {
+    id: 'find-next-task',
+    description: 'Pick the next unchecked task to implement (find_next_task)',
+    variables: {
+      todolist: 'The todolist to analyze'
+    },
+    systemPrompt: 'You are a project management assistant. Respond with a single valid JSON object only, without markdown fences or commentary.',
+    template: `You are a project management assistant. Given the following todolist, identify the most logical next task to implement.
+
+Todolist:
+{{todolist}}
+
+Find an uncompleted task that should be implemented next. Tasks are marked "- [ ]" (open), "- [~]" (in progress), "- [!]" (blocked), "- [-]" (cancelled) or "- [x]" (done). Only choose an open or in-progress task; never choose a blocked or cancelled one. Choose based on:
+1. Progress (finish tasks already in progress before starting new ones)
+2. Dependencies (tasks that others depend on should be done first)
+3. Logical order (setup/foundation tasks before features)
+4. Complexity (consider starting with simpler tasks)
+
+Return a JSON object with these properties:
+- task: The text of the task exactly as it appears in the todolist, without the checkbox
+- reason: One or two sentences explaining why this task should come next
+
+Example format:
+{
+  "task": "Set up the project repository",
+  "reason": "Every other task depends on the repository existing."
+}
+
+Return a valid JSON object, nothing else.`,
+    requestOptions: {
+      maxTokens: 512,
+      temperature: 0,
+      modelPreferences: { intelligencePriority: 0.5, speedPriority: 0.5 }
+    }
+  },
+
+  'choose-next-task': {
+    id: 'choose-next-task',
+    description: 'Choose between equally ranked ready tasks (find_next_task with tie_breaker=llm)',
+    variables: {
+      todolist: 'The todolist, for context',
+      candidates: 'The tasks to choose from, one per line'
+    },
+    systemPrompt: 'You are a project management assistant. Respond with a single valid JSON object only, without markdown fences or commentary.',
+    template: `The following tasks are all ready to start: their dependencies are done and they have the same priority and state. Choose the one to implement next.
+
+Todolist:
+{{todolist}}
+
+Tasks to choose from:
+{{candidates}}
+
+Prefer the task that unblocks the most other work, then the one that lays foundations for the others.
+
+Return a JSON object with these properties:
+- task: The text of the chosen task exactly as listed above
+- reason: One or two sentences explaining why this task should come first
+
+Return a valid JSON object, nothing else.`,
+    requestOptions: {
+      maxTokens: 512,
+      temperature: 0,
+      modelPreferences: { intelligencePriority: 0.5, speedPriority: 0.5 }
+    }
+  },
+
+  'implementation-plan': {
+    id: 'implementation-plan',
+    description: 'Write an implementation plan for a task (plan_task_implementation, task_executor)',
+    variables: {
+      task: 'The task to implement',
+      todolist: 'The todolist, for project context'
+    },
+    systemPrompt: 'You are a senior software engineer who writes thorough, practical implementation plans in markdown.',
+    template: `You are a senior software engineer creating an implementation plan for a task in a project.
+
+Task to implement:
+{{task}}
+
+Project Context (full todolist):
+{{todolist}}
+
+Create a detailed implementation plan that includes:
+1. A clear approach with step-by-step implementation strategy
+2. Architecture considerations and design patterns to use
+3. Key dependencies and components needed
+4. Potential integration points with other systems
+5. Error handling strategies and edge cases to consider
+6. Testing approach with specific test scenarios
+7. Performance considerations and optimizations
+
+Format your response as a comprehensive markdown implementation plan.`,
+    requestOptions: {
+      maxTokens: 8192,
+      modelPreferences: { intelligencePriority: 0.9, speedPriority: 0.1 }
+    }
+  },
+
+  'plan-actions': {
+    id: 'plan-actions',
+    description: 'Extract file operations from an implementation plan as JSON (task_executor)',
+    variables: {
+      task: 'The task being implemented',
+      plan: 'The implementation plan'
+    },
+    systemPrompt: 'You are a code implementation assistant. Respond with a valid JSON array only, without markdown fences or commentary.',
+    template: `You are a code implementation assistant. Your job is to analyze an implementation plan and extract specific file operations needed.
+
+Task to implement: "{{task}}"
+
+Implementation Plan:
+{{plan}}
+
+Based on this plan, extract and list all file operations needed (create_file, edit_file, delete_file, move_file, copy_file, create_directory, delete_directory).
+
+For each operation, specify:
+- Type of operation
+- Target file path(s)
+- Brief description of what's changing
+- Content (for file creation) or changes (for edits)
+
+Return a JSON array of operations, with each operation having properties:
+- type: The operation type (create_file, edit_file, delete_file, move_file, copy_file, create_directory, delete_directory)
+- path: The target path (create_file, edit_file, delete_file, create_directory, delete_directory)
+- from/to: The source and destination paths (move_file, copy_file)
+- description: A brief description of the change
+- content: For create_file, the full file content
+- changes: For edit_file, a non-empty array of changes, each one of:
+  - {"type": "replace", "old": "...", "new": "..."}
+  - {"type": "append", "content": "..."}
+  - {"type": "prepend", "content": "..."}
+  - {"type": "insert_at_line", "line": 12, "content": "..."}
+- recursive: For delete_directory, whether to delete the directory's contents
+
+Example format:
+[
+  {
+    "type": "create_file",
+    "path": "src/utils/helper.js",
+    "description": "Create utility helper file",
+    "content": "function helper() { ... }"
+  }
+]
+
+Return a valid JSON array, nothing else.`,
+    requestOptions: {
+      maxTokens: 16384,
+      temperature: 0,
+      modelPreferences: { intelligencePriority: 0.8, speedPriority: 0.2 }
+    }
+  },
+
+  'repair-structured-output': {
+    id: 'repair-structured-output',
+    description: 'Ask the model to correct a response that failed schema validation (plan-actions, find-next-task)',
+    variables: {
+      prompt: 'The original prompt',
+      response: 'The response that failed validation',
+      errors: 'The validation errors, one per line'
+    },
+    systemPrompt: 'You correct JSON responses so they match the requested format. Respond with the corrected JSON only, without markdown fences or commentary.',
+    template: `Your previous response to the request below could not be used because it does not match the requested format.
+
+Original request:
+{{prompt}}
+
+Your previous response:
+{{response}}
+
+Validation errors:
+{{errors}}
+
+Return a corrected response that fixes every error listed above and follows the original request exactly.
+Return valid JSON, nothing else.`,
+    requestOptions: {
+      temperature: 0
+    }
+  }
+};
@@ -3,12 +3,36 @@
  * Core server setup for the Tanuki Sequential Thought MCP
  */
 
-import { FastMCP } from 'fastmcp';
+import { FastMCP, Tool } from 'fastmcp';
 import { OPTIMIZE_FOR_TOOL_SCAN } from './utils/llm-utils.js';
+import { setSamplingServer } from './llm/index.js';
 import { registerAllTools } from './tools/index.js';
+import { installToolCancellation, runWithToolProgress } from './tools/progress.js';
 import fs from 'fs';
 import path from 'path';
 
+/**
+ * Tools registered on the server, by name, for callers outside MCP such as the HTTP bridge
+ */
+const registeredTools: Map<string, Tool<any, any>> = new Map();
+
+/**
+ * Get a tool registered on the server
+ * @param name The tool name
+ * @returns The tool, or undefined if no tool has this name
+ */
+export function getRegisteredTool(name: string): Tool<any, any> | undefined {
+  return registeredTools.get(name);
+}
+
+/**
+ * Get the names of the tools registered on the server
+ * @returns The tool names in registration order
+ */
+export function getRegisteredToolNames(): string[] {
+  return Array.from(registeredTools.keys());
+}
+
 /**
  * Creates the Tanuki Sequential Thought MCP server
  * @returns The configured FastMCP server instance
@@ -22,12 +46,25 @@ export function createTanukiServer(): FastMCP {
     name: 'tanukimcp-thought',
     version: '1.0.0',
   });
-
+  
+  // Route LLM requests to the connected client via MCP sampling
+  setSamplingServer(server);
+  
+  // Give tools the request's cancellation signal
+  server.on('connect', ({ session }) => installToolCancellation(session));
+  
+  // Keep a lookup of registered tools, since FastMCP does not expose its own, and hand each call its progress reporter
+  const addTool = server.addTool.bind(server);
+  server.addTool = (tool) => {
+    registeredTools.set(tool.name, tool);
+    addTool({ ...tool, execute: (args, context) => runWithToolProgress(context.reportProgress, () => tool.execute(args, context)) });
+  };
+  
   // Log optimization mode if enabled
   if (OPTIMIZE_FOR_TOOL_SCAN) {
     console.log('⚡ Server running in optimization mode for tool scanning');
   }
-
+  
   // Only register tools if not in tool scan mode to speed up initialization
   if (!isToolScan) {
   // Register all tools
@@ -37,6 +74,6 @@ export function createTanukiServer(): FastMCP {
     // by directly using the manifest in index.ts
     console.log('🔍 Tool scan mode: Using optimized tool registration');
   }
-
+  
   return server;
 }
\ No newline at end of file
@@ -0,0 +1,209 @@
+/**
+ * Task Dependencies
+ * Orders a todolist's open tasks by their declared dependencies, such as `(after: T-003, T-007)`
+ *
+ * A task waits for the tasks it names and, while it has open subtasks, for those subtasks; done and
+ * cancelled tasks wait for nothing and keep nobody waiting. Blocked tasks are never ready, so the tasks
+ * that wait for them stall. The order is deterministic: among tasks that are ready at the same time,
+ * tasks already in progress come first, then higher priority, then document order, which follows the sections.
+ */
+
+import { TodolistDocument, TaskNode, TaskEntry } from './types.js';
+import { listTasks } from './query.js';
+import { getTaskId } from './ids.js';
+import { getPriorityRank } from './metadata.js';
+import { getTaskStatus, isTaskResolved } from './status.js';
+import { stripTaskProgress, getWrittenProgress, setWrittenProgress } from './progress.js';
+
+/**
+ * A dependency clause in a task's text
+ */
+const DEPENDENCY_CLAUSE = /\(\s*after:\s*([^)]*)\)/i;
+
+/**
+ * A problem that prevents ordering the tasks
+ */
+export interface DependencyIssue {
+  type: 'cycle' | 'dangling' | 'duplicate';
+  message: string;
+}
+
+/**
+ * The open tasks in dependency order
+ */
+export interface TaskOrder {
+  // Open and in-progress tasks whose dependencies are all done, best first
+  ready: TaskEntry[];
+  // Every open and in-progress task that can be reached, in an order that respects the dependencies; empty when there are issues
+  order: TaskEntry[];
+  // Blocked tasks, in document order
+  blocked: TaskEntry[];
+  // Open and in-progress tasks that wait, directly or through other tasks, for a blocked task
+  stalled: TaskEntry[];
+  issues: DependencyIssue[];
+}
+
+/**
+ * Get the IDs a task depends on
+ * @param task The task
+ * @returns The IDs from the task's `(after: ...)` clause, uppercased, or an empty list
+ */
+export function getTaskDependencies(task: TaskNode): string[] {
+  const match = task.text.match(DEPENDENCY_CLAUSE);
+  if (!match) {
+    return [];
+  }
+  return match[1].split(/[\s,]+/).filter(Boolean).map(id => id.toUpperCase());
+}
+
+/**
+ * Set or remove the IDs a task depends on
+ * The `(after: ...)` clause is written at the end of the text, before any progress suffix
+ * @param task The task to update in place
+ * @param ids The IDs; an empty list removes the clause
+ */
+export function setTaskDependencies(task: TaskNode, ids: string[]): void {
+  const progress = getWrittenProgress(task);
+  const text = stripTaskProgress(task.text).replace(new RegExp(`\\s*${DEPENDENCY_CLAUSE.source}`, 'i'), '').trim();
+  const unique = [...new Set(ids.map(id => id.trim().toUpperCase()).filter(Boolean))];
+  task.text = unique.length > 0 ? `${text} (after: ${unique.join(', ')})` : text;
+  if (progress) {
+    setWrittenProgress(task, progress);
+  }
+}
+
+/**
+ * Label a task for messages: its ID, or its text when it has none
+ * @param task The task
+ * @returns The label
+ */
+export function describeTask(task: TaskNode): string {
+  return getTaskId(task) ?? `"${task.text.trim()}"`;
+}
+
+/**
+ * Order a todolist's unfinished tasks by their dependencies
+ * @param document The todolist
+ * @returns The ready tasks, the full order and the tasks held up by blocked tasks, or the cycles, unknown IDs and duplicate IDs that prevent ordering
+ */
+export function orderTasks(document: TodolistDocument): TaskOrder {
+  const entries = listTasks(document);
+  const issues: DependencyIssue[] = [];
+  
+  // Index tasks by ID; a duplicated ID would make references ambiguous
+  const byId = new Map<string, number>();
+  entries.forEach((entry, index) => {
+    const id = getTaskId(entry.task)?.toUpperCase();
+    if (id === undefined) return;
+    if (byId.has(id)) {
+      issues.push({ type: 'duplicate', message: `The ID ${id} is used by more than one task. Run assign_task_ids to fix duplicates.` });
+    } else {
+      byId.set(id, index);
+    }
+  });
+  
+  // Each task's prerequisites: the tasks it names, and its unfinished subtasks while it is unfinished
+  const prerequisites: number[][] = entries.map(entry => {
+    const named: number[] = [];
+    for (const id of getTaskDependencies(entry.task)) {
+      const target = byId.get(id);
+      if (target === undefined) {
+        issues.push({ type: 'dangling', message: `${describeTask(entry.task)} depends on ${id}, which is not a task in the todolist.` });
+      } else {
+        named.push(target);
+      }
+    }
+    
+    const openSubtasks = isTaskResolved(entry.task)
+      ? []
+      : entries.flatMap((candidate, candidateIndex) =>
+        candidate.parent === entry.task && !isTaskResolved(candidate.task) ? [candidateIndex] : []);
+    
+    return [...named, ...openSubtasks];
+  });
+  
+  issues.push(...findCycles(entries, prerequisites));
+  if (issues.length > 0) {
+    return { ready: [], order: [], blocked: [], stalled: [], issues };
+  }
+  
+  // Kahn's algorithm over the unfinished tasks; done and cancelled prerequisites are already satisfied
+  const open = entries.map(entry => !isTaskResolved(entry.task));
+  const isBlocked = entries.map(entry => getTaskStatus(entry.task) === 'blocked');
+  const waitingOn = prerequisites.map((required, index) => open[index] ? required.filter(target => open[target]).length : 0);
+  const dependents: number[][] = entries.map(() => []);
+  prerequisites.forEach((required, index) => {
+    if (!open[index]) return;
+    for (const target of required) {
+      if (open[target]) dependents[target].push(index);
+    }
+  });
+  
+  const startedRank = (index: number) => getTaskStatus(entries[index].task) === 'in_progress' ? 0 : 1;
+  const compare = (a: number, b: number) =>
+    startedRank(a) - startedRank(b) || getPriorityRank(entries[a].task) - getPriorityRank(entries[b].task) || a - b;
+  let available = entries.map((_, index) => index)
+    .filter(index => open[index] && !isBlocked[index] && waitingOn[index] === 0)
+    .sort(compare);
+  const ready = available.map(index => entries[index]);
+  const order: TaskEntry[] = [];
+  
+  while (available.length > 0) {
+    const next = available.shift()!;
+    order.push(entries[next]);
+    for (const dependent of dependents[next]) {
+      if (--waitingOn[dependent] === 0 && !isBlocked[dependent]) {
+        available.push(dependent);
+      }
+    }
+    available = available.sort(compare);
+  }
+  
+  // Whatever is unfinished but never became available waits for a blocked task
+  const ordered = new Set(order.map(entry => entry.task));
+  const blocked = entries.filter((_, index) => isBlocked[index]);
+  const stalled = entries.filter((entry, index) => open[index] && !isBlocked[index] && !ordered.has(entry.task));
+  
+  return { ready, order, blocked, stalled, issues };
+}
+
+/**
+ * Find the dependency cycles in a todolist
+ * @param entries The todolist's tasks
+ * @param prerequisites The indexes each task waits for
+ * @returns One issue per cycle
+ */
+function findCycles(entries: TaskEntry[], prerequisites: number[][]): DependencyIssue[] {
+  const issues: DependencyIssue[] = [];
+  const reported = new Set<string>();
+  // 0: not visited, 1: on the current path, 2: finished
+  const state = entries.map(() => 0);
+  const path: number[] = [];
+  
+  const visit = (index: number) => {
+    state[index] = 1;
+    path.push(index);
+    
+    for (const target of prerequisites[index]) {
+      if (state[target] === 1) {
+        const cycle = path.slice(path.indexOf(target));
+        const key = [...cycle].sort((a, b) => a - b).join(',');
+        if (!reported.has(key)) {
+          reported.add(key);
+          const labels = [...cycle, target].map(member => describeTask(entries[member].task));
+          issues.push({ type: 'cycle', message: `Dependency cycle: ${labels.join(' → ')} (each task waits for the next)` });
+        }
+      } else if (state[target] === 0) {
+        visit(target);
+      }
+    }
+    
+    path.pop();
+    state[index] = 2;
+  };
+  
+  entries.forEach((_, index) => {
+    if (state[index] === 0) visit(index);
+  });
+  return issues;
+}
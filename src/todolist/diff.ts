@@ -0,0 +1,116 @@
+/**
+ * Todolist Diff
+ * Compares two versions of a todolist task by task rather than line by line
+ *
+ * Tasks are paired as in a merge (by ID, title or a similar title), so a reworded task shows up as
+ * reworded instead of as one line removed and another added.
+ */
+
+import { TodolistDocument, TaskEntry } from './types.js';
+import { listTasks, getSectionPaths, getTodolistTitle } from './query.js';
+import { getTaskId } from './ids.js';
+import { getTaskTitle } from './metadata.js';
+import { getTaskStatus, TaskStatus } from './status.js';
+import { matchTasks, TaskPair } from './match.js';
+
+/**
+ * A task as described in a diff
+ */
+export interface DiffedTask {
+  id: string | null;
+  // 1-based line of the task in its version
+  line: number;
+  title: string;
+  // The headings above the task, outermost first, without the todolist title
+  section: string[];
+  // The title of the task it is nested under
+  parent: string | null;
+  status: TaskStatus;
+}
+
+/**
+ * A task found in both versions
+ */
+export interface DiffedPair {
+  before: DiffedTask;
+  after: DiffedTask;
+  // What paired them: the ID, the same title, or a similar title
+  matchedBy: TaskPair['by'];
+}
+
+/**
+ * The task-level differences between two versions of a todolist
+ */
+export interface TodolistDiff {
+  added: DiffedTask[];
+  removed: DiffedTask[];
+  reworded: DiffedPair[];
+  // Tasks now under a different heading, other than subtasks that moved with their parent
+  moved: DiffedPair[];
+  stateChanged: DiffedPair[];
+  // Tasks in both versions with none of the changes above
+  unchanged: number;
+  totals: { before: number; after: number };
+}
+
+/**
+ * Compare two versions of a todolist
+ * @param before The earlier version
+ * @param after The later version
+ * @returns The tasks added and removed, and the tasks reworded, moved or changed in state; a task can be in several lists
+ */
+export function diffTodolists(before: TodolistDocument, after: TodolistDocument): TodolistDiff {
+  const beforeEntries = listTasks(before);
+  const afterEntries = listTasks(after);
+  const match = matchTasks(beforeEntries, afterEntries);
+  const describeBefore = describeTasks(before);
+  const describeAfter = describeTasks(after);
+  
+  const diff: TodolistDiff = {
+    added: match.added.map(describeAfter),
+    removed: match.removed.map(describeBefore),
+    reworded: [],
+    moved: [],
+    stateChanged: [],
+    unchanged: 0,
+    totals: { before: beforeEntries.length, after: afterEntries.length }
+  };
+  
+  const counterparts = new Map(match.pairs.map(pair => [pair.before.task, pair.after.task]));
+  for (const pair of match.pairs) {
+    const diffed: DiffedPair = { before: describeBefore(pair.before), after: describeAfter(pair.after), matchedBy: pair.by };
+    const withParent = !!pair.before.parent && counterparts.get(pair.before.parent) === pair.after.parent;
+    const moved = !withParent && diffed.before.section.join('\n') !== diffed.after.section.join('\n');
+    const stateChanged = diffed.before.status !== diffed.after.status;
+    if (pair.reworded) diff.reworded.push(diffed);
+    if (moved) diff.moved.push(diffed);
+    if (stateChanged) diff.stateChanged.push(diffed);
+    if (!pair.reworded && !moved && !stateChanged) diff.unchanged++;
+  }
+  
+  diff.moved.sort((a, b) => a.after.line - b.after.line);
+  return diff;
+}
+
+/**
+ * Make a function that describes the tasks of one version
+ * @param document The version
+ * @returns A function from a task to its description
+ */
+function describeTasks(document: TodolistDocument): (entry: TaskEntry) => DiffedTask {
+  const sectionPaths = getSectionPaths(document);
+  const title = getTodolistTitle(document);
+  
+  return ({ task, section, parent }) => {
+    const sectionPath = section ? sectionPaths.get(section) ?? [section.title] : [];
+    return {
+      id: getTaskId(task) ?? null,
+      line: task.line,
+      title: getTaskTitle(task),
+      // A renamed todolist should not count as every task moving
+      section: sectionPath[0] === title ? sectionPath.slice(1) : sectionPath,
+      parent: parent ? getTaskTitle(parent) : null,
+      status: getTaskStatus(task)
+    };
+  };
+}
@@ -0,0 +1,320 @@
+/**
+ * Todolist Editing
+ * Adds, rewords, moves and removes tasks in a parsed todolist
+ *
+ * Edits work on the syntax tree, so every line they do not touch is written back as it was. New and
+ * moved tasks take the indentation and list marker of the tasks around them.
+ */
+
+import { TodolistDocument, TodolistNode, TaskNode, SectionNode } from './types.js';
+import { listTasks, listSections, getSubtasks } from './query.js';
+import { getTaskMetadata, updateTaskMetadata } from './metadata.js';
+import { getTaskDependencies, setTaskDependencies } from './dependencies.js';
+import { stripTaskProgress, getWrittenProgress, setWrittenProgress } from './progress.js';
+import { measureIndent } from './parser.js';
+
+/**
+ * Where a task goes; give at most one of section, parent, before and after
+ * With none of them, the task goes after the last top-level task
+ */
+export interface TaskLocation {
+  // At the top level of this section
+  section?: SectionNode;
+  // As a subtask of this task
+  parent?: TaskNode;
+  // Right before or after this task, at its level
+  before?: TaskNode;
+  after?: TaskNode;
+  // Where among the section's or parent's tasks (default: end)
+  position?: 'start' | 'end';
+}
+
+/**
+ * A place among a container's nodes
+ */
+interface InsertionPoint {
+  children: TodolistNode[];
+  index: number;
+  // The indentation and marker of tasks at this place
+  indent: string;
+  marker: string;
+}
+
+/**
+ * Create a task and insert it
+ * @param document The todolist to update in place
+ * @param text The task text
+ * @param location Where the task goes
+ * @returns The new task
+ */
+export function addTask(document: TodolistDocument, text: string, location: TaskLocation = {}): TaskNode {
+  const point = findInsertionPoint(document, location);
+  const task: TaskNode = {
+    type: 'task',
+    indent: point.indent,
+    marker: point.marker,
+    markerSpacing: ' ',
+    mark: ' ',
+    textSpacing: ' ',
+    text: text.trim(),
+    trailing: '',
+    children: [],
+    line: 0
+  };
+  insertTask(point, task);
+  return task;
+}
+
+/**
+ * Remove a task with its notes and subtasks
+ * Blank lines that separated it from what follows stay, so the blocks around it stay apart
+ * @param document The todolist to update in place
+ * @param task The task
+ */
+export function removeTask(document: TodolistDocument, task: TaskNode): void {
+  const children = getContainer(document, task);
+  const index = children.indexOf(task);
+  const blanks: TodolistNode[] = [];
+  while (task.children.length > 0) {
+    const last = task.children[task.children.length - 1];
+    if (last.type !== 'text' || last.raw.trim() !== '') break;
+    blanks.unshift(task.children.pop()!);
+  }
+  const numbered = isNumberedInOrder(children);
+  children.splice(index, 1, ...blanks);
+  if (numbered) renumberTasks(children);
+}
+
+/**
+ * Move a task with its notes and subtasks, reindenting them for their new place
+ * @param document The todolist to update in place
+ * @param task The task
+ * @param location Where the task goes
+ */
+export function moveTask(document: TodolistDocument, task: TaskNode, location: TaskLocation): void {
+  const target = location.parent ?? location.before ?? location.after;
+  if (target && (target === task || containsTask(task, target))) {
+    throw new Error(`A task cannot be moved ${location.parent ? 'under' : 'next to'} itself or one of its own subtasks.`);
+  }
+  
+  removeTask(document, task);
+  const point = findInsertionPoint(document, location);
+  shiftTask(task, measureIndent(point.indent) - measureIndent(task.indent));
+  task.indent = point.indent;
+  task.marker = point.marker;
+  insertTask(point, task);
+}
+
+/**
+ * Replace a task's title, keeping its metadata and dependencies
+ * Metadata written in the new title is kept too; single values in it replace the old ones
+ * @param task The task to update in place
+ * @param title The new title
+ */
+export function setTaskTitle(task: TaskNode, title: string): void {
+  const metadata = getTaskMetadata(task);
+  const dependencies = getTaskDependencies(task);
+  const progress = getWrittenProgress(task);
+  
+  task.text = stripTaskProgress(title.trim());
+  const written = getTaskMetadata(task);
+  const writtenDependencies = getTaskDependencies(task);
+  updateTaskMetadata(task, {
+    priority: written.priority ?? metadata.priority ?? null,
+    estimate: written.estimate?.raw ?? metadata.estimate?.raw ?? null,
+    tags: [...metadata.tags, ...written.tags],
+    owners: [...metadata.owners, ...written.owners],
+    due: written.due ?? metadata.due ?? null,
+    completed: written.completed ?? metadata.completed ?? null
+  });
+  setTaskDependencies(task, [...dependencies, ...writtenDependencies]);
+  if (progress) {
+    setWrittenProgress(task, progress);
+  }
+}
+
+/**
+ * Add notes under a task, after its existing notes and before its subtasks
+ * @param task The task to update in place
+ * @param note The note; each non-empty line becomes a note line
+ */
+export function addTaskNote(task: TaskNode, note: string): void {
+  const indent = `${task.indent}${' '.repeat(task.marker.length + task.markerSpacing.length)}`;
+  const lines = note.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  
+  // Keep the notes above the subtasks and above blank lines that separate the task from what follows
+  let position = task.children.findIndex(node => node.type === 'task');
+  if (position === -1) position = task.children.length;
+  while (position > 0) {
+    const node = task.children[position - 1];
+    if (node.type !== 'text' || node.raw.trim() !== '') break;
+    position--;
+  }
+  task.children.splice(position, 0, ...lines.map(line => ({ type: 'text' as const, raw: `${indent}${line}`, line: 0 })));
+}
+
+/**
+ * Find sections by heading
+ * @param document The todolist
+ * @param title The heading text, ignoring case and surrounding whitespace
+ * @returns The sections with that heading, in document order
+ */
+export function findSectionsByTitle(document: TodolistDocument, title: string): SectionNode[] {
+  const wanted = title.trim().toLowerCase();
+  return listSections(document).filter(section => section.title.toLowerCase() === wanted);
+}
+
+/**
+ * Check whether a task contains another among its subtasks, at any depth
+ * @param task The outer task
+ * @param other The task to look for
+ * @returns True if `other` is nested under `task`
+ */
+export function containsTask(task: TaskNode, other: TaskNode): boolean {
+  return getSubtasks(task).some(subtask => subtask === other || containsTask(subtask, other));
+}
+
+/**
+ * Get the bullet most of a todolist's tasks use
+ * @param document The todolist
+ * @returns `-`, `*` or `+`; `-` when the todolist has no bulleted tasks or no single favourite
+ */
+export function getBulletStyle(document: TodolistDocument): string {
+  const counts = new Map<string, number>();
+  for (const { task } of listTasks(document)) {
+    if (/^[-*+]$/.test(task.marker)) counts.set(task.marker, (counts.get(task.marker) ?? 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1] || (a[0] === '-' ? -1 : b[0] === '-' ? 1 : 0))[0]?.[0] ?? '-';
+}
+
+/**
+ * Move a task, its notes and its subtasks left or right, writing the indentation with spaces
+ * @param task The task to update in place
+ * @param columns The columns to move by; negative moves left
+ */
+export function shiftTask(task: TaskNode, columns: number): void {
+  const shift = (indent: string) => ' '.repeat(Math.max(0, measureIndent(indent) + columns));
+  task.indent = shift(task.indent);
+  for (const child of task.children) {
+    if (child.type === 'task') {
+      shiftTask(child, columns);
+    } else if (child.raw.trim() !== '') {
+      const indent = child.raw.match(/^[ \t]*/)![0];
+      child.raw = `${shift(indent)}${child.raw.slice(indent.length)}`;
+    }
+  }
+}
+
+/**
+ * Get the nodes a task sits among
+ * @param document The todolist
+ * @param task The task
+ * @returns Its parent's, section's or the document's children
+ */
+function getContainer(document: TodolistDocument, task: TaskNode): TodolistNode[] {
+  const entry = listTasks(document).find(candidate => candidate.task === task);
+  if (!entry) {
+    throw new Error(`The task "${task.text.trim()}" is not in the todolist.`);
+  }
+  return entry.parent?.children ?? entry.section?.children ?? document.children;
+}
+
+/**
+ * Insert a task at a place, renumbering the list around it if it was numbered 1, 2, 3 in order
+ * @param point The place
+ * @param task The task
+ */
+function insertTask(point: InsertionPoint, task: TaskNode): void {
+  const numbered = isNumberedInOrder(point.children);
+  point.children.splice(point.index, 0, task);
+  if (numbered) renumberTasks(point.children);
+}
+
+/**
+ * Check whether the tasks among some nodes form a numbered list counting up from 1
+ * @param children The nodes
+ * @returns True if there are tasks and they are numbered 1, 2, 3 in order
+ */
+function isNumberedInOrder(children: TodolistNode[]): boolean {
+  const tasks = children.filter((node): node is TaskNode => node.type === 'task');
+  return tasks.length > 0 && tasks.every((task, index) => task.marker.match(/^(\d+)[.)]$/)?.[1] === String(index + 1));
+}
+
+/**
+ * Number the tasks among some nodes 1, 2, 3 in order, keeping each task's `.` or `)`
+ * @param children The nodes to update in place
+ */
+function renumberTasks(children: TodolistNode[]): void {
+  children
+    .filter((node): node is TaskNode => node.type === 'task')
+    .forEach((task, index) => {
+      const delimiter = task.marker.match(/[.)]$/)?.[0];
+      if (delimiter) task.marker = `${index + 1}${delimiter}`;
+    });
+}
+
+/**
+ * Work out where a new or moved task goes, and how it is indented and marked there
+ * @param document The todolist
+ * @param location Where the task goes
+ * @returns The container, index, indentation and marker
+ */
+function findInsertionPoint(document: TodolistDocument, location: TaskLocation): InsertionPoint {
+  const sibling = location.before ?? location.after;
+  if (sibling) {
+    const children = getContainer(document, sibling);
+    const index = children.indexOf(sibling) + (location.after ? 1 : 0);
+    return { children, index, indent: sibling.indent, marker: nextMarker(document, children, sibling.marker) };
+  }
+  
+  let children: TodolistNode[];
+  let indent: string;
+  if (location.parent) {
+    const parent = location.parent;
+    children = parent.children;
+    indent = getSubtasks(parent)[0]?.indent ?? `${parent.indent}${' '.repeat(parent.marker.length + parent.markerSpacing.length)}`;
+  } else if (location.section) {
+    children = location.section.children;
+    indent = children.find((node): node is TaskNode => node.type === 'task')?.indent ?? '';
+  } else {
+    // After the last top-level task, or in the last section of a todolist without tasks
+    const last = listTasks(document).filter(entry => entry.depth === 0).pop();
+    const sections = listSections(document);
+    children = last ? last.section?.children ?? document.children : sections[sections.length - 1]?.children ?? document.children;
+    indent = last ? last.task.indent : '';
+  }
+  
+  const tasks = children.filter((node): node is TaskNode => node.type === 'task');
+  const marker = nextMarker(document, children, tasks[tasks.length - 1]?.marker);
+  if (location.position === 'start' && tasks.length > 0) {
+    return { children, index: children.indexOf(tasks[0]), indent, marker };
+  }
+  
+  // At the end, above blank lines that separate the container from what follows
+  let index = children.length;
+  while (index > 0) {
+    const node = children[index - 1];
+    if (node.type !== 'text' || node.raw.trim() !== '') break;
+    index--;
+  }
+  return { children, index, indent, marker };
+}
+
+/**
+ * Choose the list marker for a task among others
+ * @param document The todolist
+ * @param children The nodes the task goes among
+ * @param marker The marker of a neighbouring task, if there is one
+ * @returns The neighbour's bullet, the next number of a numbered list, or the todolist's bullet style
+ */
+function nextMarker(document: TodolistDocument, children: TodolistNode[], marker?: string): string {
+  const numbered = marker?.match(/^\d+([.)])$/);
+  if (numbered) {
+    const highest = Math.max(...children
+      .filter((node): node is TaskNode => node.type === 'task')
+      .map(task => parseInt(task.marker, 10))
+      .filter(number => !isNaN(number)));
+    return `${highest + 1}${numbered[1]}`;
+  }
+  return marker ?? getBulletStyle(document);
+}
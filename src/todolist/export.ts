@@ -0,0 +1,287 @@
+/**
+ * Todolist Export
+ * Converts a todolist to JSON, CSV, todo.txt and GitHub issue import payloads
+ *
+ * Every format keeps each task's state, ID and inline metadata. JSON nests tasks and sections as in the
+ * todolist; CSV and todo.txt are flat and point to a task's parent by ID (CSV also by line); GitHub issues
+ * are made from the top-level tasks, with their subtasks as a checklist in the issue body.
+ */
+
+import { TodolistDocument, TaskNode, SectionNode, TaskEntry } from './types.js';
+import { listTasks, getSubtasks, getTaskNotes, getTodolistTitle, getSectionPaths } from './query.js';
+import { getTaskId } from './ids.js';
+import { getTaskMetadata, getTaskTitle, TaskPriority } from './metadata.js';
+import { getTaskDependencies } from './dependencies.js';
+import { getTaskStatus, TaskStatus } from './status.js';
+
+/**
+ * Export formats
+ */
+export const EXPORT_FORMATS = ['json', 'csv', 'todotxt', 'github'] as const;
+
+/**
+ * An export format
+ */
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * A task as exported
+ */
+export interface ExportedTask {
+  id: string | null;
+  // 1-based line of the task in the todolist
+  line: number;
+  parent_id: string | null;
+  parent_line: number | null;
+  // The headings above the task, outermost first
+  section_path: string[];
+  depth: number;
+  status: TaskStatus;
+  // The text without metadata tokens, dependency clause or progress suffix
+  title: string;
+  // The text as written
+  text: string;
+  priority: TaskPriority | null;
+  estimate: string | null;
+  estimate_minutes: number | null;
+  tags: string[];
+  owners: string[];
+  due: string | null;
+  completed: string | null;
+  dependencies: string[];
+  notes: string[];
+}
+
+/**
+ * A section as exported to JSON
+ */
+interface ExportedSection {
+  title: string;
+  level: number;
+  tasks: ExportedTaskTree[];
+  sections: ExportedSection[];
+}
+
+/**
+ * A task with its subtasks, as exported to JSON
+ */
+type ExportedTaskTree = ExportedTask & { subtasks: ExportedTaskTree[] };
+
+/**
+ * The todo.txt priority letter for each priority
+ */
+const TODOTXT_PRIORITIES: Record<TaskPriority, string> = { critical: 'A', high: 'B', medium: 'C', low: 'D' };
+
+/**
+ * The CSV columns, in order
+ */
+const CSV_COLUMNS: Array<keyof ExportedTask> = [
+  'id', 'line', 'parent_id', 'parent_line', 'section_path', 'depth', 'status', 'title', 'priority', 'estimate',
+  'tags', 'owners', 'due', 'completed', 'dependencies', 'notes', 'text'
+];
+
+/**
+ * Describe every task of a todolist for export
+ * @param document The todolist
+ * @returns The tasks in document order, parents before their subtasks
+ */
+export function describeTasksForExport(document: TodolistDocument): ExportedTask[] {
+  const entries = listTasks(document);
+  const sectionPaths = getSectionPaths(document);
+  return entries.map(entry => describeTask(entry, sectionPaths));
+}
+
+/**
+ * Export a todolist
+ * @param document The todolist
+ * @param format The format to write
+ * @returns The exported file content
+ */
+export function exportTodolist(document: TodolistDocument, format: ExportFormat): string {
+  switch (format) {
+    case 'json':
+      return exportJson(document);
+    case 'csv':
+      return exportCsv(document);
+    case 'todotxt':
+      return exportTodoTxt(document);
+    case 'github':
+      return exportGitHubIssues(document);
+  }
+}
+
+/**
+ * Export a todolist as JSON, nesting sections and subtasks as in the todolist
+ * @param document The todolist
+ * @returns The JSON text
+ */
+function exportJson(document: TodolistDocument): string {
+  const sectionPaths = getSectionPaths(document);
+  const entries = new Map(listTasks(document).map(entry => [entry.task, entry]));
+  
+  const toTree = (task: TaskNode): ExportedTaskTree => ({
+    ...describeTask(entries.get(task)!, sectionPaths),
+    subtasks: getSubtasks(task).map(toTree)
+  });
+  const topLevel = (nodes: SectionNode['children']) =>
+    nodes.filter((node): node is TaskNode => node.type === 'task').map(toTree);
+  const toSection = (section: SectionNode): ExportedSection => ({
+    title: section.title,
+    level: section.level,
+    tasks: topLevel(section.children),
+    sections: section.sections.map(toSection)
+  });
+  
+  return `${JSON.stringify({
+    title: getTodolistTitle(document) ?? null,
+    metadata: document.metadata,
+    tasks: topLevel(document.children),
+    sections: document.sections.map(toSection)
+  }, null, 2)}\n`;
+}
+
+/**
+ * Export a todolist as CSV, one row per task
+ * Lists are joined with `;`, the section path with ` > ` and notes with line breaks
+ * @param document The todolist
+ * @returns The CSV text
+ */
+function exportCsv(document: TodolistDocument): string {
+  const rows = describeTasksForExport(document).map(task => CSV_COLUMNS.map(column => {
+    const value = task[column];
+    if (column === 'section_path') return (value as string[]).join(' > ');
+    if (column === 'notes') return (value as string[]).join('\n');
+    if (Array.isArray(value)) return value.join(';');
+    return value === null ? '' : String(value);
+  }));
+  return [CSV_COLUMNS, ...rows].map(row => row.map(quoteCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Export a todolist as todo.txt, one line per task
+ * Done and cancelled tasks start with `x`; the rest of the state, the ID, the parent, the section and the
+ * other metadata become `key:value` pairs, tags become `+projects` and owners `@contexts`. Notes are left out.
+ * @param document The todolist
+ * @returns The todo.txt text
+ */
+function exportTodoTxt(document: TodolistDocument): string {
+  const lines = describeTasksForExport(document).map(task => {
+    const resolved = task.status === 'done' || task.status === 'cancelled';
+    const priority = task.priority ? TODOTXT_PRIORITIES[task.priority] : undefined;
+    const parts = [
+      resolved ? 'x' : '',
+      resolved && task.completed ? task.completed : '',
+      !resolved && priority ? `(${priority})` : '',
+      task.title,
+      ...task.tags.map(tag => `+${tag}`),
+      ...task.owners.map(owner => `@${owner}`),
+      task.section_path.length > 0 ? `section:${task.section_path[task.section_path.length - 1].replace(/\s+/g, '_')}` : '',
+      task.due ? `due:${task.due}` : '',
+      task.estimate ? `estimate:${task.estimate}` : '',
+      resolved && priority ? `pri:${priority}` : '',
+      task.id ? `id:${task.id}` : '',
+      task.parent_id ? `parent:${task.parent_id}` : '',
+      task.dependencies.length > 0 ? `after:${task.dependencies.join(',')}` : '',
+      task.status !== 'open' && task.status !== 'done' ? `status:${task.status}` : ''
+    ];
+    return parts.filter(Boolean).join(' ');
+  });
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Export a todolist for GitHub's issue import API: one `{ issue, comments }` object per top-level task
+ * Subtasks become a checklist in the issue body; tags, the section, the priority and the state become labels
+ * @param document The todolist
+ * @returns The JSON text
+ */
+function exportGitHubIssues(document: TodolistDocument): string {
+  const sectionPaths = getSectionPaths(document);
+  const entries = listTasks(document);
+  
+  const checklist = (task: TaskNode, indent: string): string[] => getSubtasks(task).flatMap(subtask => {
+    const status = getTaskStatus(subtask);
+    const title = getTaskTitle(subtask);
+    const line = status === 'cancelled'
+      ? `${indent}- [ ] ~~${title}~~`
+      : `${indent}- [${status === 'done' ? 'x' : ' '}] ${title}${status === 'in_progress' || status === 'blocked' ? ` _(${status.replace('_', ' ')})_` : ''}`;
+    return [line, ...checklist(subtask, `${indent}  `)];
+  });
+  
+  const issues = entries.filter(entry => entry.depth === 0).map(entry => {
+    const task = describeTask(entry, sectionPaths);
+    const details = [
+      task.due ? `**Due:** ${task.due}` : '',
+      task.estimate ? `**Estimate:** ${task.estimate}` : '',
+      task.owners.length > 1 ? `**Owners:** ${task.owners.map(owner => `@${owner}`).join(', ')}` : '',
+      task.dependencies.length > 0 ? `**Depends on:** ${task.dependencies.join(', ')}` : '',
+      task.id ? `**Todolist ID:** ${task.id}` : ''
+    ].filter(Boolean);
+    const subtasks = checklist(entry.task, '');
+    const body = [
+      task.notes.join('\n'),
+      subtasks.length > 0 ? `### Subtasks\n\n${subtasks.join('\n')}` : '',
+      details.join('\n')
+    ].filter(Boolean).join('\n\n');
+    
+    const closed = task.status === 'done' || task.status === 'cancelled';
+    return {
+      issue: {
+        title: task.title || task.text,
+        body,
+        closed,
+        ...(closed && task.completed ? { closed_at: `${task.completed}T00:00:00Z` } : {}),
+        ...(task.owners.length > 0 ? { assignee: task.owners[0] } : {}),
+        labels: [
+          ...task.tags,
+          ...task.section_path.slice(-1),
+          ...(task.priority ? [`priority: ${task.priority}`] : []),
+          ...(task.status !== 'open' && task.status !== 'done' ? [`status: ${task.status.replace('_', ' ')}`] : [])
+        ]
+      },
+      comments: []
+    };
+  });
+  
+  return `${JSON.stringify(issues, null, 2)}\n`;
+}
+
+/**
+ * Describe one task for export
+ * @param entry The task
+ * @param sectionPaths The heading path of each section
+ * @returns The exported task, without subtasks
+ */
+function describeTask(entry: TaskEntry, sectionPaths: Map<SectionNode, string[]>): ExportedTask {
+  const { task, parent, section, depth } = entry;
+  const metadata = getTaskMetadata(task);
+  return {
+    id: getTaskId(task) ?? null,
+    line: task.line,
+    parent_id: parent ? getTaskId(parent) ?? null : null,
+    parent_line: parent ? parent.line : null,
+    section_path: section ? sectionPaths.get(section) ?? [section.title] : [],
+    depth,
+    status: getTaskStatus(task),
+    title: getTaskTitle(task),
+    text: task.text.trim(),
+    priority: metadata.priority ?? null,
+    estimate: metadata.estimate?.raw ?? null,
+    estimate_minutes: metadata.estimate?.minutes ?? null,
+    tags: metadata.tags,
+    owners: metadata.owners,
+    due: metadata.due ?? null,
+    completed: metadata.completed ?? null,
+    dependencies: getTaskDependencies(task),
+    notes: getTaskNotes(task)
+  };
+}
+
+/**
+ * Quote a CSV field when it needs it
+ * @param value The field
+ * @returns The field, quoted if it contains a comma, quote or line break
+ */
+function quoteCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,150 @@
+/**
+ * Task IDs
+ * Short stable task IDs such as `T-014`, kept in a trailing HTML comment on the task line
+ *
+ * The comment (`<!-- id: T-014 -->`) is invisible in rendered markdown and survives rewording of the
+ * task text, so tools can keep finding a task after a human or a model edits it.
+ */
+
+import { TodolistDocument, TaskNode, TaskEntry } from './types.js';
+import { listTasks } from './query.js';
+
+/**
+ * A task ID anywhere in a task's trailing comment
+ */
+const ID_COMMENT = /<!--\s*id:\s*([A-Za-z]+-\d+)\s*-->/;
+
+/**
+ * The shape of a task ID
+ */
+const TASK_ID = /^([A-Za-z]+)-(\d+)$/;
+
+/**
+ * The prefix of the IDs this module assigns
+ */
+const TASK_ID_PREFIX = 'T';
+
+/**
+ * The number of digits IDs are padded to
+ */
+const TASK_ID_DIGITS = 3;
+
+/**
+ * The outcome of assigning IDs to a todolist
+ */
+export interface TaskIdAssignment {
+  // IDs given to tasks that had none, in document order
+  assigned: string[];
+  // Later copies of an ID already used by an earlier task, with the new ID each copy was given
+  reassigned: Array<{ from: string; to: string; text: string }>;
+  // The number of tasks whose ID was kept
+  kept: number;
+}
+
+/**
+ * Check whether a string is a task ID
+ * @param value The string
+ * @returns True for IDs such as `T-014`
+ */
+export function isTaskId(value: string): boolean {
+  return TASK_ID.test(value.trim());
+}
+
+/**
+ * Get a task's ID
+ * @param task The task
+ * @returns The ID from the task's trailing comment, or undefined if it has none
+ */
+export function getTaskId(task: TaskNode): string | undefined {
+  return task.trailing.match(ID_COMMENT)?.[1];
+}
+
+/**
+ * Set or replace a task's ID
+ * @param task The task to update in place
+ * @param id The new ID
+ */
+export function setTaskId(task: TaskNode, id: string): void {
+  if (ID_COMMENT.test(task.trailing)) {
+    task.trailing = task.trailing.replace(ID_COMMENT, `<!-- id: ${id} -->`);
+  } else {
+    task.trailing = `${task.trailing.trimEnd()} <!-- id: ${id} -->`;
+  }
+}
+
+/**
+ * Remove a task's ID
+ * @param task The task to update in place
+ */
+export function removeTaskId(task: TaskNode): void {
+  task.trailing = task.trailing.replace(ID_COMMENT, '').trimEnd();
+}
+
+/**
+ * Find a task by ID, ignoring case
+ * @param document The todolist
+ * @param id The task ID
+ * @returns The task, or undefined if no task has the ID
+ */
+export function findTaskById(document: TodolistDocument, id: string): TaskEntry | undefined {
+  const wanted = id.trim().toUpperCase();
+  return listTasks(document).find(entry => getTaskId(entry.task)?.toUpperCase() === wanted);
+}
+
+/**
+ * Give every task without an ID a new one, and a new one to every later copy of a duplicated ID
+ * New IDs continue after the highest number in use, so IDs are never reused within a file
+ * @param document The todolist to update in place
+ * @returns What was assigned
+ */
+export function assignTaskIds(document: TodolistDocument): TaskIdAssignment {
+  const entries = listTasks(document);
+  let highest = getHighestIdNumber(entries);
+  
+  const nextId = () => `${TASK_ID_PREFIX}-${String(++highest).padStart(TASK_ID_DIGITS, '0')}`;
+  const result: TaskIdAssignment = { assigned: [], reassigned: [], kept: 0 };
+  const seen = new Set<string>();
+  
+  for (const { task } of entries) {
+    const id = getTaskId(task);
+    if (id === undefined) {
+      const assigned = nextId();
+      setTaskId(task, assigned);
+      result.assigned.push(assigned);
+    } else if (seen.has(id.toUpperCase())) {
+      const assigned = nextId();
+      setTaskId(task, assigned);
+      result.reassigned.push({ from: id, to: assigned, text: task.text });
+    } else {
+      seen.add(id.toUpperCase());
+      result.kept++;
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * Get the ID the next new task should have
+ * @param document The todolist
+ * @returns An ID numbered after the highest one in use
+ */
+export function getNextTaskId(document: TodolistDocument): string {
+  return `${TASK_ID_PREFIX}-${String(getHighestIdNumber(listTasks(document)) + 1).padStart(TASK_ID_DIGITS, '0')}`;
+}
+
+/**
+ * Find the highest number used in the tasks' IDs
+ * @param entries The tasks
+ * @returns The highest number, or 0 if no task has an ID
+ */
+function getHighestIdNumber(entries: TaskEntry[]): number {
+  let highest = 0;
+  for (const { task } of entries) {
+    const match = getTaskId(task)?.match(TASK_ID);
+    if (match) {
+      highest = Math.max(highest, parseInt(match[2], 10));
+    }
+  }
+  return highest;
+}
@@ -0,0 +1,650 @@
+/**
+ * Todolist Import
+ * Converts todo.txt, CSV, GitHub issue exports and markdown checklists into a todolist
+ *
+ * The result has the layout `brain_dump_organize` writes: a `#` title, one `##` section per group and
+ * `- [ ]` tasks carrying their state, inline metadata, dependencies and IDs. Nothing is interpreted by a model.
+ */
+
+import { TaskNode, TodolistNode } from './types.js';
+import { parseTodolist } from './parser.js';
+import { serializeTodolist } from './serializer.js';
+import { listSections, getSubtasks, getTaskNotes, getTodolistTitle, countTasks } from './query.js';
+import { getTaskId, isTaskId, assignTaskIds } from './ids.js';
+import { getTaskMetadata, parseEstimate, isValidDate, TaskPriority, TASK_PRIORITIES } from './metadata.js';
+import { getTaskStatus, getStatusMark, TaskStatus } from './status.js';
+import { rollUpTasks } from './rollup.js';
+
+/**
+ * Import formats
+ */
+export const IMPORT_FORMATS = ['todotxt', 'csv', 'github', 'markdown'] as const;
+
+/**
+ * An import format
+ */
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+/**
+ * The task fields a CSV column can be mapped to
+ */
+export const CSV_FIELDS = [
+  'title', 'status', 'section', 'priority', 'estimate', 'tags', 'owners', 'due', 'completed', 'id', 'parent', 'dependencies', 'notes'
+] as const;
+
+/**
+ * A task field a CSV column can be mapped to
+ */
+export type CsvField = typeof CSV_FIELDS[number];
+
+/**
+ * How to read the source
+ */
+export interface ImportOptions {
+  // The todolist title; by default the source's own title, if it has one
+  title?: string;
+  // What to group tasks by: a CSV column; `milestone` or `label` for GitHub; `section`, `project` or `context` for todo.txt
+  sectionBy?: string;
+  // The section for tasks that have no group
+  defaultSection?: string;
+  // CSV column names by field; unmapped fields are matched to columns by name
+  columns?: Partial<Record<CsvField, string>>;
+  // Whether to give tasks without an ID a new one (default: true)
+  assignIds?: boolean;
+}
+
+/**
+ * The outcome of an import
+ */
+export interface TodolistImport {
+  content: string;
+  tasks: number;
+  sections: number;
+  // Things that could not be carried over exactly
+  warnings: string[];
+}
+
+/**
+ * A task read from the source, before it is written as markdown
+ */
+interface ImportedTask {
+  title: string;
+  status: TaskStatus;
+  section?: string;
+  priority?: TaskPriority;
+  estimate?: string;
+  tags: string[];
+  owners: string[];
+  due?: string;
+  completed?: string;
+  id?: string;
+  // The ID or key of the parent task in flat formats
+  parent?: string;
+  dependencies: string[];
+  notes: string[];
+  subtasks: ImportedTask[];
+}
+
+/**
+ * Column names that map to each CSV field when no mapping is given, lowercased
+ */
+const CSV_ALIASES: Record<CsvField, string[]> = {
+  title: ['title', 'task', 'name', 'summary', 'subject'],
+  status: ['status', 'state', 'done', 'completed?'],
+  section: ['section', 'category', 'group', 'epic', 'milestone', 'section_path'],
+  priority: ['priority', 'prio'],
+  estimate: ['estimate', 'effort', 'time'],
+  tags: ['tags', 'labels', 'tag', 'label'],
+  owners: ['owners', 'owner', 'assignee', 'assignees', 'assigned to'],
+  due: ['due', 'due date', 'due_date', 'deadline'],
+  completed: ['completed', 'completed at', 'completed_at', 'done date', 'closed_at'],
+  id: ['id', 'key', 'task id', 'task_id'],
+  parent: ['parent', 'parent_id', 'parent id', 'parent key'],
+  dependencies: ['dependencies', 'depends on', 'depends_on', 'after', 'blocked by'],
+  notes: ['notes', 'note', 'description', 'details', 'body']
+};
+
+/**
+ * The todo.txt priority letters, most urgent first
+ */
+const TODOTXT_PRIORITIES: Record<string, TaskPriority> = { A: 'critical', B: 'high', C: 'medium', D: 'low' };
+
+/**
+ * The todo.txt `key:value` pairs that map to task fields; other pairs stay in the text
+ */
+const KNOWN_TODOTXT_KEYS = new Set(['due', 'id', 'parent', 'after', 'status', 'section', 'estimate', 'pri']);
+
+/**
+ * Import a task list
+ * @param content The source file content
+ * @param format The source format
+ * @param options How to read the source
+ * @returns The todolist and what was imported
+ */
+export function importTodolist(content: string, format: ImportFormat, options: ImportOptions = {}): TodolistImport {
+  const warnings: string[] = [];
+  let source: { title?: string; tasks: ImportedTask[] };
+  
+  switch (format) {
+    case 'todotxt':
+      source = { tasks: readTodoTxt(content, options.sectionBy ?? 'section') };
+      break;
+    case 'csv':
+      source = { tasks: readCsv(content, options, warnings) };
+      break;
+    case 'github':
+      source = { tasks: readGitHubIssues(content, options.sectionBy ?? 'milestone', warnings) };
+      break;
+    case 'markdown':
+      source = readMarkdown(content);
+      break;
+  }
+  
+  const tasks = linkSubtasks(source.tasks, warnings);
+  const title = options.title?.trim() || source.title || 'Imported tasks';
+  const document = parseTodolist(renderTodolist(title, tasks, options.defaultSection?.trim() || 'General'));
+  
+  // Refresh parent progress without changing any state the source gave
+  rollUpTasks(document, []);
+  if (options.assignIds ?? true) {
+    const { reassigned } = assignTaskIds(document);
+    if (reassigned.length > 0) {
+      warnings.push(`${reassigned.length} duplicated ${reassigned.length === 1 ? 'ID was' : 'IDs were'} replaced: ${reassigned.map(({ from, to }) => `${from} → ${to}`).join(', ')}.`);
+    }
+  }
+  
+  // Counted in the written todolist, where a note shaped like a checklist item is a task as well
+  return {
+    content: serializeTodolist(document),
+    tasks: countTasks(document).total,
+    sections: listSections(document).filter(section => section.level === 2).length,
+    warnings
+  };
+}
+
+/**
+ * Read todo.txt: one task per line
+ * @param content The todo.txt content
+ * @param sectionBy `section` for the `section:` pair, `project` for the first `+project` or `context` for the first `@context`
+ * @returns The tasks, not yet linked to their parents
+ */
+function readTodoTxt(content: string, sectionBy: string): ImportedTask[] {
+  const tasks: ImportedTask[] = [];
+  
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    if (!line) continue;
+    
+    const task = createTask();
+    const completion = line.match(/^x\s+(?:(\d{4}-\d{2}-\d{2})\s+)?(?:\d{4}-\d{2}-\d{2}\s+)?/);
+    if (completion) {
+      task.status = 'done';
+      task.completed = completion[1];
+      line = line.slice(completion[0].length);
+    } else {
+      const priority = line.match(/^\(([A-Z])\)\s+/);
+      if (priority) {
+        task.priority = TODOTXT_PRIORITIES[priority[1]] ?? 'low';
+        line = line.slice(priority[0].length);
+      }
+      // A creation date is not kept
+      line = line.replace(/^\d{4}-\d{2}-\d{2}\s+/, '');
+    }
+    
+    const words: string[] = [];
+    const projects: string[] = [];
+    const contexts: string[] = [];
+    for (const word of line.split(/\s+/)) {
+      const pair = word.match(/^([A-Za-z_]+):(\S+)$/);
+      if (word.length > 1 && word.startsWith('+')) {
+        projects.push(word.slice(1));
+      } else if (word.length > 1 && word.startsWith('@')) {
+        contexts.push(word.slice(1));
+      } else if (pair && KNOWN_TODOTXT_KEYS.has(pair[1].toLowerCase())) {
+        applyTodoTxtPair(task, pair[1].toLowerCase(), pair[2]);
+      } else {
+        words.push(word);
+      }
+    }
+    
+    task.title = words.join(' ');
+    task.tags = projects;
+    task.owners = contexts;
+    if (sectionBy === 'project' && projects.length > 0) {
+      task.section = projects[0].replace(/_/g, ' ');
+      task.tags = projects.slice(1);
+    } else if (sectionBy === 'context' && contexts.length > 0) {
+      task.section = contexts[0].replace(/_/g, ' ');
+      task.owners = contexts.slice(1);
+    }
+    tasks.push(task);
+  }
+  
+  return tasks;
+}
+
+/**
+ * Apply a todo.txt `key:value` pair to a task
+ * @param task The task to update
+ * @param key The lowercased key
+ * @param value The value
+ */
+function applyTodoTxtPair(task: ImportedTask, key: string, value: string): void {
+  switch (key) {
+    case 'due':
+      task.due = isValidDate(value) ? value : task.due;
+      break;
+    case 'id':
+      task.id = value;
+      break;
+    case 'parent':
+      task.parent = value;
+      break;
+    case 'after':
+      task.dependencies = value.split(',').filter(Boolean);
+      break;
+    case 'status':
+      task.status = parseStatus(value) ?? task.status;
+      break;
+    case 'section':
+      task.section = value.replace(/_/g, ' ');
+      break;
+    case 'estimate':
+      task.estimate = value;
+      break;
+    case 'pri':
+      task.priority = TODOTXT_PRIORITIES[value.toUpperCase()] ?? task.priority;
+      break;
+  }
+}
+
+/**
+ * Read CSV: one task per row, with a header row
+ * @param content The CSV content
+ * @param options The column mapping and grouping
+ * @param warnings Collects columns that could not be used
+ * @returns The tasks, not yet linked to their parents
+ */
+function readCsv(content: string, options: ImportOptions, warnings: string[]): ImportedTask[] {
+  const [header, ...rows] = parseCsv(content).filter(row => row.some(cell => cell.trim() !== ''));
+  if (!header) {
+    return [];
+  }
+  
+  // Map each field to a column: the mapping given, else a column with a known name
+  const names = header.map(name => name.trim().toLowerCase());
+  const columnOf = (field: CsvField): number => {
+    const mapped = field === 'section' && options.sectionBy ? options.sectionBy : options.columns?.[field];
+    if (mapped !== undefined) {
+      const index = names.indexOf(mapped.trim().toLowerCase());
+      if (index === -1) {
+        warnings.push(`The column "${mapped}" mapped to ${field} is not in the CSV header.`);
+      }
+      return index;
+    }
+    return names.findIndex(name => CSV_ALIASES[field].includes(name));
+  };
+  const columns = Object.fromEntries(CSV_FIELDS.map(field => [field, columnOf(field)])) as Record<CsvField, number>;
+  if (columns.title === -1) {
+    throw new Error(`No title column found in the CSV header (${header.join(', ')}). Map one with columns.title.`);
+  }
+  
+  const list = (value: string) => value.split(/[;,]/).map(item => item.trim()).filter(Boolean);
+  return rows.map(row => {
+    const cell = (field: CsvField) => (columns[field] === -1 ? '' : (row[columns[field]] ?? '').trim());
+    const task = createTask();
+    task.title = cell('title');
+    task.status = parseStatus(cell('status')) ?? 'open';
+    task.section = cell('section').split(' > ').pop() || undefined;
+    task.priority = parsePriority(cell('priority'));
+    task.estimate = parseEstimate(cell('estimate')) !== undefined ? cell('estimate').replace(/^~/, '') : undefined;
+    task.tags = list(cell('tags')).map(tag => tag.replace(/^#/, ''));
+    task.owners = list(cell('owners')).map(owner => owner.replace(/^@/, ''));
+    task.due = isValidDate(cell('due').slice(0, 10)) ? cell('due').slice(0, 10) : undefined;
+    task.completed = isValidDate(cell('completed').slice(0, 10)) ? cell('completed').slice(0, 10) : undefined;
+    task.id = cell('id') || undefined;
+    task.parent = cell('parent') || undefined;
+    task.dependencies = list(cell('dependencies'));
+    task.notes = cell('notes').split(/\r?\n/).map(note => note.trim()).filter(Boolean);
+    return task;
+  }).filter(task => task.title !== '');
+}
+
+/**
+ * Read a GitHub issue export: the REST API's issue list, `gh issue list --json` output, or `{ issue }` import objects
+ * Checklist lines in an issue body become its subtasks
+ * @param content The JSON content
+ * @param sectionBy `milestone` to group by milestone, or `label` to group by each issue's first label
+ * @param warnings Collects labels that could not become tags
+ * @returns The tasks
+ */
+function readGitHubIssues(content: string, sectionBy: string, warnings: string[]): ImportedTask[] {
+  const parsed = JSON.parse(content);
+  const issues: any[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.issues) ? parsed.issues : [];
+  const dropped = new Set<string>();
+  
+  const tasks = issues
+    .map(item => (item && typeof item.issue === 'object' ? item.issue : item))
+    .filter(issue => issue && typeof issue.title === 'string' && !issue.pull_request)
+    .map(issue => {
+      const task = createTask();
+      task.title = issue.title;
+      
+      // State: closed issues are done, unless they were closed as not planned
+      const state = String(issue.state ?? (issue.closed ? 'closed' : 'open')).toLowerCase();
+      const reason = String(issue.state_reason ?? issue.stateReason ?? '').toLowerCase();
+      task.status = state === 'closed' ? (reason === 'not_planned' ? 'cancelled' : 'done') : 'open';
+      const closedAt = String(issue.closed_at ?? issue.closedAt ?? '').slice(0, 10);
+      task.completed = task.status === 'done' && isValidDate(closedAt) ? closedAt : undefined;
+      if (typeof issue.number === 'number') {
+        task.id = `GH-${issue.number}`;
+      }
+      
+      // Labels: priority and status labels set those fields, the rest become tags
+      const labels: string[] = (issue.labels ?? []).map((label: any) => (typeof label === 'string' ? label : label?.name)).filter(Boolean);
+      const plain: string[] = [];
+      for (const label of labels) {
+        const priority = label.match(/^priority:\s*(\w+)$/i);
+        const status = label.match(/^status:\s*(.+)$/i);
+        if (priority && parsePriority(priority[1])) {
+          task.priority = parsePriority(priority[1]);
+        } else if (status && parseStatus(status[1]) && (task.status === 'open' || parseStatus(status[1]) === 'cancelled')) {
+          // Open issues take any state; closed ones can only be marked cancelled
+          task.status = parseStatus(status[1])!;
+          task.completed = task.status === 'done' ? task.completed : undefined;
+        } else {
+          plain.push(label);
+        }
+      }
+      if (sectionBy === 'label' && plain.length > 0) {
+        task.section = plain.shift();
+      } else if (sectionBy === 'milestone') {
+        task.section = issue.milestone?.title ?? undefined;
+      }
+      for (const label of plain) {
+        const tag = label.trim().replace(/[^\w/-]+/g, '-').replace(/^-+|-+$/g, '');
+        if (/^[A-Za-z]/.test(tag)) {
+          task.tags.push(tag);
+        } else {
+          dropped.add(label);
+        }
+      }
+      
+      const assignees: string[] = (issue.assignees ?? (issue.assignee ? [issue.assignee] : []))
+        .map((assignee: any) => (typeof assignee === 'string' ? assignee : assignee?.login))
+        .filter(Boolean);
+      task.owners = assignees;
+      
+      readIssueBody(task, String(issue.body ?? ''));
+      return task;
+    });
+  
+  if (dropped.size > 0) {
+    warnings.push(`These labels could not become tags because they do not start with a letter: ${[...dropped].join(', ')}.`);
+  }
+  return tasks;
+}
+
+/**
+ * Read the notes, subtasks and details of an issue body into a task
+ * @param task The task to update
+ * @param body The issue body
+ */
+function readIssueBody(task: ImportedTask, body: string): void {
+  const subtaskStack: Array<{ indent: number; task: ImportedTask }> = [];
+  
+  for (const line of body.split(/\r?\n/)) {
+    const checkbox = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/);
+    if (checkbox) {
+      const subtask = createTask();
+      const indent = checkbox[1].length;
+      const struck = checkbox[3].match(/^~~(.*)~~$/);
+      const marked = checkbox[3].match(/^(.*?)\s+_\((in progress|blocked)\)_$/);
+      subtask.title = struck ? struck[1] : marked ? marked[1] : checkbox[3];
+      subtask.status = checkbox[2] !== ' ' ? 'done' : struck ? 'cancelled' : marked ? parseStatus(marked[2])! : 'open';
+      
+      while (subtaskStack.length > 0 && subtaskStack[subtaskStack.length - 1].indent >= indent) {
+        subtaskStack.pop();
+      }
+      (subtaskStack.length > 0 ? subtaskStack[subtaskStack.length - 1].task : task).subtasks.push(subtask);
+      subtaskStack.push({ indent, task: subtask });
+      continue;
+    }
+    
+    const detail = line.match(/^\*\*(Due|Estimate|Depends on|Todolist ID|Owners):\*\*\s*(.*)$/);
+    if (detail) {
+      const value = detail[2].trim();
+      if (detail[1] === 'Due' && isValidDate(value)) task.due = value;
+      if (detail[1] === 'Estimate' && parseEstimate(value) !== undefined) task.estimate = value;
+      if (detail[1] === 'Depends on') task.dependencies = value.split(/[\s,]+/).filter(Boolean);
+      if (detail[1] === 'Todolist ID' && isTaskId(value)) task.id = value;
+      if (detail[1] === 'Owners') task.owners = value.split(/[\s,]+/).map(owner => owner.replace(/^@/, '')).filter(Boolean);
+      continue;
+    }
+    
+    // Headings and blank lines would break the todolist's structure, so only text is kept as notes
+    const text = line.trim();
+    if (text && !/^#{1,6}\s/.test(text)) {
+      task.notes.push(text);
+    }
+  }
+}
+
+/**
+ * Read a markdown checklist, keeping its headings as sections
+ * Unindented plain list items outside tasks become tasks too
+ * @param content The markdown content
+ * @returns The title and the tasks
+ */
+function readMarkdown(content: string): { title?: string; tasks: ImportedTask[] } {
+  const normalized = content.replace(/^([-*+])\s+(?!\[[ xX~!-]\])(\S)/gm, '$1 [ ] $2');
+  const document = parseTodolist(normalized);
+  const tasks: ImportedTask[] = [];
+  
+  const fromNode = (node: TaskNode): ImportedTask => {
+    const metadata = getTaskMetadata(node);
+    return {
+      ...createTask(),
+      // The text keeps its inline metadata, which is written back as it is
+      title: node.text.trim(),
+      status: getTaskStatus(node),
+      id: getTaskId(node),
+      completed: metadata.completed,
+      notes: getTaskNotes(node),
+      subtasks: getSubtasks(node).map(fromNode)
+    };
+  };
+  const collect = (nodes: TodolistNode[], section?: string) => {
+    for (const node of nodes) {
+      if (node.type === 'task') {
+        tasks.push({ ...fromNode(node), section });
+      }
+    }
+  };
+  
+  collect(document.children);
+  for (const section of listSections(document)) {
+    collect(section.children, section.level === 1 ? undefined : section.title);
+  }
+  
+  return { title: getTodolistTitle(document), tasks };
+}
+
+/**
+ * Put subtasks under their parents, by the parent's ID or key
+ * @param tasks The tasks in source order
+ * @param warnings Collects parents that were not found
+ * @returns The top-level tasks
+ */
+function linkSubtasks(tasks: ImportedTask[], warnings: string[]): ImportedTask[] {
+  const byId = new Map<string, ImportedTask>();
+  for (const task of tasks) {
+    if (task.id && !byId.has(task.id.toUpperCase())) {
+      byId.set(task.id.toUpperCase(), task);
+    }
+  }
+  
+  const topLevel: ImportedTask[] = [];
+  const missing = new Set<string>();
+  for (const task of tasks) {
+    const parent = task.parent ? byId.get(task.parent.toUpperCase()) : undefined;
+    if (parent && parent !== task && !isAncestor(task, parent)) {
+      parent.subtasks.push(task);
+    } else {
+      if (task.parent) missing.add(task.parent);
+      topLevel.push(task);
+    }
+  }
+  
+  if (missing.size > 0) {
+    warnings.push(`Some tasks name a parent that is not in the source, so they were kept at the top level: ${[...missing].join(', ')}.`);
+  }
+  return topLevel;
+}
+
+/**
+ * Check whether a task is an ancestor of another, to avoid linking a loop of parents
+ * @param task The possible ancestor
+ * @param other The other task
+ * @returns True if `other` is somewhere under `task`
+ */
+function isAncestor(task: ImportedTask, other: ImportedTask): boolean {
+  return task.subtasks.some(subtask => subtask === other || isAncestor(subtask, other));
+}
+
+/**
+ * Write the tasks as a todolist in the brain_dump_organize layout
+ * @param title The todolist title
+ * @param tasks The top-level tasks
+ * @param defaultSection The section for tasks without one
+ * @returns The markdown
+ */
+function renderTodolist(title: string, tasks: ImportedTask[], defaultSection: string): string {
+  // Sections in the order they first appear
+  const sections = new Map<string, ImportedTask[]>();
+  for (const task of tasks) {
+    const section = task.section?.trim() || defaultSection;
+    sections.set(section, [...(sections.get(section) ?? []), task]);
+  }
+  
+  const renderTask = (task: ImportedTask, indent: string): string[] => [
+    `${indent}- [${getStatusMark(task.status)}] ${renderTaskText(task)}${task.id && isTaskId(task.id) ? ` <!-- id: ${task.id} -->` : ''}`,
+    ...task.notes.map(note => `${indent}  ${note}`),
+    ...task.subtasks.flatMap(subtask => renderTask(subtask, `${indent}  `))
+  ];
+  
+  const blocks = [`# ${singleLine(title)}`];
+  for (const [section, sectionTasks] of sections) {
+    blocks.push([`## ${singleLine(section)}`, ...sectionTasks.flatMap(task => renderTask(task, ''))].join('\n'));
+  }
+  return `${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Write a task's text with its metadata tokens and dependency clause
+ * @param task The task
+ * @returns The task text
+ */
+function renderTaskText(task: ImportedTask): string {
+  return [
+    singleLine(task.title),
+    task.priority ? `!${task.priority}` : '',
+    task.estimate ? `~${task.estimate}` : '',
+    ...task.tags.map(tag => `#${tag}`),
+    ...task.owners.map(owner => `@${owner}`),
+    task.due ? `due:${task.due}` : '',
+    task.completed && task.status === 'done' && !/(^|\s)done:\d{4}-\d{2}-\d{2}(?=\s|$)/.test(task.title) ? `done:${task.completed}` : '',
+    task.dependencies.length > 0 ? `(after: ${task.dependencies.join(', ')})` : ''
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Create an empty open task
+ * @returns The task
+ */
+function createTask(): ImportedTask {
+  return { title: '', status: 'open', tags: [], owners: [], dependencies: [], notes: [], subtasks: [] };
+}
+
+/**
+ * Read a state written in words
+ * @param value The value, e.g. "done", "In Progress", "won't do" or "x"
+ * @returns The state, or undefined if the value is not recognized
+ */
+function parseStatus(value: string): TaskStatus | undefined {
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (['done', 'closed', 'complete', 'completed', 'x', 'true', 'yes', 'resolved', 'fixed'].includes(normalized)) return 'done';
+  if (['in_progress', 'doing', 'started', 'active', 'wip', '~'].includes(normalized)) return 'in_progress';
+  if (['blocked', 'waiting', 'on_hold', '!'].includes(normalized)) return 'blocked';
+  if (['cancelled', 'canceled', 'wontfix', "won't_do", 'wont_do', 'not_planned', 'dropped', '-'].includes(normalized)) return 'cancelled';
+  if (['open', 'todo', 'to_do', 'new', 'false', 'no', 'pending', ''].includes(normalized)) return 'open';
+  return undefined;
+}
+
+/**
+ * Read a priority: a name, a todo.txt letter or a P0 to P3 level
+ * @param value The value
+ * @returns The priority, or undefined if the value is not recognized
+ */
+function parsePriority(value: string): TaskPriority | undefined {
+  const normalized = value.trim().toLowerCase().replace(/^!/, '');
+  if ((TASK_PRIORITIES as readonly string[]).includes(normalized)) return normalized as TaskPriority;
+  if (/^[a-d]$/.test(normalized)) return TODOTXT_PRIORITIES[normalized.toUpperCase()];
+  if (/^p[0-3]$/.test(normalized)) return TASK_PRIORITIES[parseInt(normalized[1], 10)];
+  return undefined;
+}
+
+/**
+ * Collapse a value onto one line
+ * @param value The value
+ * @returns The value with line breaks and runs of whitespace replaced by single spaces
+ */
+function singleLine(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse CSV into rows of cells, following RFC 4180 quoting
+ * @param content The CSV content
+ * @returns The rows
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  
+  const text = content.replace(/^\uFEFF/, '');
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  
+  return rows;
+}
@@ -0,0 +1,23 @@
+/**
+ * Todolist Index
+ * Parsing, serialization and queries for markdown todolists
+ */
+
+export * from './types.js';
+export * from './parser.js';
+export * from './serializer.js';
+export * from './query.js';
+export * from './ids.js';
+export * from './resolve.js';
+export * from './metadata.js';
+export * from './dependencies.js';
+export * from './status.js';
+export * from './progress.js';
+export * from './rollup.js';
+export * from './export.js';
+export * from './import.js';
+export * from './match.js';
+export * from './merge.js';
+export * from './diff.js';
+export * from './edit.js';
+export * from './lint.js';
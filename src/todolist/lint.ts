@@ -0,0 +1,291 @@
+/**
+ * Todolist Lint
+ * Finds the shapes of todolist that trip up the workflow tools, and normalizes the ones that can be fixed safely
+ *
+ * Todolists are written by people, by brain_dump_organize and by enhance_todolist, and drift: a checkbox
+ * typed as `- []` is not a task at all, a subtask indented by three spaces nests unpredictably, and a
+ * dependency on a deleted ID stops deterministic ordering. Fixes only change whitespace, list markers,
+ * checkbox syntax and empty headings; duplicates, wording and dependencies are left to a person.
+ */
+
+import { TodolistDocument, TodolistNode, TaskNode, TextNode, SectionNode } from './types.js';
+import { listTasks, listSections } from './query.js';
+import { getTaskId } from './ids.js';
+import { getTaskTitle } from './metadata.js';
+import { getTaskDependencies } from './dependencies.js';
+import { isTaskResolved } from './status.js';
+import { normalizeTaskTitle } from './match.js';
+import { measureIndent } from './parser.js';
+import { shiftTask, getBulletStyle } from './edit.js';
+
+/**
+ * Lint rules
+ */
+export const LINT_RULES = [
+  'duplicate-task',
+  'empty-section',
+  'non-actionable',
+  'unknown-dependency',
+  'checkbox-syntax',
+  'mixed-indentation',
+  'orphaned-subtask'
+] as const;
+
+/**
+ * A lint rule
+ */
+export type LintRule = typeof LINT_RULES[number];
+
+/**
+ * A problem found in a todolist
+ */
+export interface LintIssue {
+  rule: LintRule;
+  // `error` when a workflow tool will misread the todolist, `warning` otherwise
+  severity: 'error' | 'warning';
+  // 1-based line in the linted source
+  line: number;
+  message: string;
+  // Whether fixTodolist can fix it
+  fixable: boolean;
+}
+
+/**
+ * An issue with the change that fixes it, if there is one
+ */
+type FixableIssue = LintIssue & { fix?: () => void };
+
+/**
+ * A line that was meant to be a task but does not parse as one, e.g. `- [] text`, `-[ ] text` or `- [ ]text`
+ */
+const BROKEN_CHECKBOX = /^([ \t]*)([-*+]|\d{1,9}[.)])[ \t]*\[[ \t]*([xX~!-]?)[ \t]*\](?!\()[ \t]*(.*)$/;
+
+/**
+ * The opening or closing line of a fenced code block
+ */
+const FENCE_LINE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Verbs a task title can start with
+ */
+const ACTION_VERBS = new Set([
+  'add', 'adjust', 'allow', 'analyze', 'apply', 'approve', 'archive', 'ask', 'assess', 'assign', 'attach', 'audit',
+  'authenticate', 'authorize', 'automate', 'backfill', 'benchmark', 'bind', 'book', 'bootstrap', 'build', 'bump', 'buy',
+  'cache', 'calculate', 'call', 'catch', 'change', 'check', 'choose', 'clarify', 'clean', 'clone', 'close', 'collect',
+  'combine', 'commit', 'communicate', 'compare', 'compile', 'complete', 'compress', 'configure', 'confirm', 'connect',
+  'consider', 'consolidate', 'construct', 'contact', 'containerize', 'convert', 'coordinate', 'copy', 'correct', 'cover',
+  'create', 'customize', 'debug', 'decide', 'decouple', 'define', 'delete', 'deliver', 'demo', 'deploy', 'deprecate',
+  'describe', 'design', 'detect', 'determine', 'develop', 'disable', 'discuss', 'display', 'do', 'document', 'download',
+  'draft', 'drop', 'edit', 'email', 'embed', 'emit', 'enable', 'encrypt', 'enforce', 'enhance', 'ensure', 'establish',
+  'estimate', 'evaluate', 'exclude', 'execute', 'expand', 'explore', 'export', 'expose', 'extend', 'extract', 'fetch',
+  'fill', 'filter', 'finalize', 'find', 'finish', 'fix', 'flag', 'follow', 'format', 'gather', 'generate', 'get', 'give',
+  'handle', 'harden', 'help', 'hide', 'hook', 'identify', 'implement', 'import', 'improve', 'include', 'increase', 'index',
+  'initialize', 'inject', 'inspect', 'install', 'instrument', 'integrate', 'introduce', 'investigate', 'invite', 'isolate',
+  'keep', 'label', 'launch', 'learn', 'limit', 'link', 'lint', 'list', 'load', 'localize', 'lock', 'log', 'maintain',
+  'make', 'map', 'mark', 'measure', 'meet', 'merge', 'migrate', 'minimize', 'mock', 'model', 'modify', 'monitor', 'mount',
+  'move', 'name', 'normalize', 'note', 'notify', 'obtain', 'onboard', 'open', 'optimize', 'order', 'organize', 'outline',
+  'override', 'package', 'paginate', 'parse', 'patch', 'pay', 'perform', 'persist', 'pick', 'pin', 'plan', 'polish',
+  'poll', 'port', 'post', 'prepare', 'present', 'prevent', 'preview', 'print', 'prioritize', 'process', 'profile',
+  'promote', 'protect', 'prototype', 'provide', 'provision', 'prune', 'publish', 'pull', 'purchase', 'push', 'query',
+  'queue', 'raise', 'read', 'rebase', 'rebuild', 'receive', 'reconcile', 'record', 'recover', 'redesign', 'redirect',
+  'reduce', 'refactor', 'refine', 'refresh', 'register', 'reject', 'release', 'reload', 'remind', 'remove', 'rename',
+  'render', 'reorder', 'reorganize', 'repair', 'replace', 'reply', 'report', 'reproduce', 'request', 'require', 'research',
+  'reserve', 'reset', 'resize', 'resolve', 'respond', 'restore', 'restrict', 'restructure', 'retire', 'retry', 'return',
+  'reuse', 'revert', 'review', 'revise', 'revoke', 'rewrite', 'roll', 'rotate', 'route', 'run', 'sanitize', 'save',
+  'scaffold', 'scale', 'scan', 'schedule', 'scope', 'script', 'search', 'secure', 'seed', 'select', 'send', 'separate',
+  'serve', 'set', 'setup', 'share', 'ship', 'shorten', 'show', 'sign', 'simplify', 'simulate', 'sketch', 'skip', 'sort',
+  'specify', 'spike', 'split', 'stabilize', 'standardize', 'start', 'stop', 'store', 'streamline', 'strip', 'stub',
+  'style', 'submit', 'subscribe', 'summarize', 'support', 'swap', 'switch', 'sync', 'tag', 'take', 'test', 'throttle',
+  'tighten', 'toggle', 'track', 'train', 'transfer', 'transform', 'translate', 'triage', 'trigger', 'trim',
+  'troubleshoot', 'try', 'tune', 'turn', 'unblock', 'uninstall', 'unify', 'unlock', 'update', 'upgrade', 'upload', 'use',
+  'validate', 'verify', 'version', 'visualize', 'wait', 'watch', 'wire', 'work', 'wrap', 'write'
+]);
+
+/**
+ * Lint a todolist
+ * @param document The todolist
+ * @param rules The rules to check (default: all)
+ * @returns The issues in line order
+ */
+export function lintTodolist(document: TodolistDocument, rules: readonly LintRule[] = LINT_RULES): LintIssue[] {
+  return inspectTodolist(document, rules).map(({ fix, ...issue }) => issue);
+}
+
+/**
+ * Fix what can be fixed automatically; serialize and lint the document again to see what is left
+ * Lines that only looked like tasks become tasks once the result is parsed again
+ * @param document The todolist to update in place
+ * @param rules The rules to fix (default: all)
+ * @returns The issues that were fixed
+ */
+export function fixTodolist(document: TodolistDocument, rules: readonly LintRule[] = LINT_RULES): LintIssue[] {
+  const fixed: LintIssue[] = [];
+  for (const { fix, ...issue } of inspectTodolist(document, rules)) {
+    if (fix) {
+      fix();
+      fixed.push(issue);
+    }
+  }
+  return fixed;
+}
+
+/**
+ * Find the issues of a todolist, with their fixes
+ * @param document The todolist
+ * @param rules The rules to check
+ * @returns The issues in line order, parents before their subtasks, so fixes can run in order
+ */
+function inspectTodolist(document: TodolistDocument, rules: readonly LintRule[]): FixableIssue[] {
+  const enabled = new Set(rules);
+  const issues: FixableIssue[] = [];
+  const report = (rule: LintRule, severity: LintIssue['severity'], line: number, message: string, fix?: () => void) => {
+    if (enabled.has(rule)) issues.push({ rule, severity, line, message, fixable: !!fix, ...(fix ? { fix } : {}) });
+  };
+  const entries = listTasks(document);
+  
+  // Duplicates: the same title among top-level tasks anywhere, or among the subtasks of one parent
+  const seen = new Map<TaskNode | undefined, Map<string, TaskNode>>();
+  for (const { task, parent } of entries) {
+    const title = normalizeTaskTitle(task);
+    if (!title) continue;
+    const siblings = seen.get(parent) ?? new Map<string, TaskNode>();
+    seen.set(parent, siblings);
+    const first = siblings.get(title);
+    if (first) {
+      report('duplicate-task', 'warning', task.line, `"${getTaskTitle(task)}" repeats the task on line ${first.line}${parent ? ' under the same parent' : ''}.`);
+    } else {
+      siblings.set(title, task);
+    }
+  }
+  
+  // Empty sections: a heading with nothing under it
+  const removeSection = (section: SectionNode) => {
+    const siblings = [document.sections, ...listSections(document).map(candidate => candidate.sections)]
+      .find(list => list.includes(section));
+    siblings?.splice(siblings.indexOf(section), 1);
+  };
+  for (const section of listSections(document)) {
+    const empty = section.sections.length === 0 && section.children.every(node => node.type === 'text' && node.raw.trim() === '');
+    if (empty) {
+      report('empty-section', 'warning', section.line, `The section "${section.title}" has no tasks.`, () => removeSection(section));
+    }
+  }
+  
+  // Top-level tasks should say what to do
+  for (const { task, depth } of entries) {
+    if (depth > 0 || isTaskResolved(task)) continue;
+    const title = getTaskTitle(task);
+    const firstWord = title.replace(/^[^\p{L}]+/u, '').split(/[^\p{L}-]/u)[0].toLowerCase();
+    if (firstWord && !ACTION_VERBS.has(firstWord)) {
+      report('non-actionable', 'warning', task.line, `"${title}" does not start with an action verb such as "Add", "Fix" or "Write".`);
+    }
+  }
+  
+  // Dependencies must name tasks that exist
+  const ids = new Set(entries.map(entry => getTaskId(entry.task)?.toUpperCase()).filter(Boolean));
+  for (const { task } of entries) {
+    const unknown = getTaskDependencies(task).filter(id => !ids.has(id));
+    if (unknown.length > 0) {
+      report('unknown-dependency', 'error', task.line, `"${getTaskTitle(task)}" depends on ${unknown.join(', ')}, which no task has as its ID.`);
+    }
+  }
+  
+  // Checkbox syntax: one bullet style, lower-case [x], single spaces, and lines that only look like tasks
+  const bullet = getBulletStyle(document);
+  for (const { task } of entries) {
+    const problems: string[] = [];
+    if (/^[-*+]$/.test(task.marker) && task.marker !== bullet) problems.push(`uses "${task.marker}" where the todolist uses "${bullet}"`);
+    if (task.mark === 'X') problems.push('uses [X] instead of [x]');
+    if (task.markerSpacing !== ' ') problems.push('has more than one space or a tab before the checkbox');
+    if (task.text && task.textSpacing !== ' ') problems.push('has more than one space or a tab after the checkbox');
+    if (problems.length > 0) {
+      report('checkbox-syntax', 'warning', task.line, `The task ${problems.join(', ')}.`, () => {
+        if (/^[-*+]$/.test(task.marker)) task.marker = bullet;
+        if (task.mark === 'X') task.mark = 'x';
+        task.markerSpacing = ' ';
+        if (task.text) task.textSpacing = ' ';
+      });
+    }
+    if (!getTaskTitle(task)) {
+      report('checkbox-syntax', 'warning', task.line, 'The task has no text.');
+    }
+  }
+  forEachTextNode(document, node => {
+    const broken = node.raw.match(BROKEN_CHECKBOX);
+    if (!broken || !broken[4].trim()) return;
+    const [, indent, marker, mark, text] = broken;
+    report('checkbox-syntax', 'error', node.line, `"${node.raw.trim()}" is not read as a task; checkboxes are written as "${bullet} [ ] text".`, () => {
+      node.raw = `${indent}${/^[-*+]$/.test(marker) ? bullet : marker} [${mark === 'X' ? 'x' : mark || ' '}] ${text.trim()}`;
+    });
+  });
+  
+  // Indentation: subtasks one step in from their parent, spaces or tabs but not both, and no tasks indented without a parent
+  const steps = new Map<number, number>();
+  for (const { task, parent } of entries) {
+    if (parent) {
+      const offset = measureIndent(task.indent) - measureIndent(parent.indent);
+      steps.set(offset, (steps.get(offset) ?? 0) + 1);
+    }
+  }
+  const spaced = entries.some(({ task }) => task.indent.includes(' '));
+  const step = [...steps].sort((a, b) => b[1] - a[1] || a[0] - b[0])[0]?.[0] ?? 2;
+  for (const { task, parent } of entries) {
+    const width = measureIndent(task.indent);
+    if (!parent) {
+      if (width > 0) {
+        report('orphaned-subtask', 'warning', task.line, `"${getTaskTitle(task)}" is indented like a subtask but has no task above it to belong to.`,
+          () => shiftTask(task, -measureIndent(task.indent)));
+      }
+      continue;
+    }
+    
+    const offset = width - measureIndent(parent.indent);
+    const aligned = offset === step || offset === parent.marker.length + parent.markerSpacing.length;
+    const mixed = task.indent.includes('\t') && spaced;
+    if (!aligned || mixed) {
+      const problem = !aligned
+        ? `is indented ${offset} columns under its parent where the todolist uses ${step}`
+        : 'is indented with tabs where other tasks use spaces';
+      report('mixed-indentation', 'warning', task.line, `"${getTaskTitle(task)}" ${problem}.`, () => {
+        const target = measureIndent(parent.indent) + (aligned ? offset : step);
+        shiftTask(task, target - measureIndent(task.indent));
+      });
+    }
+  }
+  
+  return issues.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Visit every text line outside fenced code blocks, in document order
+ * @param document The todolist
+ * @param visit Called with each text node
+ */
+function forEachTextNode(document: TodolistDocument, visit: (node: TextNode) => void): void {
+  let fence: string | null = null;
+  const visitNodes = (nodes: TodolistNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'task') {
+        visitNodes(node.children);
+        continue;
+      }
+      if (fence !== null) {
+        if (node.raw.trim().startsWith(fence)) fence = null;
+        continue;
+      }
+      const fenceMatch = node.raw.match(FENCE_LINE);
+      if (fenceMatch) {
+        fence = fenceMatch[1];
+        continue;
+      }
+      visit(node);
+    }
+  };
+  const visitSection = (section: SectionNode) => {
+    visitNodes(section.children);
+    section.sections.forEach(visitSection);
+  };
+  
+  visitNodes(document.children);
+  document.sections.forEach(visitSection);
+}
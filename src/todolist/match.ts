@@ -0,0 +1,168 @@
+/**
+ * Task Matching
+ * Pairs the tasks of two versions of a todolist, so a rewritten todolist can be compared with the one it came from
+ *
+ * Tasks are paired by ID and title first, then by title alone, then by ID alone (a reworded task), then by
+ * similar titles, so an ID the rewrite moved onto another task does not outweigh a title it kept. Titles are compared
+ * without metadata tokens, progress suffixes, case or punctuation, so a task that only gained `!high`
+ * or had a word reworded (deps, dependencies) still finds its counterpart.
+ */
+
+import { TaskEntry, TaskNode } from './types.js';
+import { getTaskId } from './ids.js';
+import { getTaskTitle } from './metadata.js';
+
+/**
+ * How similar two titles must be to count as the same task reworded: the Dice coefficient over their words,
+ * or for short titles where one changed word weighs heavily, the letter-by-letter similarity
+ */
+const SIMILARITY_THRESHOLD = 0.6;
+
+/**
+ * Two versions of the same task
+ */
+export interface TaskPair {
+  before: TaskEntry;
+  after: TaskEntry;
+  // What paired them: the ID, the same title, or a similar title
+  by: 'id' | 'text' | 'similar';
+  // Whether the titles differ
+  reworded: boolean;
+}
+
+/**
+ * The tasks of two versions of a todolist, paired
+ */
+export interface TaskMatch {
+  pairs: TaskPair[];
+  // Tasks of the first version with no counterpart, in document order
+  removed: TaskEntry[];
+  // Tasks of the second version with no counterpart, in document order
+  added: TaskEntry[];
+}
+
+/**
+ * Pair the tasks of two versions of a todolist
+ * @param before The tasks of the earlier version
+ * @param after The tasks of the later version
+ * @returns The pairs in the earlier version's order, and the tasks left over on each side
+ */
+export function matchTasks(before: TaskEntry[], after: TaskEntry[]): TaskMatch {
+  const pairs: TaskPair[] = [];
+  const unpairedBefore = new Set(before);
+  const unpairedAfter = new Set(after);
+  
+  const pair = (first: TaskEntry, second: TaskEntry, by: TaskPair['by']) => {
+    pairs.push({ before: first, after: second, by, reworded: normalizeTaskTitle(first.task) !== normalizeTaskTitle(second.task) });
+    unpairedBefore.delete(first);
+    unpairedAfter.delete(second);
+  };
+  
+  const afterById = new Map<string, TaskEntry>();
+  for (const entry of after) {
+    const id = getTaskId(entry.task)?.toUpperCase();
+    if (id && !afterById.has(id)) afterById.set(id, entry);
+  }
+  const pairById = (sameTitle: boolean) => {
+    for (const entry of before) {
+      const id = getTaskId(entry.task)?.toUpperCase();
+      const counterpart = id ? afterById.get(id) : undefined;
+      if (counterpart && unpairedBefore.has(entry) && unpairedAfter.has(counterpart) &&
+          (!sameTitle || normalizeTaskTitle(entry.task) === normalizeTaskTitle(counterpart.task))) {
+        pair(entry, counterpart, 'id');
+      }
+    }
+  };
+  
+  // The same ID and title, then identical titles, taking copies of a title in order
+  pairById(true);
+  for (const entry of before) {
+    if (!unpairedBefore.has(entry)) continue;
+    const title = normalizeTaskTitle(entry.task);
+    const counterpart = [...unpairedAfter].find(candidate => normalizeTaskTitle(candidate.task) === title);
+    if (counterpart) pair(entry, counterpart, 'text');
+  }
+  
+  // Then the same ID with another title: the task was reworded
+  pairById(false);
+  
+  // Then the most similar title, if it is similar enough
+  for (const entry of before) {
+    if (!unpairedBefore.has(entry)) continue;
+    const title = normalizeTaskTitle(entry.task);
+    let best: { entry: TaskEntry; score: number } | undefined;
+    for (const candidate of unpairedAfter) {
+      const candidateTitle = normalizeTaskTitle(candidate.task);
+      const score = Math.max(getTitleSimilarity(title, candidateTitle), getEditSimilarity(title, candidateTitle));
+      if (score >= SIMILARITY_THRESHOLD && (!best || score > best.score)) best = { entry: candidate, score };
+    }
+    if (best) pair(entry, best.entry, 'similar');
+  }
+  
+  pairs.sort((a, b) => before.indexOf(a.before) - before.indexOf(b.before));
+  return {
+    pairs,
+    removed: before.filter(entry => unpairedBefore.has(entry)),
+    added: after.filter(entry => unpairedAfter.has(entry))
+  };
+}
+
+/**
+ * Measure how alike two texts are
+ * @param first The first text
+ * @param second The second text
+ * @returns The Dice coefficient of their sets of words, from 0 (no words shared) to 1 (the same words)
+ */
+export function getTitleSimilarity(first: string, second: string): number {
+  const words = (value: string) => new Set(value.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+  const a = words(first);
+  const b = words(second);
+  if (a.size === 0 && b.size === 0) return 1;
+  
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Reduce a task's title to what matters when comparing tasks
+ * @param task The task
+ * @returns The title in lower case with punctuation and repeated whitespace removed
+ */
+export function normalizeTaskTitle(task: TaskNode): string {
+  return normalizeTitle(getTaskTitle(task));
+}
+
+/**
+ * Reduce a title to what matters when comparing tasks
+ * @param title The title, without metadata
+ * @returns The title in lower case with punctuation and repeated whitespace removed
+ */
+export function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Measure how alike two texts are letter by letter, so typos and small rewordings still match
+ * @param first The first text
+ * @param second The second text
+ * @returns 1 minus their edit distance divided by the longer length, from 0 (nothing in common) to 1 (the same)
+ */
+export function getEditSimilarity(first: string, second: string): number {
+  const longest = Math.max(first.length, second.length);
+  if (longest === 0) return 1;
+  
+  // Levenshtein distance, keeping one row of the table
+  let previous = Array.from({ length: second.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= first.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= second.length; j++) {
+      const substitution = previous[j - 1] + (first[i - 1] === second[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return 1 - previous[second.length] / longest;
+}
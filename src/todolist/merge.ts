@@ -0,0 +1,286 @@
+/**
+ * Todolist Merge
+ * Folds a rewritten todolist, such as a model's enhancement, back into the original
+ *
+ * The original wins wherever the two disagree: its tasks keep their text, state, ID and position.
+ * What the rewrite adds is copied in: new notes and subtasks under the task they were written under,
+ * new tasks next to the task they followed, and new sections after the original ones. Original tasks
+ * the rewrite dropped or reworded are kept as they were and reported as conflicts. Subtasks added under
+ * done or cancelled tasks are left out, so finished work is not reopened.
+ */
+
+import { TodolistDocument, TodolistNode, TaskNode, SectionNode, TaskEntry } from './types.js';
+import { listTasks, getTaskNotes } from './query.js';
+import { getTaskId, removeTaskId } from './ids.js';
+import { matchTasks } from './match.js';
+import { measureIndent } from './parser.js';
+import { isTaskResolved } from './status.js';
+
+/**
+ * An original task the rewrite did not keep as it was
+ */
+export interface MergeConflict {
+  // `dropped` when the rewrite has no counterpart, `reworded` when its counterpart has a different title
+  kind: 'dropped' | 'reworded';
+  id: string | null;
+  // 1-based line of the task in the original
+  line: number;
+  // The original text, which the merge kept
+  text: string;
+  // The rewrite's text for a reworded task
+  rewritten: string | null;
+}
+
+/**
+ * The outcome of a merge
+ */
+export interface TodolistMerge {
+  // The original document with the additions
+  document: TodolistDocument;
+  addedTasks: number;
+  addedNotes: number;
+  addedSections: number;
+  // New subtasks left out because their parent is done or cancelled
+  skippedTasks: number;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * The nodes a task, section or document holds, and where new tasks go among them
+ */
+interface Container {
+  children: TodolistNode[];
+  // The indentation of tasks directly in the container
+  taskIndent: string;
+}
+
+/**
+ * Merge a rewritten todolist into the original
+ * @param original The original todolist, which is updated in place
+ * @param rewritten The rewritten todolist
+ * @returns The merged document, what was added and the conflicts
+ */
+export function mergeTodolists(original: TodolistDocument, rewritten: TodolistDocument): TodolistMerge {
+  const match = matchTasks(listTasks(original), listTasks(rewritten));
+  const counterparts = new Map<TaskNode, TaskNode>(match.pairs.map(pair => [pair.after.task, pair.before.task]));
+  const originalIds = new Set(listTasks(original).map(entry => getTaskId(entry.task)?.toUpperCase()).filter(Boolean));
+  const result: TodolistMerge = { document: original, addedTasks: 0, addedNotes: 0, addedSections: 0, skippedTasks: 0, conflicts: [] };
+  
+  /**
+   * Copy a new task and what is under it, leaving out original tasks the rewrite moved under it
+   */
+  const copyTask = (task: TaskNode, baseWidth: number, indent: string): TaskNode => {
+    const copy: TaskNode = { ...task, indent: reindent(task.indent, baseWidth, indent), children: [], line: 0 };
+    const id = getTaskId(copy);
+    if (id && originalIds.has(id.toUpperCase())) removeTaskId(copy);
+    result.addedTasks++;
+    for (const child of task.children) {
+      if (child.type === 'text') {
+        copy.children.push({ type: 'text', raw: reindentText(child.raw, baseWidth, indent), line: 0 });
+      } else if (counterparts.has(child)) {
+        mergeTask(counterparts.get(child)!, child);
+      } else {
+        copy.children.push(copyTask(child, baseWidth, indent));
+      }
+    }
+    return copy;
+  };
+  
+  /**
+   * Add the new tasks among some rewritten nodes to a container, next to the original tasks they followed
+   */
+  const mergeTasks = (container: Container, nodes: TodolistNode[]) => {
+    let position = endOfContent(container.children);
+    let baseWidth: number | undefined;
+    for (const node of nodes) {
+      if (node.type !== 'task') continue;
+      const counterpart = counterparts.get(node);
+      if (counterpart) {
+        mergeTask(counterpart, node);
+        const index = container.children.indexOf(counterpart);
+        if (index !== -1) position = index + 1;
+      } else {
+        baseWidth ??= measureIndent(node.indent);
+        container.children.splice(position++, 0, copyTask(node, baseWidth, container.taskIndent));
+      }
+    }
+  };
+  
+  /**
+   * Add a rewritten task's new notes and subtasks to its original
+   */
+  const mergeTask = (task: TaskNode, rewrittenTask: TaskNode) => {
+    const contentIndent = `${task.indent}${' '.repeat(task.marker.length + task.markerSpacing.length)}`;
+    const subtask = task.children.find((node): node is TaskNode => node.type === 'task');
+    
+    // New notes go after the existing notes and before the subtasks
+    const notes = new Set(getTaskNotes(task));
+    const noteWidth = Math.min(...rewrittenTask.children
+      .filter(node => node.type === 'text' && node.raw.trim() !== '')
+      .map(node => measureIndent((node.type === 'text' ? node.raw : '').match(/^\s*/)![0])));
+    let position = subtask ? task.children.indexOf(subtask) : task.children.length;
+    while (position > 0) {
+      const node = task.children[position - 1];
+      if (node.type !== 'text' || node.raw.trim() !== '') break;
+      position--;
+    }
+    for (const node of rewrittenTask.children) {
+      if (node.type !== 'text' || node.raw.trim() === '' || notes.has(node.raw.trim())) continue;
+      notes.add(node.raw.trim());
+      task.children.splice(position++, 0, { type: 'text', raw: reindentText(node.raw, noteWidth, contentIndent), line: 0 });
+      result.addedNotes++;
+    }
+    
+    if (isTaskResolved(task)) {
+      const added = rewrittenTask.children.filter(node => node.type === 'task' && !counterparts.has(node)).length;
+      result.skippedTasks += added;
+      rewrittenTask.children.forEach(node => {
+        if (node.type === 'task' && counterparts.has(node)) mergeTask(counterparts.get(node)!, node);
+      });
+      return;
+    }
+    mergeTasks({ children: task.children, taskIndent: subtask?.indent ?? contentIndent }, rewrittenTask.children);
+  };
+  
+  /**
+   * Merge rewritten sections into the original sections at the same level
+   */
+  const mergeSections = (sections: SectionNode[], rewrittenSections: SectionNode[], parent?: SectionNode) => {
+    const unmatched = new Set(sections);
+    let position = sections.length;
+    for (const rewrittenSection of rewrittenSections) {
+      const section = [...unmatched].find(candidate => normalizeHeading(candidate.title) === normalizeHeading(rewrittenSection.title));
+      if (section) {
+        unmatched.delete(section);
+        mergeTasks({ children: section.children, taskIndent: getTaskIndent(section.children) }, rewrittenSection.children);
+        mergeSections(section.sections, rewrittenSection.sections, section);
+        position = sections.indexOf(section) + 1;
+        continue;
+      }
+      
+      // A new section is only worth adding if it brings new tasks
+      const tasksBefore = result.addedTasks;
+      const copy = copySection(rewrittenSection);
+      if (result.addedTasks === tasksBefore) continue;
+      // Keep a blank line above and below the new heading
+      const above = position > 0 ? getLastNodes(sections[position - 1]) : (parent ?? original).children;
+      if ((position > 0 || parent || above.length > 0) && !endsWithBlankLine(above)) {
+        above.push({ type: 'text', raw: '', line: 0 });
+      }
+      if (position < sections.length && !endsWithBlankLine(getLastNodes(copy))) {
+        getLastNodes(copy).push({ type: 'text', raw: '', line: 0 });
+      }
+      sections.splice(position++, 0, copy);
+      result.addedSections++;
+    }
+  };
+  
+  /**
+   * Copy a new section, leaving out original tasks the rewrite moved into it
+   */
+  const copySection = (section: SectionNode): SectionNode => {
+    const copy: SectionNode = { ...section, children: [], sections: [], line: 0 };
+    let baseWidth: number | undefined;
+    for (const node of section.children) {
+      if (node.type === 'text') {
+        copy.children.push({ type: 'text', raw: node.raw, line: 0 });
+      } else if (counterparts.has(node)) {
+        mergeTask(counterparts.get(node)!, node);
+      } else {
+        baseWidth ??= measureIndent(node.indent);
+        copy.children.push(copyTask(node, baseWidth, ''));
+      }
+    }
+    copy.sections = section.sections.map(copySection);
+    return copy;
+  };
+  
+  mergeTasks({ children: original.children, taskIndent: getTaskIndent(original.children) }, rewritten.children);
+  mergeSections(original.sections, rewritten.sections);
+  
+  const describe = (entry: TaskEntry) => ({ id: getTaskId(entry.task) ?? null, line: entry.task.line, text: entry.task.text.trim() });
+  result.conflicts = [
+    ...match.removed.map(entry => ({ kind: 'dropped' as const, ...describe(entry), rewritten: null })),
+    ...match.pairs
+      .filter(pair => pair.reworded)
+      .map(pair => ({ kind: 'reworded' as const, ...describe(pair.before), rewritten: pair.after.task.text.trim() }))
+  ].sort((a, b) => a.line - b.line);
+  return result;
+}
+
+/**
+ * Find where new content goes at the end of a list of nodes
+ * @param nodes The nodes
+ * @returns The index after the last node that is not a blank line
+ */
+function endOfContent(nodes: TodolistNode[]): number {
+  let position = nodes.length;
+  while (position > 0) {
+    const node = nodes[position - 1];
+    if (node.type !== 'text' || node.raw.trim() !== '') break;
+    position--;
+  }
+  return position;
+}
+
+/**
+ * Check whether the last line written for some nodes is blank
+ * @param nodes The nodes
+ * @returns True if the nodes end with a blank line
+ */
+function endsWithBlankLine(nodes: TodolistNode[]): boolean {
+  const last = nodes[nodes.length - 1];
+  if (!last) return false;
+  if (last.type === 'text') return last.raw.trim() === '';
+  return endsWithBlankLine(last.children);
+}
+
+/**
+ * Get the nodes that end a section
+ * @param section The section
+ * @returns The children of its last subsection, at any depth, or its own children
+ */
+function getLastNodes(section: SectionNode): TodolistNode[] {
+  return section.sections.length > 0 ? getLastNodes(section.sections[section.sections.length - 1]) : section.children;
+}
+
+/**
+ * Get the indentation of the tasks in a list of nodes
+ * @param nodes The nodes
+ * @returns The first task's indentation, or none
+ */
+function getTaskIndent(nodes: TodolistNode[]): string {
+  return nodes.find((node): node is TaskNode => node.type === 'task')?.indent ?? '';
+}
+
+/**
+ * Move indentation from one base to another
+ * @param indent The indentation as written in the rewrite
+ * @param baseWidth The width of the rewrite's indentation at the copied level
+ * @param base The indentation at that level in the original
+ * @returns The new indentation
+ */
+function reindent(indent: string, baseWidth: number, base: string): string {
+  return `${base}${' '.repeat(Math.max(0, measureIndent(indent) - baseWidth))}`;
+}
+
+/**
+ * Move a text line from one indentation base to another
+ * @param raw The line
+ * @param baseWidth The width of the rewrite's indentation at the copied level
+ * @param base The indentation at that level in the original
+ * @returns The reindented line; blank lines are left empty
+ */
+function reindentText(raw: string, baseWidth: number, base: string): string {
+  if (raw.trim() === '') return '';
+  return `${reindent(raw.match(/^\s*/)![0], baseWidth, base)}${raw.trimStart()}`;
+}
+
+/**
+ * Reduce a heading to what matters when comparing versions
+ * @param title The heading text
+ * @returns The heading in lower case without emoji, punctuation or repeated whitespace
+ */
+function normalizeHeading(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
@@ -0,0 +1,260 @@
+/**
+ * Task Metadata
+ * Reads and writes metadata written inline in a task's text
+ *
+ * Metadata tokens are separated by whitespace and may appear anywhere in the text:
+ * `!high` (priority), `~3h` (estimate), `#backend` (tag), `@alice` (owner), `due:2026-11-01` (due date) and
+ * `done:2026-10-19` (completion date, written by the tools when a task is checked off).
+ */
+
+import { TaskNode } from './types.js';
+import { stripTaskProgress, getWrittenProgress, setWrittenProgress } from './progress.js';
+
+/**
+ * Task priorities, most urgent first
+ */
+export const TASK_PRIORITIES = ['critical', 'high', 'medium', 'low'] as const;
+
+/**
+ * A task priority
+ */
+export type TaskPriority = typeof TASK_PRIORITIES[number];
+
+/**
+ * The metadata of a task
+ */
+export interface TaskMetadata {
+  priority?: TaskPriority;
+  // The estimate as written, e.g. `3h`, and in minutes
+  estimate?: { raw: string; minutes: number };
+  tags: string[];
+  owners: string[];
+  // The due date as YYYY-MM-DD
+  due?: string;
+  // The date the task was completed, as YYYY-MM-DD
+  completed?: string;
+}
+
+/**
+ * Changes to a task's metadata; `null` removes a field, an omitted field is left alone
+ */
+export interface TaskMetadataUpdate {
+  priority?: TaskPriority | null;
+  // An estimate such as `3h`, `90m`, `2d` or `1.5w`
+  estimate?: string | null;
+  tags?: string[];
+  owners?: string[];
+  due?: string | null;
+  completed?: string | null;
+}
+
+/**
+ * The token patterns; each must start the text or follow whitespace, and end at whitespace or the end
+ */
+const PRIORITY_TOKEN = /(^|\s)!(critical|high|medium|low)(?=\s|$)/gi;
+const ESTIMATE_TOKEN = /(^|\s)~(\d+(?:\.\d+)?(?:m|min|h|d|w))(?=\s|$)/gi;
+const TAG_TOKEN = /(^|\s)#([A-Za-z][\w/-]*)(?=\s|$)/g;
+const OWNER_TOKEN = /(^|\s)@([A-Za-z0-9_][\w.-]*)(?=\s|$)/g;
+const DUE_TOKEN = /(^|\s)due:(\d{4}-\d{2}-\d{2})(?=\s|$)/gi;
+const COMPLETED_TOKEN = /(^|\s)done:(\d{4}-\d{2}-\d{2})(?=\s|$)/gi;
+
+/**
+ * Minutes per estimate unit; a day is eight working hours and a week five working days
+ */
+const MINUTES_PER_UNIT: Record<string, number> = { m: 1, min: 1, h: 60, d: 480, w: 2400 };
+
+/**
+ * Read a task's metadata
+ * @param task The task
+ * @returns The metadata found in the task's text
+ */
+export function getTaskMetadata(task: TaskNode): TaskMetadata {
+  const text = task.text;
+  const priority = [...text.matchAll(PRIORITY_TOKEN)][0]?.[2].toLowerCase() as TaskPriority | undefined;
+  const estimate = [...text.matchAll(ESTIMATE_TOKEN)][0]?.[2];
+  const due = [...text.matchAll(DUE_TOKEN)].map(match => match[2]).find(isValidDate);
+  const completed = [...text.matchAll(COMPLETED_TOKEN)].map(match => match[2]).find(isValidDate);
+  
+  return {
+    priority,
+    estimate: estimate === undefined ? undefined : { raw: estimate, minutes: parseEstimate(estimate)! },
+    tags: unique([...text.matchAll(TAG_TOKEN)].map(match => match[2])),
+    owners: unique([...text.matchAll(OWNER_TOKEN)].map(match => match[2])),
+    due,
+    completed
+  };
+}
+
+/**
+ * Get a task's priority
+ * @param task The task
+ * @returns The priority from a `!critical`, `!high`, `!medium` or `!low` token, or undefined if there is none
+ */
+export function getTaskPriority(task: TaskNode): TaskPriority | undefined {
+  return getTaskMetadata(task).priority;
+}
+
+/**
+ * Rank a task by priority for sorting; tasks without a priority rank as medium
+ * @param task The task
+ * @returns 0 for critical up to 3 for low
+ */
+export function getPriorityRank(task: TaskNode): number {
+  return TASK_PRIORITIES.indexOf(getTaskPriority(task) ?? 'medium');
+}
+
+/**
+ * Update a task's metadata tokens in place
+ * Replaced tokens are removed from where they were and written at the end of the text, before any progress suffix
+ * @param task The task to update
+ * @param update The fields to change
+ */
+export function updateTaskMetadata(task: TaskNode, update: TaskMetadataUpdate): void {
+  // A progress suffix stays last
+  const progress = getWrittenProgress(task);
+  let text = stripTaskProgress(task.text);
+  const tokens: string[] = [];
+  
+  if (update.priority !== undefined) {
+    text = removeTokens(text, PRIORITY_TOKEN);
+    if (update.priority !== null) tokens.push(`!${update.priority}`);
+  }
+  if (update.estimate !== undefined) {
+    text = removeTokens(text, ESTIMATE_TOKEN);
+    if (update.estimate !== null) tokens.push(`~${update.estimate.replace(/^~/, '')}`);
+  }
+  if (update.tags !== undefined) {
+    text = removeTokens(text, TAG_TOKEN);
+    tokens.push(...unique(update.tags.map(tag => tag.replace(/^#/, ''))).map(tag => `#${tag}`));
+  }
+  if (update.owners !== undefined) {
+    text = removeTokens(text, OWNER_TOKEN);
+    tokens.push(...unique(update.owners.map(owner => owner.replace(/^@/, ''))).map(owner => `@${owner}`));
+  }
+  if (update.due !== undefined) {
+    text = removeTokens(text, DUE_TOKEN);
+    if (update.due !== null) tokens.push(`due:${update.due}`);
+  }
+  if (update.completed !== undefined) {
+    text = removeTokens(text, COMPLETED_TOKEN);
+    if (update.completed !== null) tokens.push(`done:${update.completed}`);
+  }
+  
+  task.text = [text.trim(), ...tokens].filter(Boolean).join(' ');
+  if (progress) {
+    setWrittenProgress(task, progress);
+  }
+}
+
+/**
+ * Get a task's text without metadata tokens, a dependency clause or a progress suffix
+ * @param task The task
+ * @returns The plain task title
+ */
+export function getTaskTitle(task: TaskNode): string {
+  return stripTaskMetadata(task.text);
+}
+
+/**
+ * Remove metadata tokens, a dependency clause and a progress suffix from a task text
+ * @param text The task text
+ * @returns The plain title
+ */
+export function stripTaskMetadata(text: string): string {
+  return [PRIORITY_TOKEN, ESTIMATE_TOKEN, TAG_TOKEN, OWNER_TOKEN, DUE_TOKEN, COMPLETED_TOKEN]
+    .reduce((remaining, token) => removeTokens(remaining, token), stripTaskProgress(text))
+    .replace(/\s*\(\s*after:[^)]*\)/i, '')
+    .trim();
+}
+
+/**
+ * Remove a completion date from a task text, so a task matches the same text before and after it is checked off
+ * @param text The task text
+ * @returns The text without `done:` tokens
+ */
+export function stripCompletionDate(text: string): string {
+  return removeTokens(text, COMPLETED_TOKEN).trim();
+}
+
+/**
+ * Parse an estimate into minutes
+ * @param estimate An estimate such as `3h`, `90m`, `2d` or `1.5w`, with or without a leading `~`
+ * @returns The minutes, or undefined if the estimate is not valid
+ */
+export function parseEstimate(estimate: string): number | undefined {
+  const match = estimate.trim().match(/^~?(\d+(?:\.\d+)?)(m|min|h|d|w)$/i);
+  return match ? Math.round(parseFloat(match[1]) * MINUTES_PER_UNIT[match[2].toLowerCase()]) : undefined;
+}
+
+/**
+ * Format minutes as working time
+ * @param minutes The duration
+ * @returns For example "1d 2h 30m"
+ */
+export function formatEstimate(minutes: number): string {
+  const days = Math.floor(minutes / MINUTES_PER_UNIT.d);
+  const hours = Math.floor((minutes % MINUTES_PER_UNIT.d) / 60);
+  const rest = minutes % 60;
+  const parts = [days ? `${days}d` : '', hours ? `${hours}h` : '', rest ? `${rest}m` : ''].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : '0m';
+}
+
+/**
+ * Check that a string is a real calendar date in YYYY-MM-DD form
+ * @param value The string
+ * @returns True for dates such as 2026-11-01
+ */
+export function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Get today's date in the server's time zone
+ * @returns The date as YYYY-MM-DD
+ */
+export function getToday(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * Move a date by a number of days
+ * @param date The date as YYYY-MM-DD
+ * @param days The days to add; negative to go back
+ * @returns The new date as YYYY-MM-DD
+ */
+export function addDays(date: string, days: number): string {
+  const moved = new Date(`${date}T00:00:00Z`);
+  moved.setUTCDate(moved.getUTCDate() + days);
+  return moved.toISOString().slice(0, 10);
+}
+
+/**
+ * Remove every match of a token pattern from a text
+ * @param text The text
+ * @param token The token pattern
+ * @returns The text without the tokens
+ */
+function removeTokens(text: string, token: RegExp): string {
+  return text.replace(token, '$1').replace(/[ \t]{2,}/g, ' ');
+}
+
+/**
+ * Remove duplicates from a list, ignoring case and keeping the first spelling
+ * @param values The values
+ * @returns The values without later duplicates
+ */
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
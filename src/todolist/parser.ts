@@ -0,0 +1,207 @@
+/**
+ * Todolist Parser
+ * Parses a markdown todolist into its syntax tree
+ */
+
+import { TodolistDocument, TodolistNode, TextNode, TaskNode, SectionNode, LineEnding } from './types.js';
+
+/**
+ * A checklist item: indent, marker, spacing, mark, spacing, text with an optional trailing HTML comment
+ */
+const TASK_LINE = /^([ \t]*)([-*+]|\d{1,9}[.)])([ \t]+)\[([ xX~!-])\](?:([ \t]+)(.*?))?((?:[ \t]*<!--.*?-->)?[ \t]*)$/;
+
+/**
+ * An ATX heading
+ */
+const HEADING_LINE = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+
+/**
+ * The opening or closing line of a fenced code block
+ */
+const FENCE_LINE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Parse a markdown todolist
+ * @param content The todolist content
+ * @returns The syntax tree; serializing it unchanged gives back `content`
+ */
+export function parseTodolist(content: string): TodolistDocument {
+  const finalNewline = content.endsWith('\n');
+  const pieces = content.split('\n');
+  if (finalNewline) {
+    pieces.pop();
+  }
+  
+  // Each line keeps its own ending; the last line has none unless the content ends with one
+  const endings: Array<LineEnding | undefined> = pieces.map((piece, index) =>
+    index < pieces.length - 1 || finalNewline ? (piece.endsWith('\r') ? '\r\n' : '\n') : undefined);
+  const lines = pieces.map((piece, index) => (endings[index] === '\r\n' ? piece.slice(0, -1) : piece));
+  const crlfCount = endings.filter(ending => ending === '\r\n').length;
+  const lineEnding: LineEnding = crlfCount > endings.filter(ending => ending === '\n').length ? '\r\n' : '\n';
+  
+  const document: TodolistDocument = {
+    frontMatter: [],
+    metadata: {},
+    children: [],
+    sections: [],
+    lineEnding,
+    finalNewline
+  };
+  
+  let index = 0;
+  
+  // Front matter: a `---` block on the very first line
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end > 0) {
+      document.frontMatter = lines.slice(0, end + 1).map((raw, line) => keepLineEnding({ type: 'text', raw, line: line + 1 }));
+      for (const line of lines.slice(1, end)) {
+        const field = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+        if (field) {
+          document.metadata[field[1]] = field[2].trim();
+        }
+      }
+      index = end + 1;
+    }
+  }
+  
+  // Open sections from outermost to innermost, and open tasks from outermost to innermost
+  const sectionStack: SectionNode[] = [];
+  let taskStack: TaskNode[] = [];
+  // Blank lines wait until the next line shows which container they belong to
+  let pendingBlanks: TodolistNode[] = [];
+  let fence: string | null = null;
+  
+  const currentBlock = (): TodolistNode[] =>
+    sectionStack.length > 0 ? sectionStack[sectionStack.length - 1].children : document.children;
+  
+  const flushBlanks = (into: TodolistNode[]) => {
+    into.push(...pendingBlanks);
+    pendingBlanks = [];
+  };
+  
+  // Close the open tasks that a line with this indent is not nested under
+  const closeTasks = (indentWidth: number) => {
+    while (taskStack.length > 0 && measureIndent(taskStack[taskStack.length - 1].indent) >= indentWidth) {
+      taskStack.pop();
+    }
+  };
+  
+  for (; index < lines.length; index++) {
+    const raw = lines[index];
+    const line = index + 1;
+    
+    // Inside a fenced code block every line is text
+    if (fence !== null) {
+      appendText(raw, line);
+      if (raw.trim().startsWith(fence)) {
+        fence = null;
+      }
+      continue;
+    }
+    
+    if (raw.trim() === '') {
+      pendingBlanks.push(keepLineEnding({ type: 'text', raw, line }));
+      continue;
+    }
+    
+    const heading = raw.match(HEADING_LINE);
+    if (heading) {
+      const level = heading[1].length;
+      const section: SectionNode = keepLineEnding({
+        type: 'section',
+        level,
+        title: (heading[2] || '').trim(),
+        raw,
+        children: [],
+        sections: [],
+        line
+      });
+      
+      // Blank lines before a heading end the previous block
+      flushBlanks(currentBlock());
+      taskStack = [];
+      
+      while (sectionStack.length > 0 && sectionStack[sectionStack.length - 1].level >= level) {
+        sectionStack.pop();
+      }
+      const siblings = sectionStack.length > 0 ? sectionStack[sectionStack.length - 1].sections : document.sections;
+      siblings.push(section);
+      sectionStack.push(section);
+      continue;
+    }
+    
+    const taskMatch = raw.match(TASK_LINE);
+    if (taskMatch) {
+      const task: TaskNode = keepLineEnding({
+        type: 'task',
+        indent: taskMatch[1],
+        marker: taskMatch[2],
+        markerSpacing: taskMatch[3],
+        mark: taskMatch[4],
+        textSpacing: taskMatch[5] || '',
+        text: taskMatch[6] || '',
+        trailing: taskMatch[7] || '',
+        children: [],
+        line
+      });
+      
+      closeTasks(measureIndent(task.indent));
+      const container = taskStack.length > 0 ? taskStack[taskStack.length - 1].children : currentBlock();
+      flushBlanks(container);
+      container.push(task);
+      taskStack.push(task);
+      continue;
+    }
+    
+    appendText(raw, line);
+    
+    const fenceMatch = raw.match(FENCE_LINE);
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+    }
+  }
+  
+  flushBlanks(currentBlock());
+  return document;
+  
+  /**
+   * Add a text line to the innermost task it is indented under, or to the current block
+   * @param raw The line
+   * @param line The 1-based line number
+   */
+  function appendText(raw: string, line: number): void {
+    if (fence === null) {
+      closeTasks(measureIndent(raw.match(/^[ \t]*/)![0]));
+    }
+    const container = taskStack.length > 0 ? taskStack[taskStack.length - 1].children : currentBlock();
+    flushBlanks(container);
+    container.push(keepLineEnding({ type: 'text', raw, line }));
+  }
+  
+  /**
+   * Give a node its line's ending, if that differs from the document's
+   * @param node The node of a source line
+   * @returns The node
+   */
+  function keepLineEnding<T extends TextNode | TaskNode | SectionNode>(node: T): T {
+    const ending = endings[node.line - 1];
+    if (ending && ending !== lineEnding) {
+      node.lineEnding = ending;
+    }
+    return node;
+  }
+}
+
+/**
+ * Measure an indent in columns, counting a tab as four
+ * @param indent Leading whitespace
+ * @returns The width in columns
+ */
+export function measureIndent(indent: string): number {
+  let width = 0;
+  for (const character of indent) {
+    width += character === '\t' ? 4 - (width % 4) : 1;
+  }
+  return width;
+}
@@ -0,0 +1,40 @@
+/**
+ * Task Progress
+ * Reads and writes the `(3/5)` suffix that shows how many of a parent task's subtasks are done
+ */
+
+import { TaskNode } from './types.js';
+
+/**
+ * A progress suffix at the end of a task's text
+ */
+const PROGRESS_SUFFIX = /[ \t]*\((\d+)\/(\d+)\)$/;
+
+/**
+ * Remove a progress suffix from a task text
+ * @param text The task text
+ * @returns The text without a trailing `(3/5)`
+ */
+export function stripTaskProgress(text: string): string {
+  return text.replace(PROGRESS_SUFFIX, '');
+}
+
+/**
+ * Read the progress suffix written on a task
+ * @param task The task
+ * @returns The done and total counts as written, or undefined if the task has no suffix
+ */
+export function getWrittenProgress(task: TaskNode): { done: number; total: number } | undefined {
+  const match = task.text.match(PROGRESS_SUFFIX);
+  return match ? { done: parseInt(match[1], 10), total: parseInt(match[2], 10) } : undefined;
+}
+
+/**
+ * Write or remove a task's progress suffix
+ * @param task The task to update in place
+ * @param progress The counts to show, or undefined to remove the suffix
+ */
+export function setWrittenProgress(task: TaskNode, progress: { done: number; total: number } | undefined): void {
+  const text = stripTaskProgress(task.text);
+  task.text = progress ? `${text}${text ? ' ' : ''}(${progress.done}/${progress.total})` : text;
+}
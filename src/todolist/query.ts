@@ -0,0 +1,174 @@
+/**
+ * Todolist Queries
+ * Finds and updates tasks in a parsed todolist
+ */
+
+import { TodolistDocument, TodolistNode, TaskNode, SectionNode, TaskEntry } from './types.js';
+import { getTaskStatus, setTaskStatus, isTaskActionable, TASK_STATUSES, TaskStatus } from './status.js';
+import { stripTaskProgress } from './progress.js';
+import { stripCompletionDate } from './metadata.js';
+
+/**
+ * List every task in document order, with its section, parent and depth
+ * @param document The todolist
+ * @returns The tasks, parents before their subtasks
+ */
+export function listTasks(document: TodolistDocument): TaskEntry[] {
+  const entries: TaskEntry[] = [];
+  
+  const visitNodes = (nodes: TodolistNode[], section: SectionNode | undefined, parent: TaskNode | undefined, depth: number) => {
+    for (const node of nodes) {
+      if (node.type === 'task') {
+        entries.push({ task: node, section, parent, depth });
+        visitNodes(node.children, section, node, depth + 1);
+      }
+    }
+  };
+  
+  const visitSection = (section: SectionNode) => {
+    visitNodes(section.children, section, undefined, 0);
+    section.sections.forEach(visitSection);
+  };
+  
+  visitNodes(document.children, undefined, undefined, 0);
+  document.sections.forEach(visitSection);
+  return entries;
+}
+
+/**
+ * List every section in document order, outer sections before the sections they contain
+ * @param document The todolist
+ * @returns The sections
+ */
+export function listSections(document: TodolistDocument): SectionNode[] {
+  const sections: SectionNode[] = [];
+  
+  const visit = (section: SectionNode) => {
+    sections.push(section);
+    section.sections.forEach(visit);
+  };
+  
+  document.sections.forEach(visit);
+  return sections;
+}
+
+/**
+ * Map each section to the headings above it, outermost first
+ * @param document The todolist
+ * @returns The heading path of each section, ending with its own title
+ */
+export function getSectionPaths(document: TodolistDocument): Map<SectionNode, string[]> {
+  const paths = new Map<SectionNode, string[]>();
+  const visit = (section: SectionNode, above: string[]) => {
+    const sectionPath = [...above, section.title];
+    paths.set(section, sectionPath);
+    section.sections.forEach(child => visit(child, sectionPath));
+  };
+  document.sections.forEach(section => visit(section, []));
+  return paths;
+}
+
+/**
+ * Get the document title: the text of its first level-1 heading
+ * @param document The todolist
+ * @returns The title, or undefined if the list has none
+ */
+export function getTodolistTitle(document: TodolistDocument): string | undefined {
+  return listSections(document).find(section => section.level === 1)?.title;
+}
+
+/**
+ * Check whether a task is checked off
+ * @param task The task
+ * @returns True for `[x]` and `[X]`
+ */
+export function isTaskChecked(task: TaskNode): boolean {
+  return task.mark === 'x' || task.mark === 'X';
+}
+
+/**
+ * Check or uncheck a task
+ * @param task The task to update in place
+ * @param checked Whether the task is done
+ */
+export function setTaskChecked(task: TaskNode, checked: boolean): void {
+  setTaskStatus(task, checked ? 'done' : 'open');
+}
+
+/**
+ * Get a task's direct subtasks
+ * @param task The task
+ * @returns The subtasks in document order
+ */
+export function getSubtasks(task: TaskNode): TaskNode[] {
+  return task.children.filter((node): node is TaskNode => node.type === 'task');
+}
+
+/**
+ * Get a task's notes: the text lines directly under it, without blank lines or indentation
+ * @param task The task
+ * @returns The note lines
+ */
+export function getTaskNotes(task: TaskNode): string[] {
+  return task.children
+    .filter(node => node.type === 'text' && node.raw.trim() !== '')
+    .map(node => (node.type === 'text' ? node.raw.trim() : ''));
+}
+
+/**
+ * Find the tasks whose text matches exactly, ignoring surrounding whitespace, a `(3/5)` progress suffix and a completion date
+ * @param document The todolist
+ * @param text The task text
+ * @returns The matching tasks in document order
+ */
+export function findTasksByText(document: TodolistDocument, text: string): TaskEntry[] {
+  const comparable = (value: string) => stripCompletionDate(stripTaskProgress(value.trim()));
+  const wanted = comparable(text);
+  return listTasks(document).filter(entry => comparable(entry.task.text) === wanted);
+}
+
+/**
+ * Count the tasks in a todolist
+ * @param document The todolist
+ * @returns The number of tasks and how many are checked
+ */
+export function countTasks(document: TodolistDocument): { total: number; checked: number } {
+  const tasks = listTasks(document);
+  return { total: tasks.length, checked: tasks.filter(entry => isTaskChecked(entry.task)).length };
+}
+
+/**
+ * Count the tasks in each state
+ * @param document The todolist
+ * @returns The number of tasks per state
+ */
+export function countTasksByStatus(document: TodolistDocument): Record<TaskStatus, number> {
+  const counts = Object.fromEntries(TASK_STATUSES.map(status => [status, 0])) as Record<TaskStatus, number>;
+  for (const entry of listTasks(document)) {
+    counts[getTaskStatus(entry.task)]++;
+  }
+  return counts;
+}
+
+/**
+ * Explain why a task text does not name an open task of the todolist
+ * @param document The todolist
+ * @param text The task text
+ * @returns A sentence for the caller, or undefined when the text matches an open or in-progress task
+ */
+export function describeTaskMismatch(document: TodolistDocument, text: string): string | undefined {
+  const matches = findTasksByText(document, text);
+  if (matches.length === 0) {
+    return `"${text.trim()}" is not a task in the todolist.`;
+  }
+  if (matches.some(entry => isTaskActionable(entry.task))) {
+    return undefined;
+  }
+  if (matches.every(entry => isTaskChecked(entry.task))) {
+    return `"${text.trim()}" is already complete in the todolist.`;
+  }
+  if (matches.some(entry => getTaskStatus(entry.task) === 'blocked')) {
+    return `"${text.trim()}" is blocked in the todolist. Unblock it with set_task_status first.`;
+  }
+  return `"${text.trim()}" was cancelled in the todolist.`;
+}
@@ -0,0 +1,201 @@
+/**
+ * Task References
+ * Resolves the `task` and `task_id` arguments of the workflow tools to tasks in a todolist
+ *
+ * A task text is tried against the todolist in steps, stopping at the first that finds something: the exact
+ * text, the text without metadata, case or punctuation, and then similar text (shared words or few typos).
+ * A similar text only counts when one task is clearly closer than the rest and has every word of the text,
+ * allowing for typos, so a changed word (login, logout) never names another task; otherwise the closest tasks
+ * are returned for the caller to choose from. A text shaped like an ID is tried as an ID first.
+ */
+
+import { TodolistDocument, TaskEntry } from './types.js';
+import { listTasks, findTasksByText } from './query.js';
+import { findTaskById, isTaskId, getTaskId } from './ids.js';
+import { stripTaskMetadata } from './metadata.js';
+import { normalizeTitle, normalizeTaskTitle, getTitleSimilarity, getEditSimilarity } from './match.js';
+
+/**
+ * How similar a text must be to a task's, from 0 to 1, to name it
+ */
+const FUZZY_THRESHOLD = 0.6;
+
+/**
+ * How similar two words must be, from 0 to 1, to count as the same word with a typo
+ */
+const TYPO_THRESHOLD = 0.75;
+
+/**
+ * How far ahead of the next task the closest one must be for a similar text to name it
+ */
+const AMBIGUITY_MARGIN = 0.1;
+
+/**
+ * How similar a task must be to be suggested when nothing matches
+ */
+const SUGGESTION_THRESHOLD = 0.3;
+
+/**
+ * The most tasks suggested or offered as choices
+ */
+const MAX_CANDIDATES = 5;
+
+/**
+ * Short words that paraphrases add or drop without changing the task
+ */
+const FILLER_WORDS = new Set(['a', 'an', 'the', 'and', 'for', 'of', 'to', 'in', 'on', 'with', 'task']);
+
+/**
+ * How a task reference found its tasks
+ */
+export type TaskMatchKind = 'id' | 'exact' | 'normalized' | 'fuzzy';
+
+/**
+ * A task that may be the one a reference means
+ */
+export interface TaskCandidate {
+  entry: TaskEntry;
+  // Similarity to the reference, from 0 to 1
+  score: number;
+}
+
+/**
+ * A task named by a tool's arguments
+ */
+export interface ResolvedTask {
+  // The task text to work with: the matched task's text when it was found by ID or by similar text
+  text: string;
+  // The tasks the reference names: the one task with the ID, every task with the text, or the one similar task
+  matches: TaskEntry[];
+  // How the matches were found; undefined when there are none
+  matchedBy?: TaskMatchKind;
+  // With no matches: the closest tasks, best first
+  candidates: TaskCandidate[];
+  // Whether several tasks are similar enough that the reference could mean any of them
+  ambiguous: boolean;
+}
+
+/**
+ * Resolve a task given by ID or by text; an ID takes precedence
+ * @param document The todolist
+ * @param task The task text, or an ID given as the text
+ * @param taskId The task ID, if given
+ * @returns The task text and matching tasks, or an error message when the reference cannot be used
+ */
+export function resolveTaskReference(document: TodolistDocument, task?: string, taskId?: string): ResolvedTask | { error: string } {
+  if (taskId?.trim()) {
+    const id = taskId.trim();
+    if (!isTaskId(id)) {
+      return { error: `"${id}" is not a task ID. IDs look like T-014.` };
+    }
+    
+    const entry = findTaskById(document, id);
+    if (!entry) {
+      return { error: `No task has the ID ${id}. Use assign_task_ids to give the todolist's tasks IDs.` };
+    }
+    return { text: entry.task.text.trim(), matches: [entry], matchedBy: 'id', candidates: [], ambiguous: false };
+  }
+  
+  // An ID given as the text; a task whose text merely looks like an ID is still found by its text
+  const byId = task && isTaskId(task) ? findTaskById(document, task.trim()) : undefined;
+  if (byId) {
+    return { text: byId.task.text.trim(), matches: [byId], matchedBy: 'id', candidates: [], ambiguous: false };
+  }
+  
+  if (!task?.trim()) {
+    return { error: 'Either task or task_id is required.' };
+  }
+  
+  // Clients often quote the whole line, checkbox and ID comment included
+  const text = task.trim().replace(/^(?:[-*+]|\d+[.)])\s*\[.\]\s*/, '').replace(/\s*<!--.*?-->\s*$/, '');
+  
+  const exact = findTasksByText(document, text);
+  if (exact.length > 0) {
+    return { text, matches: exact, matchedBy: 'exact', candidates: [], ambiguous: false };
+  }
+  
+  const entries = listTasks(document);
+  const wanted = normalizeTitle(stripTaskMetadata(text));
+  const normalized = entries.filter(entry => normalizeTaskTitle(entry.task) === wanted);
+  if (normalized.length > 0) {
+    return { text: normalized[0].task.text.trim(), matches: normalized, matchedBy: 'normalized', candidates: [], ambiguous: false };
+  }
+  
+  const ranked = entries
+    .map(entry => ({ entry, score: scoreTitle(wanted, normalizeTaskTitle(entry.task)) }))
+    .sort((a, b) => b.score - a.score);
+  const [best, second] = ranked;
+  const similar = !!best && best.score >= FUZZY_THRESHOLD;
+  const ambiguous = similar && !!second && best.score - second.score < AMBIGUITY_MARGIN;
+  if (similar && !ambiguous && hasWords(normalizeTaskTitle(best.entry.task), wanted)) {
+    return { text: best.entry.task.text.trim(), matches: [best.entry], matchedBy: 'fuzzy', candidates: [], ambiguous: false };
+  }
+  
+  const candidates = ranked
+    .filter(candidate => candidate.score >= (ambiguous ? best.score - AMBIGUITY_MARGIN : SUGGESTION_THRESHOLD))
+    .slice(0, MAX_CANDIDATES);
+  return { text, matches: [], candidates, ambiguous };
+}
+
+/**
+ * Explain a reference that matched no task, listing the closest tasks
+ * @param resolved The resolved reference, with no matches
+ * @returns A message for the caller
+ */
+export function describeUnresolvedTask(resolved: ResolvedTask): string {
+  const choices = resolved.candidates.map(({ entry, score }) =>
+    `- [${entry.task.mark}] ${entry.task.text.trim()} (${getTaskId(entry.task) ?? `line ${entry.task.line}`}, ${Math.round(score * 100)}% similar)`);
+  if (resolved.ambiguous) {
+    return `"${resolved.text}" is similar to ${choices.length} tasks:\n${choices.join('\n')}\n\nGive task_id or the exact text to choose one.`;
+  }
+  if (choices.length > 0) {
+    return `Could not find task "${resolved.text}" in the todolist. The closest tasks are:\n${choices.join('\n')}`;
+  }
+  return `Could not find task "${resolved.text}" in the todolist.`;
+}
+
+/**
+ * Say how a reference was matched when it was not matched exactly
+ * @param resolved The resolved reference
+ * @param task The task text as given
+ * @returns A sentence for the caller, or an empty string for ID and exact matches
+ */
+export function describeTaskMatch(resolved: ResolvedTask, task?: string): string {
+  if (resolved.matchedBy === 'fuzzy') {
+    return `"${task?.trim()}" was matched by similar text.`;
+  }
+  if (resolved.matchedBy === 'normalized') {
+    return `"${task?.trim()}" was matched ignoring case, punctuation and metadata.`;
+  }
+  return '';
+}
+
+/**
+ * Score how similar a wanted title is to a task's
+ * @param wanted The normalized title given
+ * @param title The task's normalized title
+ * @returns The better of the word overlap, ignoring filler words, and the letter-by-letter similarity
+ */
+function scoreTitle(wanted: string, title: string): number {
+  return Math.max(getTitleSimilarity(contentWords(wanted).join(' '), contentWords(title).join(' ')), getEditSimilarity(wanted, title));
+}
+
+/**
+ * Check that a task's title has every word of a wanted title, allowing for typos
+ * @param title The task's normalized title
+ * @param wanted The normalized title given
+ * @returns True if each word of `wanted` other than filler words is in `title`, or differs from one of its words by a typo
+ */
+function hasWords(title: string, wanted: string): boolean {
+  const words = contentWords(title);
+  return contentWords(wanted).every(word => words.some(other => getEditSimilarity(word, other) >= TYPO_THRESHOLD));
+}
+
+/**
+ * Split a normalized title into its words, leaving out filler words
+ * @param title The normalized title
+ * @returns The words
+ */
+function contentWords(title: string): string[] {
+  return title.split(' ').filter(word => word && !FILLER_WORDS.has(word));
+}
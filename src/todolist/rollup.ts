@@ -0,0 +1,95 @@
+/**
+ * Subtask Roll-up
+ * Connects parent tasks to their subtasks: parents are checked once every subtask is done, and show their progress
+ *
+ * Cancelled subtasks do not count. A parent is checked automatically only while it is open or in progress;
+ * a blocked parent stays blocked until someone unblocks it.
+ */
+
+import { TodolistDocument, TaskNode } from './types.js';
+import { listTasks, getSubtasks, isTaskChecked } from './query.js';
+import { getTaskStatus, isTaskActionable, isTaskResolved, setTaskStatus } from './status.js';
+import { setWrittenProgress } from './progress.js';
+
+/**
+ * Count a task's subtasks that are done
+ * @param task The task
+ * @returns The done and total counts of its direct subtasks, leaving out cancelled ones, or undefined if none count
+ */
+export function getTaskProgress(task: TaskNode): { done: number; total: number } | undefined {
+  const counted = getSubtasks(task).filter(subtask => getTaskStatus(subtask) !== 'cancelled');
+  if (counted.length === 0) {
+    return undefined;
+  }
+  return { done: counted.filter(isTaskChecked).length, total: counted.length };
+}
+
+/**
+ * List the unfinished subtasks under a task, at any depth
+ * @param task The task
+ * @returns The subtasks that are neither done nor cancelled, in document order
+ */
+export function getOpenSubtasks(task: TaskNode): TaskNode[] {
+  return getSubtasks(task).flatMap(subtask => [
+    ...(isTaskResolved(subtask) ? [] : [subtask]),
+    ...getOpenSubtasks(subtask)
+  ]);
+}
+
+/**
+ * Check the parents whose subtasks are all done, then refresh every parent's progress suffix
+ * Call after every change to a todolist's tasks
+ * @param document The todolist to update in place
+ * @param changed The tasks that were changed; only their ancestors are checked automatically. Omit to check any parent.
+ * @returns The parents that were checked, innermost first
+ */
+export function rollUpTasks(document: TodolistDocument, changed?: TaskNode[]): TaskNode[] {
+  const entries = listTasks(document);
+  const completed: TaskNode[] = [];
+  
+  // The parents that may be checked: every parent, or the ancestors of the changed tasks
+  let candidates: Set<TaskNode> | undefined;
+  if (changed) {
+    const parents = new Map(entries.map(entry => [entry.task, entry.parent]));
+    candidates = new Set();
+    for (const task of changed) {
+      for (let parent = parents.get(task); parent; parent = parents.get(parent)) {
+        candidates.add(parent);
+      }
+    }
+  }
+  
+  // Subtasks come after their parent, so walking backwards settles each level before its parent
+  for (const { task } of entries.reverse()) {
+    const progress = getTaskProgress(task);
+    if (progress && progress.done === progress.total && isTaskActionable(task) && (!candidates || candidates.has(task))) {
+      setTaskStatus(task, 'done');
+      completed.push(task);
+    }
+    
+    // Leave tasks without subtasks alone: a suffix there was written by a person
+    if (getSubtasks(task).length > 0) {
+      setWrittenProgress(task, progress);
+    }
+  }
+  
+  return completed;
+}
+
+/**
+ * Roll up a todolist after a task was taken out from under its parent, by removing or moving it
+ * The former parent is checked if its remaining subtasks are all done, and drops its progress suffix if none remain
+ * @param document The todolist to update in place
+ * @param formerParent The parent the task was under, if it had one
+ * @param changed Other tasks that were changed, such as the moved task in its new place
+ * @returns The parents that were checked, innermost first
+ */
+export function rollUpRemovedTask(document: TodolistDocument, formerParent: TaskNode | undefined, changed: TaskNode[] = []): TaskNode[] {
+  const remaining = formerParent ? getSubtasks(formerParent) : [];
+  if (formerParent && remaining.length === 0) {
+    setWrittenProgress(formerParent, undefined);
+  }
+  
+  // The remaining subtasks stand in for the one taken out, whose ancestors can no longer be found
+  return rollUpTasks(document, [...changed, ...remaining]);
+}
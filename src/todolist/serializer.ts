@@ -0,0 +1,85 @@
+/**
+ * Todolist Serializer
+ * Writes a todolist syntax tree back to markdown
+ */
+
+import { TodolistDocument, TodolistNode, TaskNode, SectionNode, LineEnding } from './types.js';
+
+/**
+ * An output line with its own line ending, if it has one
+ */
+interface OutputLine {
+  text: string;
+  lineEnding?: LineEnding;
+}
+
+/**
+ * Serialize a todolist
+ * @param document The syntax tree
+ * @returns The markdown; identical to the parsed source if nothing was changed
+ */
+export function serializeTodolist(document: TodolistDocument): string {
+  const lines: OutputLine[] = [];
+  
+  writeNodes(document.frontMatter, lines);
+  writeNodes(document.children, lines);
+  for (const section of document.sections) {
+    writeSection(section, lines);
+  }
+  
+  // Lines end as they did in the source; lines without their own ending take the document's
+  return lines
+    .map(({ text, lineEnding = document.lineEnding }, index) =>
+      (index < lines.length - 1 || document.finalNewline ? text + lineEnding : text))
+    .join('');
+}
+
+/**
+ * Render the line of a task
+ * @param task The task
+ * @returns The task line without its notes and subtasks
+ */
+export function renderTaskLine(task: TaskNode): string {
+  const text = task.text ? `${task.textSpacing || ' '}${task.text}` : task.textSpacing;
+  return `${task.indent}${task.marker}${task.markerSpacing}[${task.mark}]${text}${task.trailing}`;
+}
+
+/**
+ * Serialize a task with its notes and subtasks
+ * @param task The task
+ * @returns The task's lines joined with newlines
+ */
+export function serializeTask(task: TaskNode): string {
+  const lines: OutputLine[] = [];
+  writeNodes([task], lines);
+  return lines.map(line => line.text).join('\n');
+}
+
+/**
+ * Append a section's lines
+ * @param section The section
+ * @param lines The output lines
+ */
+function writeSection(section: SectionNode, lines: OutputLine[]): void {
+  lines.push({ text: section.raw, lineEnding: section.lineEnding });
+  writeNodes(section.children, lines);
+  for (const subsection of section.sections) {
+    writeSection(subsection, lines);
+  }
+}
+
+/**
+ * Append the lines of tasks and text, including nested tasks
+ * @param nodes The nodes
+ * @param lines The output lines
+ */
+function writeNodes(nodes: TodolistNode[], lines: OutputLine[]): void {
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      lines.push({ text: node.raw, lineEnding: node.lineEnding });
+    } else {
+      lines.push({ text: renderTaskLine(node), lineEnding: node.lineEnding });
+      writeNodes(node.children, lines);
+    }
+  }
+}
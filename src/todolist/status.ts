@@ -0,0 +1,182 @@
+/**
+ * Task Status
+ * The states a task can be in, written as the character between its brackets
+ *
+ * `[ ]` open, `[~]` in progress, `[!]` blocked, `[-]` cancelled and `[x]` done. A reason for a change of
+ * state is kept as a dated note indented under the task, e.g. `Blocked (2026-10-19): waiting for API keys`.
+ */
+
+import { TaskNode } from './types.js';
+import { getToday, getTaskMetadata, updateTaskMetadata } from './metadata.js';
+
+/**
+ * Task states
+ */
+export const TASK_STATUSES = ['open', 'in_progress', 'blocked', 'cancelled', 'done'] as const;
+
+/**
+ * A task state
+ */
+export type TaskStatus = typeof TASK_STATUSES[number];
+
+/**
+ * The mark written for each state
+ */
+const STATUS_MARKS: Record<TaskStatus, string> = {
+  open: ' ',
+  in_progress: '~',
+  blocked: '!',
+  cancelled: '-',
+  done: 'x'
+};
+
+/**
+ * The label that starts a reason note for each state
+ */
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  open: 'Reopened',
+  in_progress: 'Started',
+  blocked: 'Blocked',
+  cancelled: 'Cancelled',
+  done: 'Done'
+};
+
+/**
+ * The states each state can move to; finished tasks must be reopened before they are blocked, cancelled or completed again
+ */
+const STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  open: ['in_progress', 'blocked', 'cancelled', 'done'],
+  in_progress: ['open', 'blocked', 'cancelled', 'done'],
+  blocked: ['open', 'in_progress', 'cancelled', 'done'],
+  cancelled: ['open', 'in_progress'],
+  done: ['open', 'in_progress']
+};
+
+/**
+ * A dated reason note: label, date and reason
+ */
+const REASON_NOTE = /^(Reopened|Started|Blocked|Cancelled|Done) \((\d{4}-\d{2}-\d{2})\): (.*)$/;
+
+/**
+ * Get a task's state
+ * @param task The task
+ * @returns The state for the task's mark
+ */
+export function getTaskStatus(task: TaskNode): TaskStatus {
+  switch (task.mark) {
+    case 'x':
+    case 'X':
+      return 'done';
+    case '~':
+      return 'in_progress';
+    case '!':
+      return 'blocked';
+    case '-':
+      return 'cancelled';
+    default:
+      return 'open';
+  }
+}
+
+/**
+ * Set a task's state, recording today as the completion date when it becomes done and dropping the date when it stops being done
+ * @param task The task to update in place
+ * @param status The new state
+ */
+export function setTaskStatus(task: TaskNode, status: TaskStatus): void {
+  const wasDone = getTaskStatus(task) === 'done';
+  task.mark = STATUS_MARKS[status];
+  
+  if (status === 'done' && !wasDone && !getTaskMetadata(task).completed) {
+    updateTaskMetadata(task, { completed: getToday() });
+  } else if (status !== 'done' && getTaskMetadata(task).completed) {
+    updateTaskMetadata(task, { completed: null });
+  }
+}
+
+/**
+ * Get the mark written between the brackets for a state
+ * @param status The state
+ * @returns ' ', '~', '!', '-' or 'x'
+ */
+export function getStatusMark(status: TaskStatus): string {
+  return STATUS_MARKS[status];
+}
+
+/**
+ * Check whether a task may move from one state to another
+ * @param from The current state
+ * @param to The new state
+ * @returns True if the change is allowed
+ */
+export function canChangeTaskStatus(from: TaskStatus, to: TaskStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a task still needs work and can be worked on: open or in progress
+ * @param task The task
+ * @returns True for `[ ]` and `[~]`
+ */
+export function isTaskActionable(task: TaskNode): boolean {
+  const status = getTaskStatus(task);
+  return status === 'open' || status === 'in_progress';
+}
+
+/**
+ * Check whether a task needs no more work: done or cancelled
+ * @param task The task
+ * @returns True for `[x]` and `[-]`
+ */
+export function isTaskResolved(task: TaskNode): boolean {
+  const status = getTaskStatus(task);
+  return status === 'done' || status === 'cancelled';
+}
+
+/**
+ * Describe a state for people
+ * @param status The state
+ * @returns For example "in progress"
+ */
+export function formatTaskStatus(status: TaskStatus): string {
+  return status.replace('_', ' ');
+}
+
+/**
+ * Add a dated note explaining a change of state, after the task's existing notes and before its subtasks
+ * @param task The task to update in place
+ * @param status The state the task moved to
+ * @param reason Why
+ */
+export function addStatusNote(task: TaskNode, status: TaskStatus, reason: string): void {
+  const indent = `${task.indent}${' '.repeat(task.marker.length + task.markerSpacing.length)}`;
+  const note = `${indent}${STATUS_LABELS[status]} (${getToday()}): ${reason.trim().replace(/\s+/g, ' ')}`;
+  
+  // Keep the note above the subtasks and above blank lines that separate the task from what follows
+  let position = task.children.findIndex(node => node.type === 'task');
+  if (position === -1) position = task.children.length;
+  while (position > 0) {
+    const node = task.children[position - 1];
+    if (node.type !== 'text' || node.raw.trim() !== '') break;
+    position--;
+  }
+  task.children.splice(position, 0, { type: 'text', raw: note, line: 0 });
+}
+
+/**
+ * Get the reason given when a task last moved to a state
+ * @param task The task
+ * @param status The state
+ * @returns The reason and its date, or undefined if no note gives one
+ */
+export function getStatusReason(task: TaskNode, status: TaskStatus): { reason: string; date: string } | undefined {
+  let found: { reason: string; date: string } | undefined;
+  for (const node of task.children) {
+    if (node.type !== 'text') continue;
+    const match = node.raw.trim().match(REASON_NOTE);
+    if (match && match[1] === STATUS_LABELS[status]) {
+      found = { reason: match[3], date: match[2] };
+    }
+  }
+  return found;
+}
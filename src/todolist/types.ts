@@ -0,0 +1,106 @@
+/**
+ * Todolist Types
+ * The syntax tree of a markdown todolist
+ *
+ * Every source line belongs to exactly one node, and nodes keep the text needed to write their
+ * line back unchanged, so parsing and serializing an untouched document reproduces it byte for byte.
+ */
+
+/**
+ * A line that is neither a heading nor a task: prose, blank lines, code, plain list items
+ * Lines indented under a task are that task's notes
+ */
+export interface TextNode {
+  type: 'text';
+  raw: string;
+  // 1-based line number in the parsed source
+  line: number;
+  // The line's own line ending, when it differs from the document's
+  lineEnding?: LineEnding;
+}
+
+/**
+ * A checklist item, e.g. `  - [x] Write the parser <!-- note -->`
+ * The line is written back as indent + marker + markerSpacing + `[` + mark + `]` + textSpacing + text + trailing
+ */
+export interface TaskNode {
+  type: 'task';
+  // Leading whitespace, which decides nesting
+  indent: string;
+  // The list marker: `-`, `*`, `+`, or a number followed by `.` or `)`
+  marker: string;
+  markerSpacing: string;
+  // The character between the brackets: ' ' open, '~' in progress, '!' blocked, '-' cancelled, 'x' or 'X' done
+  mark: string;
+  textSpacing: string;
+  // The task text, without the trailing comment
+  text: string;
+  // Whitespace and an optional trailing HTML comment after the text
+  trailing: string;
+  // Notes and subtasks indented under this task, in document order
+  children: TodolistNode[];
+  // 1-based line number in the parsed source; 0 for tasks created in memory
+  line: number;
+  // The line's own line ending, when it differs from the document's
+  lineEnding?: LineEnding;
+}
+
+/**
+ * A node that can appear inside a section or a task
+ */
+export type TodolistNode = TaskNode | TextNode;
+
+/**
+ * An ATX heading and everything up to the next heading of the same or a higher level
+ */
+export interface SectionNode {
+  type: 'section';
+  // The number of leading `#` characters
+  level: number;
+  title: string;
+  // The heading line as written
+  raw: string;
+  // Tasks and text directly under the heading
+  children: TodolistNode[];
+  // Headings of a deeper level
+  sections: SectionNode[];
+  line: number;
+  // The heading line's own line ending, when it differs from the document's
+  lineEnding?: LineEnding;
+}
+
+/**
+ * A line ending
+ */
+export type LineEnding = '\n' | '\r\n';
+
+/**
+ * A parsed todolist
+ */
+export interface TodolistDocument {
+  // The lines of a leading `---` front matter block, fences included; empty when there is none
+  frontMatter: TextNode[];
+  // `key: value` pairs from the front matter
+  metadata: Record<string, string>;
+  // Tasks and text before the first heading
+  children: TodolistNode[];
+  // Top-level sections in document order
+  sections: SectionNode[];
+  // The line ending of most lines, used for lines without their own
+  lineEnding: LineEnding;
+  // Whether the source ended with a line ending
+  finalNewline: boolean;
+}
+
+/**
+ * A task together with where it sits in the document
+ */
+export interface TaskEntry {
+  task: TaskNode;
+  // The innermost section containing the task, if any
+  section?: SectionNode;
+  // The task this task is nested under, if any
+  parent?: TaskNode;
+  // 0 for tasks directly in a section, 1 for their subtasks, and so on
+  depth: number;
+}
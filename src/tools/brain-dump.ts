@@ -10,9 +10,24 @@ import path from 'path';
 
 import { ToolRegistration } from './types.js';
 import { ProjectContextManager } from '../context/index.js';
+import { LLMCallContext, PromptEchoError, PromptHandoffError, formatPromptEcho, formatCacheStats } from '../llm/index.js';
+import { createHandoffResponse, registerResumableTool } from './handoff.js';
 import { generateTodolist } from '../utils/llm-utils.js';
 import { fileExists, createFile } from '../utils/file-utils.js';
 import { resolveWorkspacePath, getSanitizedFilename } from '../utils/path-utils.js';
+import { parseTodolist, serializeTodolist, countTasks, assignTaskIds, rollUpTasks } from '../todolist/index.js';
+
+/**
+ * Parameters for the brain_dump_organize tool
+ */
+const brainDumpParameters = z.object({
+  project_description: z.string().describe('Brief description of the project'),
+  unstructured_thoughts: z.string().describe('Unstructured thoughts, ideas, and considerations about the project'),
+  output_file: z.string().optional().describe('Optional file path to save the todolist (default: <project>_todo.md)'),
+  overwrite: z.boolean().optional().describe('Whether to overwrite if file exists (default: false)'),
+  no_cache: z.boolean().optional().describe('If true, call the model even when a cached response exists (default: false)'),
+  workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+});
 
 /**
  * Register the brain_dump_organize tool
@@ -22,57 +37,97 @@ export const registerBrainDumpTool: ToolRegistration = (server: FastMCP) => {
   server.addTool({
     name: 'brain_dump_organize',
     description: 'Transform unstructured thoughts into a structured markdown todolist. Will not overwrite existing files unless overwrite=true.',
-    parameters: z.object({
-      project_description: z.string().describe('Brief description of the project'),
-      unstructured_thoughts: z.string().describe('Unstructured thoughts, ideas, and considerations about the project'),
-      output_file: z.string().optional().describe('Optional file path to save the todolist (default: <project>_todo.md)'),
-      overwrite: z.boolean().optional().describe('Whether to overwrite if file exists (default: false)'),
-      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
-    }),
-    execute: async (args, req) => {
-      try {
-        const { project_description, unstructured_thoughts, overwrite = false, workspace_root } = args;
-        
-        // Validate inputs
-        if (!project_description.trim()) {
-          return 'Error: Project description cannot be empty.';
-        }
-        
-        if (!unstructured_thoughts.trim()) {
-          return 'Error: Unstructured thoughts cannot be empty.';
-        }
-        
-        // Generate a file name based on the project description if not provided
-        const output_file = args.output_file || `${getSanitizedFilename(project_description, '_todo.md')}`;
-        
-        // Resolve the output path
-        const resolvedOutputPath = resolveWorkspacePath(workspace_root, output_file);
-        
-        // Check for file existence
-        if (!overwrite && await fileExists(resolvedOutputPath)) {
-          return `Error: File "${resolvedOutputPath}" already exists. Set overwrite=true to overwrite.`;
-        }
-        
-        // Generate todolist using the IDE's LLM
-        const todolist = await generateTodolist(project_description, unstructured_thoughts);
-        
-        // Ensure the output directory exists and write the file
-        const result = await createFile(resolvedOutputPath, todolist, overwrite);
-        
-        // Set current project context after successful file creation
-        ProjectContextManager.getInstance().setCurrentProject(
-          project_description,
-          path.dirname(resolvedOutputPath)
-        );
-        
-        // Add guidance for LLMs on workspace_root
-        const response = `Successfully created todolist and saved to "${resolvedOutputPath}".\n\n${todolist}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
-        
-        return response;
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return `Error: Failed to create and save todolist - ${errorMessage}`;
-      }
-    },
+    parameters: brainDumpParameters,
+    execute: async (args, req) => brainDumpOrganize(args),
   });
-}; 
\ No newline at end of file
+  
+  // Allow submit_llm_result to finish this tool after a prompt handoff
+  registerResumableTool('brain_dump_organize', brainDumpOrganize);
+};
+
+/**
+ * Create a structured todolist from unstructured thoughts
+ * @param args The tool arguments
+ * @param llmContext Per-invocation LLM context, including answers submitted through submit_llm_result
+ * @returns The tool response
+ */
+async function brainDumpOrganize(args: z.infer<typeof brainDumpParameters>, llmContext: LLMCallContext = {}): Promise<string> {
+  try {
+    const { project_description, unstructured_thoughts, overwrite = false, no_cache = false, workspace_root } = args;
+    
+    // Validate inputs
+    if (!project_description.trim()) {
+      return 'Error: Project description cannot be empty.';
+    }
+    
+    if (!unstructured_thoughts.trim()) {
+      return 'Error: Unstructured thoughts cannot be empty.';
+    }
+    
+    // Generate a file name based on the project description if not provided
+    const output_file = args.output_file || `${getSanitizedFilename(project_description, '_todo.md')}`;
+    
+    // Resolve the output path
+    const resolvedOutputPath = resolveWorkspacePath(workspace_root, output_file);
+    
+    // Check for file existence
+    if (!overwrite && await fileExists(resolvedOutputPath)) {
+      return `Error: File "${resolvedOutputPath}" already exists. Set overwrite=true to overwrite.`;
+    }
+    
+    // Per-invocation LLM context, counting response cache hits and misses
+    const llmCallContext: LLMCallContext = {
+      ...llmContext,
+      workspaceRoot: workspace_root,
+      noCache: no_cache || !!llmContext.noCache,
+      cacheStats: llmContext.cacheStats ?? { hits: 0, misses: 0 }
+    };
+    
+    // Generate todolist using the IDE's LLM
+    const generatedTodolist = await generateTodolist(project_description, unstructured_thoughts, llmCallContext);
+    
+    // A todolist without checklist items is of no use to the other tools
+    const document = parseTodolist(generatedTodolist);
+    const { total } = countTasks(document);
+    if (total === 0) {
+      return `Error: The generated todolist contains no tasks. Nothing was written to "${resolvedOutputPath}".`;
+    }
+    
+    // Give every task a stable ID so later tools can find it after it is reworded
+    assignTaskIds(document);
+    
+    // Show each parent's subtask progress
+    rollUpTasks(document);
+    const todolist = serializeTodolist(document);
+    
+    // Ensure the output directory exists and write the file
+    const result = await createFile(resolvedOutputPath, todolist, overwrite);
+    
+    // Set current project context after successful file creation
+    ProjectContextManager.getInstance().setCurrentProject(
+      project_description,
+      path.dirname(resolvedOutputPath)
+    );
+    
+    // Report response cache use
+    const cacheSummary = formatCacheStats(llmCallContext.cacheStats);
+    
+    // Add guidance for LLMs on workspace_root
+    const response = `Successfully created todolist with ${total} tasks and saved to "${resolvedOutputPath}".\n\n${todolist}${cacheSummary ? `\n\n${cacheSummary}` : ''}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+    
+    return response;
+  } catch (error) {
+    // No model could be called: hand the prompt to the caller to finish via submit_llm_result
+    if (error instanceof PromptHandoffError) {
+      return await createHandoffResponse('brain_dump_organize', args, llmContext, error);
+    }
+    
+    // The echo provider hands the prompt back instead of generating
+    if (error instanceof PromptEchoError) {
+      return formatPromptEcho(error);
+    }
+    
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return `Error: Failed to create and save todolist - ${errorMessage}`;
+  }
+} 
\ No newline at end of file
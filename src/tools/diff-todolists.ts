@@ -0,0 +1,118 @@
+/**
+ * Diff Todolists Tool
+ * Compares two todolist files task by task, without calling the model
+ */
+
+import { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+
+import { ToolRegistration } from './types.js';
+import { fileExists, readFile } from '../utils/file-utils.js';
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+import { parseTodolist, diffTodolists, formatTaskStatus, DiffedTask } from '../todolist/index.js';
+
+/**
+ * Register the diff_todolists tool
+ * @param server The MCP server
+ */
+export const registerDiffTodolistsTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'diff_todolists',
+    description: 'Compare two todolist files task by task, e.g. a todolist and its _enhanced.md or its .bak backup. Reports tasks added, removed, reworded (paired by ID or similar text), moved to another section and changed in state, instead of a line diff. Does not call the model.',
+    parameters: z.object({
+      old_file: z.string().describe('Path to the earlier todolist, e.g. todo.md.bak'),
+      new_file: z.string().describe('Path to the later todolist, e.g. todo.md or todo_enhanced.md'),
+      format: z.enum(['markdown', 'json']).optional().describe('Response format (default: markdown)'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { old_file, new_file, format = 'markdown', workspace_root } = args;
+        
+        // Resolve and read both files
+        const documents = [];
+        for (const file of [old_file, new_file]) {
+          const resolvedPath = resolveWorkspacePath(workspace_root, file);
+          if (!await fileExists(resolvedPath)) {
+            return `Error: Todolist file "${resolvedPath}" does not exist.`;
+          }
+          
+          // An emptied todolist is a valid version to compare against
+          documents.push({ path: resolvedPath, document: parseTodolist(await readFile(resolvedPath)) });
+        }
+        const [before, after] = documents;
+        
+        const diff = diffTodolists(before.document, after.document);
+        
+        if (format === 'json') {
+          return JSON.stringify({ old_file: before.path, new_file: after.path, ...diff }, null, 2);
+        }
+        
+        const counts = [
+          `${diff.added.length} added`,
+          `${diff.removed.length} removed`,
+          `${diff.reworded.length} reworded`,
+          `${diff.moved.length} moved`,
+          `${diff.stateChanged.length} changed state`,
+          `${diff.unchanged} unchanged`
+        ];
+        const lines = [
+          '# Todolist diff',
+          '',
+          `"${before.path}" → "${after.path}"`,
+          '',
+          `Tasks: ${diff.totals.before} → ${diff.totals.after} (${counts.join(', ')}).`
+        ];
+        
+        const list = (heading: string, items: string[]) => {
+          if (items.length > 0) {
+            lines.push('', `## ${heading} (${items.length})`, '', ...items.map(item => `- ${item}`));
+          }
+        };
+        list('Added', diff.added.map(task => `${describe(task)}${locate(task)}`));
+        list('Removed', diff.removed.map(task => `${describe(task)}${locate(task)}`));
+        list('Reworded', diff.reworded.map(pair =>
+          `${pair.before.id ? `${pair.before.id}: ` : ''}"${pair.before.title}" → "${pair.after.title}" (line ${pair.after.line})${pair.matchedBy === 'similar' ? ' (paired by similar text)' : ''}`));
+        list('Moved', diff.moved.map(pair => `${describe(pair.after)}: ${sectionName(pair.before)} → ${sectionName(pair.after)}`));
+        list('State changed', diff.stateChanged.map(pair =>
+          `${describe(pair.after)}: ${formatTaskStatus(pair.before.status)} → ${formatTaskStatus(pair.after.status)}`));
+        
+        if (diff.unchanged === diff.totals.before && diff.unchanged === diff.totals.after) {
+          lines.push('', 'No task-level differences.');
+        }
+        
+        return `${lines.join('\n')}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to compare todolists - ${errorMessage}`;
+      }
+    },
+  });
+};
+
+/**
+ * Describe a task in one line
+ * @param task The task
+ * @returns The ID, title and line
+ */
+function describe(task: DiffedTask): string {
+  return `${task.id ? `${task.id} ` : ''}"${task.title}" (line ${task.line})`;
+}
+
+/**
+ * Say where a task sits
+ * @param task The task
+ * @returns The section and parent, as a suffix
+ */
+function locate(task: DiffedTask): string {
+  return ` in ${sectionName(task)}${task.parent ? `, under "${task.parent}"` : ''}`;
+}
+
+/**
+ * Name a task's section
+ * @param task The task
+ * @returns The heading path, or a placeholder for tasks outside any section
+ */
+function sectionName(task: DiffedTask): string {
+  return task.section.length > 0 ? task.section.join(' > ') : '(no section)';
+}
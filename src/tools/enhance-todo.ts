@@ -9,9 +9,29 @@ import path from 'path';
 
 import { ToolRegistration } from './types.js';
 import { ProjectContextManager } from '../context/index.js';
+import { LLMCallContext, PromptEchoError, PromptHandoffError, formatPromptEcho, formatCacheStats } from '../llm/index.js';
+import { createHandoffResponse, registerResumableTool } from './handoff.js';
+import { ToolProgress } from './progress.js';
 import { enhanceTodolist } from '../utils/llm-utils.js';
 import { fileExists, readFile, createFile } from '../utils/file-utils.js';
 import { resolveWorkspacePath, getSanitizedFilename } from '../utils/path-utils.js';
+import { recordTodolistChange } from '../utils/todolist-history.js';
+import {
+  parseTodolist, serializeTodolist, countTasks, listTasks, getTaskId, assignTaskIds, rollUpTasks, mergeTodolists, MergeConflict
+} from '../todolist/index.js';
+
+/**
+ * Parameters for the enhance_todolist tool
+ */
+const enhanceTodoParameters = z.object({
+  input_file: z.string().describe('Path to the todolist markdown file to enhance'),
+  output_file: z.string().optional().describe('Optional file path to save the enhanced todolist (default: <input_file>_enhanced.md)'),
+  mode: z.enum(['merge', 'replace']).optional().describe('merge (default) keeps every original task\'s text, state and ID and adds the new notes, subtasks, tasks and sections; replace saves the model\'s todolist as it is'),
+  in_place: z.boolean().optional().describe('Update input_file instead of writing a new file, after saving a .bak backup (default: false)'),
+  overwrite: z.boolean().optional().describe('Whether to overwrite if output file exists (default: false)'),
+  no_cache: z.boolean().optional().describe('If true, call the model even when a cached response exists (default: false)'),
+  workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+});
 
 /**
  * Register the enhance_todolist tool
@@ -20,66 +40,180 @@ import { resolveWorkspacePath, getSanitizedFilename } from '../utils/path-utils.
 export const registerEnhanceTodoTool: ToolRegistration = (server: FastMCP) => {
   server.addTool({
     name: 'enhance_todolist',
-    description: 'Enhance an existing todolist with more detailed specifications, acceptance criteria, and technical requirements. Will not overwrite existing files unless overwrite=true.',
-    parameters: z.object({
-      input_file: z.string().describe('Path to the todolist markdown file to enhance'),
-      output_file: z.string().optional().describe('Optional file path to save the enhanced todolist (default: <input_file>_enhanced.md)'),
-      overwrite: z.boolean().optional().describe('Whether to overwrite if output file exists (default: false)'),
-      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
-    }),
-    execute: async (args, req) => {
-      try {
-        const { input_file, overwrite = false, workspace_root } = args;
-        
-        // Resolve the input path
-        const resolvedInputPath = resolveWorkspacePath(workspace_root, input_file);
-        
-        // Check if input file exists
-        if (!await fileExists(resolvedInputPath)) {
-          return `Error: Input file "${resolvedInputPath}" does not exist.`;
-        }
-        
-        // Read the content of the input todolist file
-        const todolistContent = await readFile(resolvedInputPath);
-        if (!todolistContent) {
-          return `Error: Failed to read content from "${resolvedInputPath}".`;
-        }
-        
-        // Generate a file name for the output if not provided
-        const output_file = args.output_file || generateOutputFileName(input_file);
-        
-        // Resolve the output path
-        const resolvedOutputPath = resolveWorkspacePath(workspace_root, output_file);
-        
-        // Check for output file existence
-        if (!overwrite && await fileExists(resolvedOutputPath)) {
-          return `Error: Output file "${resolvedOutputPath}" already exists. Set overwrite=true to overwrite.`;
-        }
-        
-        // Enhance todolist using the IDE's LLM
-        const enhancedTodolist = await enhanceTodolist(todolistContent);
-        
-        // Ensure the output directory exists and write the file
-        const result = await createFile(resolvedOutputPath, enhancedTodolist, overwrite);
-        
-        // Update project context
-        ProjectContextManager.getInstance().setCurrentProject(
-          path.basename(resolvedOutputPath, path.extname(resolvedOutputPath)),
-          path.dirname(resolvedOutputPath)
-        );
-        
-        // Return success response
-        const response = `Successfully enhanced todolist and saved to "${resolvedOutputPath}".\n\n${enhancedTodolist}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
-        
-        return response;
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return `Error: Failed to enhance todolist - ${errorMessage}`;
-      }
-    },
+    description: 'Enhance an existing todolist with more detailed specifications, acceptance criteria, and technical requirements. The additions are merged into the original, whose tasks keep their text, state and ID; tasks the model dropped or reworded are kept and reported as conflicts. Writes <input_file>_enhanced.md, or updates the input with in_place=true. Will not overwrite existing files unless overwrite=true.',
+    parameters: enhanceTodoParameters,
+    execute: async (args, req) => enhanceTodo(args),
   });
+  
+  // Allow submit_llm_result to finish this tool after a prompt handoff
+  registerResumableTool('enhance_todolist', enhanceTodo);
 };
 
+/**
+ * Enhance a todolist file and save the result
+ * @param args The tool arguments
+ * @param llmContext Per-invocation LLM context, including answers submitted through submit_llm_result
+ * @returns The tool response
+ */
+async function enhanceTodo(args: z.infer<typeof enhanceTodoParameters>, llmContext: LLMCallContext = {}): Promise<string> {
+  // Report progress to the client, and stop between model calls if it cancels
+  const progress = new ToolProgress();
+  
+  try {
+    const { input_file, mode = 'merge', in_place = false, overwrite = false, no_cache = false, workspace_root } = args;
+    
+    // Resolve the input path
+    const resolvedInputPath = resolveWorkspacePath(workspace_root, input_file);
+    
+    // Check if input file exists
+    if (!await fileExists(resolvedInputPath)) {
+      return `Error: Input file "${resolvedInputPath}" does not exist.`;
+    }
+    
+    // Read the content of the input todolist file
+    const todolistContent = await readFile(resolvedInputPath);
+    if (!todolistContent) {
+      return `Error: Failed to read content from "${resolvedInputPath}".`;
+    }
+    
+    // Only checklists can be enhanced
+    const originalDocument = parseTodolist(todolistContent);
+    const originalCount = countTasks(originalDocument);
+    if (originalCount.total === 0) {
+      return `Error: No tasks found in "${resolvedInputPath}". Tasks are checklist items such as "- [ ] Write the parser".`;
+    }
+    
+    if (in_place && args.output_file) {
+      return 'Error: Give either output_file or in_place=true, not both.';
+    }
+    
+    // Generate a file name for the output if not provided
+    const output_file = in_place ? input_file : args.output_file || generateOutputFileName(input_file);
+    
+    // Resolve the output path
+    const resolvedOutputPath = resolveWorkspacePath(workspace_root, output_file);
+    
+    // Check for output file existence; updating in place is the point of in_place
+    if (!in_place && !overwrite && await fileExists(resolvedOutputPath)) {
+      return `Error: Output file "${resolvedOutputPath}" already exists. Set overwrite=true to overwrite.`;
+    }
+    
+    // Per-invocation LLM context, counting response cache hits and misses
+    const llmCallContext: LLMCallContext = {
+      ...llmContext,
+      workspaceRoot: workspace_root,
+      noCache: no_cache || !!llmContext.noCache,
+      cacheStats: llmContext.cacheStats ?? { hits: 0, misses: 0 },
+      signal: progress.signal,
+      reportProgress: (message, completed, total) => progress.report(message, completed, total)
+    };
+    
+    // Enhance todolist using the IDE's LLM
+    await progress.report(`Enhancing ${resolvedInputPath}`);
+    const enhancedModelOutput = await enhanceTodolist(todolistContent, llmCallContext);
+    
+    if (progress.cancelled) {
+      return `Cancelled: enhancing "${resolvedInputPath}" was stopped by the client. No file was written.`;
+    }
+    
+    // Do not replace a checklist with a response that has no tasks in it
+    const enhancedDocument = parseTodolist(enhancedModelOutput);
+    const enhancedCount = countTasks(enhancedDocument);
+    if (enhancedCount.total === 0) {
+      return `Error: The enhanced todolist contains no tasks. Nothing was written to "${resolvedOutputPath}".`;
+    }
+    
+    // Fold the additions into the original, which keeps its tasks as they were
+    const usesIds = listTasks(originalDocument).some(entry => getTaskId(entry.task) !== undefined);
+    const merge = mode === 'merge' ? mergeTodolists(originalDocument, enhancedDocument) : undefined;
+    const resultDocument = merge ? merge.document : enhancedDocument;
+    
+    // A todolist that uses task IDs gets IDs for the tasks the model added
+    if (usesIds) {
+      assignTaskIds(resultDocument);
+    }
+    
+    // Connect the new subtasks to their parents' progress; a merge leaves the original states alone
+    rollUpTasks(resultDocument, merge ? [] : undefined);
+    const enhancedTodolist = serializeTodolist(resultDocument);
+    const resultCount = countTasks(resultDocument);
+    
+    if (in_place) {
+      // Do not write over edits made while the model was working
+      if (await readFile(resolvedInputPath) !== todolistContent) {
+        return `Error: "${resolvedInputPath}" changed while it was being enhanced. Nothing was written; run enhance_todolist again (the model's answer is cached).`;
+      }
+      await createFile(`${resolvedInputPath}.bak`, todolistContent, true);
+      await recordTodolistChange(workspace_root, {
+        file: resolvedInputPath,
+        tool: 'enhance_todolist',
+        summary: merge ? `Merged ${merge.addedTasks} ${merge.addedTasks === 1 ? 'task' : 'tasks'} from the model` : 'Replaced the todolist with the model\'s version',
+        before: todolistContent,
+        after: enhancedTodolist
+      });
+    }
+    
+    // Ensure the output directory exists and write the file
+    await progress.report(`Writing ${resolvedOutputPath}`);
+    await createFile(resolvedOutputPath, enhancedTodolist, overwrite || in_place);
+    
+    // Update project context
+    ProjectContextManager.getInstance().setCurrentProject(
+      path.basename(resolvedOutputPath, path.extname(resolvedOutputPath)),
+      path.dirname(resolvedOutputPath)
+    );
+    
+    // Report response cache use
+    const cacheSummary = formatCacheStats(llmCallContext.cacheStats);
+    
+    // Return success response
+    const backupNote = in_place ? ` The original was saved to "${resolvedInputPath}.bak".` : '';
+    const mergeSummary = merge
+      ? `\n\nAdded ${merge.addedTasks} ${merge.addedTasks === 1 ? 'task' : 'tasks'}, ${merge.addedNotes} ${merge.addedNotes === 1 ? 'note' : 'notes'} and ${merge.addedSections} ${merge.addedSections === 1 ? 'section' : 'sections'}.${merge.skippedTasks > 0 ? ` Left out ${merge.skippedTasks} new ${merge.skippedTasks === 1 ? 'subtask' : 'subtasks'} of done or cancelled tasks.` : ''}${formatConflicts(merge.conflicts)}`
+      : '';
+    const response = `Successfully enhanced todolist and saved to "${resolvedOutputPath}".${backupNote}\n\nTasks: ${originalCount.total} → ${resultCount.total}${mergeSummary}\n\n${enhancedTodolist}${cacheSummary ? `\n\n${cacheSummary}` : ''}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+    
+    return response;
+  } catch (error) {
+    // The client cancelled between model calls
+    if (progress.cancelled) {
+      return `Cancelled: enhancing "${args.input_file}" was stopped by the client. No file was written.`;
+    }
+    
+    // No model could be called: hand the prompt to the caller to finish via submit_llm_result
+    if (error instanceof PromptHandoffError) {
+      return await createHandoffResponse('enhance_todolist', args, llmContext, error);
+    }
+    
+    // The echo provider hands the prompt back instead of generating
+    if (error instanceof PromptEchoError) {
+      return formatPromptEcho(error);
+    }
+    
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return `Error: Failed to enhance todolist - ${errorMessage}`;
+  }
+}
+
+/**
+ * Describe the original tasks a merge kept although the model dropped or reworded them
+ * @param conflicts The merge conflicts
+ * @returns The conflict report, or an empty string if there are none
+ */
+function formatConflicts(conflicts: MergeConflict[]): string {
+  if (conflicts.length === 0) {
+    return '';
+  }
+  
+  const lines = conflicts.map(conflict => {
+    const task = `${conflict.id ? `${conflict.id} ` : ''}(line ${conflict.line}) "${conflict.text}"`;
+    return conflict.kind === 'dropped'
+      ? `- Dropped: ${task}`
+      : `- Reworded: ${task}, rewritten as "${conflict.rewritten}"`;
+  });
+  return `\n\nConflicts: the model dropped or reworded ${conflicts.length} original ${conflicts.length === 1 ? 'task' : 'tasks'}. The original text was kept; edit the todolist if the change was wanted.\n${lines.join('\n')}`;
+}
+
 /**
  * Generates an output file name based on the input file name
  * @param inputFile The input file path
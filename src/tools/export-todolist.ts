@@ -0,0 +1,89 @@
+/**
+ * Export Todolist Tool
+ * Writes a todolist as JSON, CSV, todo.txt or a GitHub issue import payload
+ */
+
+import { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import path from 'path';
+
+import { ToolRegistration } from './types.js';
+import { fileExists, readFile, createFile } from '../utils/file-utils.js';
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+import { parseTodolist, listTasks, getTaskId, exportTodolist, EXPORT_FORMATS, ExportFormat } from '../todolist/index.js';
+
+/**
+ * The file name ending for each export format
+ */
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  json: '.json',
+  csv: '.csv',
+  todotxt: '.todo.txt',
+  github: '.github-issues.json'
+};
+
+/**
+ * Register the export_todolist tool
+ * @param server The MCP server
+ */
+export const registerExportTodolistTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'export_todolist',
+    description: 'Export a todolist to JSON (nested sections and subtasks), CSV, todo.txt or a GitHub issue import payload, keeping task states, IDs, hierarchy and inline metadata. Writes the result to a file in the workspace. Will not overwrite existing files unless overwrite=true.',
+    parameters: z.object({
+      todolist_file: z.string().describe('Path to the todolist markdown file'),
+      format: z.enum(EXPORT_FORMATS).describe('json, csv, todotxt or github (an array of { issue, comments } objects for GitHub\'s issue import API)'),
+      output_file: z.string().optional().describe('Path of the file to write (default: next to the todolist, e.g. todo.csv or todo.todo.txt)'),
+      overwrite: z.boolean().optional().describe('Whether to overwrite if output file exists (default: false)'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { todolist_file, format, overwrite = false, workspace_root } = args;
+        
+        // Resolve the todolist file path
+        const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
+        
+        // Check if todolist file exists
+        if (!await fileExists(resolvedTodolistPath)) {
+          return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
+        }
+        
+        // Read the content of the todolist file
+        const todolistContent = await readFile(resolvedTodolistPath);
+        if (!todolistContent) {
+          return `Error: Failed to read content from "${resolvedTodolistPath}".`;
+        }
+        
+        const todolist = parseTodolist(todolistContent);
+        const entries = listTasks(todolist);
+        if (entries.length === 0) {
+          return `Error: No tasks found in "${resolvedTodolistPath}".`;
+        }
+        
+        // Default to a file next to the todolist
+        const parsedPath = path.parse(todolist_file);
+        const output_file = args.output_file || path.join(parsedPath.dir, `${parsedPath.name}${EXPORT_EXTENSIONS[format]}`);
+        const resolvedOutputPath = resolveWorkspacePath(workspace_root, output_file);
+        
+        // Check for output file existence
+        if (!overwrite && await fileExists(resolvedOutputPath)) {
+          return `Error: Output file "${resolvedOutputPath}" already exists. Set overwrite=true to overwrite.`;
+        }
+        
+        await createFile(resolvedOutputPath, exportTodolist(todolist, format), overwrite);
+        
+        // todo.txt can only link a subtask to a parent that has an ID
+        const unlinked = entries.filter(entry => entry.parent && getTaskId(entry.parent) === undefined).length;
+        const hierarchyNote = unlinked > 0 && format === 'todotxt'
+          ? `\n\nWarning: ${unlinked} ${unlinked === 1 ? 'subtask has a parent' : 'subtasks have parents'} without an ID, so todo.txt cannot record ${unlinked === 1 ? 'its parent' : 'their parents'}. Run assign_task_ids first to keep the hierarchy.`
+          : '';
+        
+        return `Exported ${entries.length} tasks from "${resolvedTodolistPath}" as ${format} to "${resolvedOutputPath}".${hierarchyNote}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to export todolist - ${errorMessage}`;
+      }
+    },
+  });
+};
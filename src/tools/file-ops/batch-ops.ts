@@ -9,6 +9,7 @@ import path from 'path';
 import { existsSync } from 'fs';
 
 import { ToolRegistration } from '../types.js';
+import { ToolProgress } from '../progress.js';
 import { ProjectContextManager } from '../../context/index.js';
 import { 
   fileExists, createFile, editFile, deleteFile, 
@@ -85,15 +86,24 @@ export const registerBatchOperationsTool: ToolRegistration = (server: FastMCP) =
           return `Dry run: ${parsedOperations.length} operations validated successfully.\n\nOperations:\n${operationDescriptions.join('\n')}\n\nTo execute these operations, run this tool again with dry_run=false.`;
         }
         
-        // Execute operations
+        // Execute operations, reporting each one and stopping between them if the client cancels
+        const progress = new ToolProgress();
         const results = [];
         let lastProjectContext = null;
+        let cancelledAfter: number | null = null;
         
         for (let i = 0; i < parsedOperations.length; i++) {
           const op = parsedOperations[i];
+          
+          if (progress.cancelled) {
+            cancelledAfter = i;
+            break;
+          }
+          
           try {
             const result = await executeOperation(op, workspace_root);
             results.push(`✓ Operation ${i + 1}: ${describeOperation(op, workspace_root)} - Success`);
+            await progress.report(describeOperation(op, workspace_root), i + 1, parsedOperations.length);
             
             // Update project context based on the last operation type
             switch (op.type) {
@@ -124,6 +134,7 @@ export const registerBatchOperationsTool: ToolRegistration = (server: FastMCP) =
             const errorMessage = error instanceof Error ? error.message : String(error);
             const failedResult = `✗ Operation ${i + 1}: ${describeOperation(op, workspace_root)} - Failed: ${errorMessage}`;
             results.push(failedResult);
+            await progress.report(`Failed: ${describeOperation(op, workspace_root)}`, i + 1, parsedOperations.length);
             
             if (!continue_on_error) {
               results.push('Batch execution halted due to error. Set continue_on_error=true to continue execution after errors.');
@@ -140,6 +151,11 @@ export const registerBatchOperationsTool: ToolRegistration = (server: FastMCP) =
           );
         }
         
+        // Report what was applied before the client cancelled
+        if (cancelledAfter !== null) {
+          return `Cancelled by the client after ${cancelledAfter} of ${parsedOperations.length} operations. Operations ${cancelledAfter + 1}-${parsedOperations.length} were not executed.\n\n${results.length > 0 ? results.join('\n') : 'No operations were executed.'}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+        }
+        
         // Return results
         return `Executed ${results.length} of ${parsedOperations.length} operations:\n\n${results.join('\n')}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
       } catch (error) {
@@ -0,0 +1,68 @@
+/**
+ * Prompt Handoff
+ * Lets LLM-backed tools hand their prompt to the caller and be finished later by submit_llm_result
+ */
+
+import {
+  getLLMConfig, saveContinuation,
+  LLMCallContext, PromptHandoffError
+} from '../llm/index.js';
+
+/**
+ * A tool body that can be re-run with answers supplied by the caller
+ */
+export type ResumableTool = (args: any, llmContext: LLMCallContext) => Promise<string>;
+
+/**
+ * Registry of resumable tools by tool name
+ */
+const resumableTools: Map<string, ResumableTool> = new Map();
+
+/**
+ * Register a tool body so submit_llm_result can resume it
+ * @param name The tool name
+ * @param execute The tool body
+ */
+export function registerResumableTool(name: string, execute: ResumableTool): void {
+  resumableTools.set(name, execute);
+}
+
+/**
+ * Get a registered resumable tool
+ * @param name The tool name
+ * @returns The tool body, or undefined if none is registered
+ */
+export function getResumableTool(name: string): ResumableTool | undefined {
+  return resumableTools.get(name);
+}
+
+/**
+ * Store a continuation for a handed-off prompt and build the tool response
+ * @param toolName The tool that needs the answer
+ * @param args The tool's arguments, replayed when the answer is submitted
+ * @param llmContext The LLM context of the current run, carrying earlier answers and the call's options
+ * @param handoff The handoff raised by generateWithLLM
+ * @returns A response with the prompt and the continuation token
+ */
+export async function createHandoffResponse(
+  toolName: string,
+  args: { workspace_root: string } & Record<string, unknown>,
+  llmContext: LLMCallContext,
+  handoff: PromptHandoffError
+): Promise<string> {
+  const continuation = await saveContinuation(args.workspace_root, {
+    tool: toolName,
+    args,
+    answers: { ...(llmContext.answers || {}) },
+    options: { noCache: llmContext.noCache },
+    pending: {
+      promptHash: handoff.promptHash,
+      prompt: handoff.prompt,
+      systemPrompt: handoff.systemPrompt
+    }
+  }, getLLMConfig().handoff.ttlMinutes);
+
+  const systemSection = handoff.systemPrompt ? `System prompt:\n${handoff.systemPrompt}\n\n` : '';
+
+  return `LLM handoff required for ${toolName}: ${handoff.reason}\n\nRun the prompt below with your own model, then call submit_llm_result with:\n- continuation_token: "${continuation.token}"\n- result: the model's complete answer\n- workspace_root: "${args.workspace_root}"\n\nThe token expires at ${continuation.expiresAt}.\n\n${systemSection}Prompt:\n${handoff.prompt.trim()}`;
+}
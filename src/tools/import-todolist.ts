@@ -0,0 +1,112 @@
+/**
+ * Import Todolist Tool
+ * Turns todo.txt, CSV, GitHub issue exports and markdown checklists into a todolist the workflow tools can use
+ */
+
+import { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import path from 'path';
+
+import { ToolRegistration } from './types.js';
+import { ProjectContextManager } from '../context/index.js';
+import { fileExists, readFile, createFile } from '../utils/file-utils.js';
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+import { importTodolist, IMPORT_FORMATS } from '../todolist/index.js';
+
+/**
+ * Register the import_todolist tool
+ * @param server The MCP server
+ */
+export const registerImportTodolistTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'import_todolist',
+    description: 'Convert a todo.txt file, a CSV file, a GitHub issues JSON export or a plain markdown checklist into a todolist with the same layout brain_dump_organize writes, keeping states, hierarchy and metadata. Does not call the model. Will not overwrite existing files unless overwrite=true.',
+    parameters: z.object({
+      input_file: z.string().describe('Path to the file to import'),
+      format: z.enum(IMPORT_FORMATS).describe('todotxt, csv, github (the REST API issue list, gh issue list --json output or an export_todolist github payload) or markdown'),
+      output_file: z.string().optional().describe('Path of the todolist to write (default: next to the input, e.g. backlog_todo.md)'),
+      title: z.string().optional().describe('The todolist title (default: the source\'s title, or "Imported tasks")'),
+      section_by: z.string().optional().describe('What becomes the sections: a CSV column name; milestone (default) or label for GitHub; section (default), project or context for todo.txt'),
+      default_section: z.string().optional().describe('The section for tasks without one (default: General)'),
+      columns: z.object({
+        title: z.string().optional(),
+        status: z.string().optional(),
+        section: z.string().optional(),
+        priority: z.string().optional(),
+        estimate: z.string().optional(),
+        tags: z.string().optional(),
+        owners: z.string().optional(),
+        due: z.string().optional(),
+        completed: z.string().optional(),
+        id: z.string().optional(),
+        parent: z.string().optional(),
+        dependencies: z.string().optional(),
+        notes: z.string().optional(),
+      }).optional().describe('For CSV: the column holding each field, e.g. { "title": "Summary", "owners": "Assignee" }. Unmapped fields use columns with matching names'),
+      assign_ids: z.boolean().optional().describe('Whether to give tasks without an ID a new one (default: true)'),
+      overwrite: z.boolean().optional().describe('Whether to overwrite if output file exists (default: false)'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { input_file, format, title, section_by, default_section, columns, assign_ids = true, overwrite = false, workspace_root } = args;
+        
+        // Resolve the input path
+        const resolvedInputPath = resolveWorkspacePath(workspace_root, input_file);
+        
+        // Check if input file exists
+        if (!await fileExists(resolvedInputPath)) {
+          return `Error: Input file "${resolvedInputPath}" does not exist.`;
+        }
+        
+        // Read the content of the input file
+        const inputContent = await readFile(resolvedInputPath);
+        if (!inputContent) {
+          return `Error: Failed to read content from "${resolvedInputPath}".`;
+        }
+        
+        // Default to a todolist next to the input
+        const parsedPath = path.parse(input_file);
+        const baseName = parsedPath.name.replace(/\.todo$/i, '');
+        const output_file = args.output_file || path.join(parsedPath.dir, `${baseName}_todo.md`);
+        const resolvedOutputPath = resolveWorkspacePath(workspace_root, output_file);
+        
+        // Never write over the file being imported
+        if (resolvedOutputPath === resolvedInputPath) {
+          return `Error: The output file would replace the input file "${resolvedInputPath}". Choose another output_file.`;
+        }
+        
+        // Check for output file existence
+        if (!overwrite && await fileExists(resolvedOutputPath)) {
+          return `Error: Output file "${resolvedOutputPath}" already exists. Set overwrite=true to overwrite.`;
+        }
+        
+        const imported = importTodolist(inputContent, format, {
+          title,
+          sectionBy: section_by,
+          defaultSection: default_section,
+          columns,
+          assignIds: assign_ids
+        });
+        if (imported.tasks === 0) {
+          return `Error: No tasks found in "${resolvedInputPath}" as ${format}. Nothing was written to "${resolvedOutputPath}".`;
+        }
+        
+        await createFile(resolvedOutputPath, imported.content, overwrite);
+        
+        // Update project context
+        ProjectContextManager.getInstance().setCurrentProject(
+          path.basename(resolvedOutputPath, path.extname(resolvedOutputPath)),
+          path.dirname(resolvedOutputPath)
+        );
+        
+        const warnings = imported.warnings.length > 0 ? `\n\nWarnings:\n${imported.warnings.map(warning => `- ${warning}`).join('\n')}` : '';
+        
+        return `Imported ${imported.tasks} tasks in ${imported.sections} ${imported.sections === 1 ? 'section' : 'sections'} from "${resolvedInputPath}" to "${resolvedOutputPath}".${warnings}\n\nThe todolist is ready for find_next_task and task_executor.\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to import todolist - ${errorMessage}`;
+      }
+    },
+  });
+};
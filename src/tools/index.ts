@@ -10,6 +10,20 @@ import { registerTaskFinderTool } from './task-finder.js';
 import { registerTaskPlannerTool } from './task-planner.js';
 import { registerTaskExecutorTool } from './task-executor.js';
 import { registerTaskCompleterTool } from './task-completer.js';
+import { registerAssignTaskIdsTool } from './task-ids.js';
+import { registerQueryTasksTool } from './query-tasks.js';
+import { registerTaskStatusTool, registerReopenTaskTool } from './task-status.js';
+import { registerTodolistReportTool } from './todolist-report.js';
+import { registerExportTodolistTool } from './export-todolist.js';
+import { registerImportTodolistTool } from './import-todolist.js';
+import { registerDiffTodolistsTool } from './diff-todolists.js';
+import { registerLintTodolistTool } from './lint-todolist.js';
+import { registerAddTaskTool, registerUpdateTaskTool, registerMoveTaskTool, registerRemoveTaskTool } from './task-editor.js';
+import { registerUndoTodolistChangeTool } from './todolist-history.js';
+import { registerSubmitLLMResultTool } from './submit-llm-result.js';
+import { registerListPromptTemplatesTool, registerRenderPromptTemplateTool } from './prompt-templates.js';
+import { registerClearLLMCacheTool } from './llm-cache.js';
+import { registerWorkflowPrompts } from './workflow-prompts.js';
 import { registerFileOperationTools } from './file-ops/index.js';
 
 /**
@@ -24,6 +38,31 @@ export function registerAllTools(server: FastMCP): void {
   registerTaskPlannerTool(server);
   registerTaskExecutorTool(server);
   registerTaskCompleterTool(server);
+  registerAssignTaskIdsTool(server);
+  registerQueryTasksTool(server);
+  registerTaskStatusTool(server);
+  registerReopenTaskTool(server);
+  registerTodolistReportTool(server);
+  registerExportTodolistTool(server);
+  registerImportTodolistTool(server);
+  registerDiffTodolistsTool(server);
+  registerLintTodolistTool(server);
+  registerAddTaskTool(server);
+  registerUpdateTaskTool(server);
+  registerMoveTaskTool(server);
+  registerRemoveTaskTool(server);
+  registerUndoTodolistChangeTool(server);
+  registerSubmitLLMResultTool(server);
+  
+  // Register the prompt template tools
+  registerListPromptTemplatesTool(server);
+  registerRenderPromptTemplateTool(server);
+  
+  // Register the LLM response cache tool
+  registerClearLLMCacheTool(server);
+  
+  // Register the workflow steps as prompts
+  registerWorkflowPrompts(server);
   
   // Register all file operation tools
   registerFileOperationTools(server);
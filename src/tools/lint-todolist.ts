@@ -0,0 +1,104 @@
+/**
+ * Lint Todolist Tool
+ * Checks a todolist for shapes that break the workflow tools, and fixes the ones that can be normalized
+ */
+
+import { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+
+import { ToolRegistration } from './types.js';
+import { fileExists, readFile, createFile } from '../utils/file-utils.js';
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+import { recordTodolistChange } from '../utils/todolist-history.js';
+import { parseTodolist, serializeTodolist, lintTodolist, fixTodolist, LINT_RULES, LintIssue } from '../todolist/index.js';
+
+/**
+ * Register the lint_todolist tool
+ * @param server The MCP server
+ */
+export const registerLintTodolistTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'lint_todolist',
+    description: 'Check a todolist for duplicate tasks, empty sections, tasks that do not start with a verb, dependencies on unknown IDs, inconsistent or broken checkbox syntax, mixed indentation and orphaned subtasks. With fix=true, rewrites the file to fix checkbox syntax, indentation, orphaned subtasks and empty sections. Does not call the model.',
+    parameters: z.object({
+      todolist_file: z.string().describe('Path to the todolist markdown file'),
+      rules: z.array(z.enum(LINT_RULES)).optional().describe('The rules to check (default: all)'),
+      fix: z.boolean().optional().describe('Whether to fix what can be fixed automatically and save the file (default: false)'),
+      create_backup: z.boolean().optional().describe('Whether to create a backup of the original file before fixing it (default: true)'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { todolist_file, rules = [...LINT_RULES], fix = false, create_backup = true, workspace_root } = args;
+        
+        // Resolve the todolist file path
+        const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
+        
+        // Check if todolist file exists
+        if (!await fileExists(resolvedTodolistPath)) {
+          return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
+        }
+        
+        // Read the content of the todolist file
+        const todolistContent = await readFile(resolvedTodolistPath);
+        if (!todolistContent) {
+          return `Error: Failed to read content from "${resolvedTodolistPath}".`;
+        }
+        
+        const todolist = parseTodolist(todolistContent);
+        if (!fix) {
+          const issues = lintTodolist(todolist, rules);
+          const fixable = issues.filter(issue => issue.fixable).length;
+          const fixNote = fixable > 0 ? `\n\n${fixable} of them can be fixed automatically with fix=true.` : '';
+          return `${formatIssues(resolvedTodolistPath, issues)}${fixNote}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+        }
+        
+        // Fix, then lint the saved result again; lines fixed into checkboxes only become tasks when parsed
+        const fixed = fixTodolist(todolist, rules);
+        const fixedContent = serializeTodolist(todolist);
+        const remaining = lintTodolist(parseTodolist(fixedContent), rules);
+        
+        if (fixedContent === todolistContent) {
+          return `No changes made: nothing in "${resolvedTodolistPath}" could be fixed automatically.\n\n${formatIssues(resolvedTodolistPath, remaining)}`;
+        }
+        
+        // Create a backup if requested
+        if (create_backup) {
+          await createFile(`${resolvedTodolistPath}.bak`, todolistContent, true);
+        }
+        await recordTodolistChange(workspace_root, {
+          file: resolvedTodolistPath,
+          tool: 'lint_todolist',
+          summary: `Fixed ${fixed.length} lint ${fixed.length === 1 ? 'issue' : 'issues'}`,
+          before: todolistContent,
+          after: fixedContent
+        });
+        await createFile(resolvedTodolistPath, fixedContent, true);
+        
+        const fixedList = fixed.map(issue => `- Line ${issue.line} [${issue.rule}]: ${issue.message}`).join('\n');
+        return `Fixed ${fixed.length} ${fixed.length === 1 ? 'issue' : 'issues'} in "${resolvedTodolistPath}"${create_backup ? ` (backup: "${resolvedTodolistPath}.bak")` : ''}:\n${fixedList}\n\n${formatIssues(resolvedTodolistPath, remaining)}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to lint todolist - ${errorMessage}`;
+      }
+    },
+  });
+};
+
+/**
+ * Describe lint issues
+ * @param file The todolist path
+ * @param issues The issues
+ * @returns A count by severity and one line per issue
+ */
+function formatIssues(file: string, issues: LintIssue[]): string {
+  if (issues.length === 0) {
+    return `No issues found in "${file}".`;
+  }
+  
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  const warnings = issues.length - errors;
+  const lines = issues.map(issue =>
+    `- Line ${issue.line} ${issue.severity} [${issue.rule}]: ${issue.message}${issue.fixable ? ' (fixable)' : ''}`);
+  return `Found ${errors} ${errors === 1 ? 'error' : 'errors'} and ${warnings} ${warnings === 1 ? 'warning' : 'warnings'} in "${file}":\n${lines.join('\n')}`;
+}
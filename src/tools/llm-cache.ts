@@ -0,0 +1,44 @@
+/**
+ * LLM Cache Tool
+ * Clears the workspace's cached model responses
+ */
+
+import { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+
+import { ToolRegistration } from './types.js';
+import { clearResponseCache, getResponseCacheDir } from '../llm/index.js';
+import { isPromptTemplateId } from '../prompts/index.js';
+
+/**
+ * Register the clear_llm_cache tool
+ * @param server The MCP server
+ */
+export const registerClearLLMCacheTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'clear_llm_cache',
+    description: 'Delete cached model responses for the workspace, so the next run of each LLM-backed tool calls the model again. Optionally only clear responses for one prompt template.',
+    parameters: z.object({
+      template_id: z.string().optional().describe('Optional template id (see list_prompt_templates); only responses for this template are cleared'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { template_id, workspace_root } = args;
+        
+        // Validate inputs
+        if (template_id && !isPromptTemplateId(template_id)) {
+          return `Error: Unknown template id "${template_id}". Use list_prompt_templates to see the available templates.`;
+        }
+        
+        const removed = await clearResponseCache(workspace_root, template_id);
+        const scope = template_id ? ` for template "${template_id}"` : '';
+        
+        return `Removed ${removed} cached LLM ${removed === 1 ? 'response' : 'responses'}${scope} from "${getResponseCacheDir(workspace_root)}".\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to clear LLM cache - ${errorMessage}`;
+      }
+    },
+  });
+};
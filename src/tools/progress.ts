@@ -0,0 +1,146 @@
+/**
+ * Tool Progress and Cancellation
+ * Lets long-running tools report progress and notice client cancellation, over stdio and the HTTP bridge
+ *
+ * Each tool call runs inside a ToolRunContext carrying the request's abort signal and a progress sink.
+ * Over stdio the sink is the `reportProgress` FastMCP passes to the tool's execute function. FastMCP does
+ * not pass on the request's abort signal, so installToolCancellation takes it from the SDK's handler for
+ * `tools/call`; the HTTP bridge sets both around its own tool calls.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { FastMCPSession } from 'fastmcp';
+
+/**
+ * A progress update as sent in `notifications/progress`
+ */
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * The transport-specific side of a tool call
+ */
+export interface ToolRunContext {
+  // Aborted when the client cancels the request
+  signal?: AbortSignal;
+  // Sends a progress notification; absent when the client did not ask for progress
+  sendProgress?: (update: ProgressUpdate) => Promise<void>;
+}
+
+/**
+ * The context of the tool call currently executing
+ */
+const toolRuns = new AsyncLocalStorage<ToolRunContext>();
+
+/**
+ * Run a tool call with a transport context
+ * @param context The abort signal and progress sink for the call
+ * @param run The tool call
+ * @returns The tool call's result
+ */
+export function runWithToolContext<T>(context: ToolRunContext, run: () => Promise<T>): Promise<T> {
+  return toolRuns.run(context, run);
+}
+
+/**
+ * Run a tool call with the progress sink FastMCP gives its execute function
+ * @param reportProgress FastMCP's progress reporter for the call
+ * @param run The tool call
+ * @returns The tool call's result
+ */
+export function runWithToolProgress<T>(reportProgress: ((update: ProgressUpdate) => Promise<void>) | undefined, run: () => Promise<T>): Promise<T> {
+  const context = toolRuns.getStore() || {};
+  return toolRuns.run({ ...context, sendProgress: context.sendProgress ?? reportProgress }, run);
+}
+
+/**
+ * A handler for one request method, as the MCP SDK registers it
+ */
+type RequestHandler = (request: unknown, extra?: { signal?: AbortSignal }) => Promise<unknown>;
+
+/**
+ * The private part of the MCP SDK's server that holds its request handlers
+ */
+interface RequestHandlerRegistry {
+  _requestHandlers?: unknown;
+}
+
+/**
+ * Make a session's tool calls run with their request's abort signal
+ * Without the SDK's handler map, as after an SDK change, tools run on when the client cancels
+ * @param session The connected FastMCP session
+ */
+export function installToolCancellation(session: FastMCPSession): void {
+  const handlers = getRequestHandlers(session);
+  const callTool = handlers?.get('tools/call');
+  if (!handlers || typeof callTool !== 'function') {
+    return;
+  }
+  
+  handlers.set('tools/call', (request, extra) =>
+    runWithToolContext({ ...toolRuns.getStore(), signal: extra?.signal }, () => callTool(request, extra)));
+}
+
+/**
+ * Get the request handlers of a session's SDK server
+ * @param session The FastMCP session
+ * @returns The handlers by method, or undefined if the SDK no longer keeps them in a map
+ */
+function getRequestHandlers(session: FastMCPSession): Map<string, RequestHandler> | undefined {
+  const handlers = (session.server as unknown as RequestHandlerRegistry)._requestHandlers;
+  return handlers instanceof Map ? handlers as Map<string, RequestHandler> : undefined;
+}
+
+/**
+ * Progress reporter for one tool call
+ * Progress values only ever increase; steps of a known count are also shown as "3/12" in the message
+ */
+export class ToolProgress {
+  private readonly context: ToolRunContext;
+  private progress = 0;
+  
+  constructor() {
+    this.context = toolRuns.getStore() || {};
+  }
+  
+  /**
+   * Whether the client has cancelled the request
+   */
+  get cancelled(): boolean {
+    return this.context.signal?.aborted ?? false;
+  }
+  
+  /**
+   * The request's abort signal, if the transport provides one
+   */
+  get signal(): AbortSignal | undefined {
+    return this.context.signal;
+  }
+  
+  /**
+   * Report a phase or a step
+   * @param message What the tool is doing or has just done
+   * @param completed The number of steps completed, for work with a known number of steps
+   * @param total The number of steps
+   */
+  async report(message: string, completed?: number, total?: number): Promise<void> {
+    this.progress++;
+    if (!this.context.sendProgress) {
+      return;
+    }
+    
+    const counted = completed !== undefined && total !== undefined;
+    try {
+      await this.context.sendProgress({
+        progress: this.progress,
+        total: counted ? this.progress + (total - completed) : undefined,
+        message: counted ? `${completed}/${total} ${message}` : message
+      });
+    } catch {
+      // A lost progress notification must not fail the tool
+    }
+  }
+}
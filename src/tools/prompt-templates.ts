@@ -0,0 +1,129 @@
+/**
+ * Prompt Template Tools
+ * Tools for inspecting the effective prompt templates and where they come from
+ */
+
+import { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+
+import { ToolRegistration } from './types.js';
+import {
+  listPromptTemplates, resolvePromptTemplate, renderPromptTemplate,
+  isPromptTemplateId, getGlobalPromptsDir, getWorkspacePromptsDir,
+  ResolvedPromptTemplate, PromptTemplateSource
+} from '../prompts/index.js';
+
+/**
+ * Register the list_prompt_templates tool
+ * @param server The MCP server
+ */
+export const registerListPromptTemplatesTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'list_prompt_templates',
+    description: 'List the prompt templates used by the workflow tools, their variables, and whether each comes from a workspace override, a global override or the built-in default.',
+    parameters: z.object({
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { workspace_root } = args;
+        
+        const templates = await listPromptTemplates(workspace_root);
+        const descriptions = templates.map(template => {
+          const variables = Object.entries(template.variables)
+            .map(([name, description]) => `    - {{${name}}}: ${description}`)
+            .join('\n');
+          return `- ${template.id}: ${template.description}\n  Template: ${describeSource(template.source, template.sourcePath)}\n  System prompt: ${describeSource(template.systemPromptSource, template.systemPromptPath)}\n  Variables:\n${variables}`;
+        });
+        
+        return `${templates.length} prompt templates:\n\n${descriptions.join('\n\n')}\n\nOverride a template by creating <id>.md (prompt) or <id>.system.md (system prompt) in:\n- Workspace: ${getWorkspacePromptsDir(workspace_root)}\n- Global: ${getGlobalPromptsDir()}\n\nWorkspace overrides take precedence over global ones.`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to list prompt templates - ${errorMessage}`;
+      }
+    },
+  });
+};
+
+/**
+ * Register the render_prompt_template tool
+ * @param server The MCP server
+ */
+export const registerRenderPromptTemplateTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'render_prompt_template',
+    description: 'Show the effective prompt template for an id and where it came from. If variables are given, render the template with them exactly as the workflow tools would.',
+    parameters: z.object({
+      template_id: z.string().describe('The template id (see list_prompt_templates)'),
+      variables: z.string().optional().describe('Optional JSON object of variable values, e.g. {"task": "...", "todolist": "..."}'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { template_id, variables, workspace_root } = args;
+        
+        // Validate inputs
+        if (!isPromptTemplateId(template_id)) {
+          const templates = await listPromptTemplates(workspace_root);
+          return `Error: Unknown template "${template_id}". Available templates: ${templates.map(template => template.id).join(', ')}.`;
+        }
+        
+        const template = await resolvePromptTemplate(template_id, workspace_root);
+        const header = describeTemplate(template);
+        
+        // Without variables, show the raw effective template
+        if (!variables) {
+          return `${header}\n\nSystem prompt:\n${template.systemPrompt}\n\nTemplate:\n${template.template}`;
+        }
+        
+        // Parse variables JSON
+        let parsedVariables: Record<string, string>;
+        try {
+          parsedVariables = JSON.parse(variables);
+        } catch (error) {
+          return `Error: Failed to parse variables JSON - ${error instanceof Error ? error.message : String(error)}`;
+        }
+        
+        if (!parsedVariables || typeof parsedVariables !== 'object' || Array.isArray(parsedVariables)) {
+          return 'Error: Variables must be a JSON object.';
+        }
+        
+        const unknownVariables = Object.keys(parsedVariables).filter(name => !(name in template.variables));
+        if (unknownVariables.length > 0) {
+          return `Error: Unknown variable(s) for "${template_id}": ${unknownVariables.join(', ')}. Expected: ${Object.keys(template.variables).join(', ')}.`;
+        }
+        
+        const nonStrings = Object.entries(parsedVariables).filter(([, value]) => typeof value !== 'string');
+        if (nonStrings.length > 0) {
+          return `Error: Variable values must be strings: ${nonStrings.map(([name]) => name).join(', ')}.`;
+        }
+        
+        const rendered = await renderPromptTemplate(template_id, parsedVariables as any, workspace_root);
+        
+        return `${header}\n\nRendered system prompt:\n${rendered.options.systemPrompt}\n\nRendered prompt:\n${rendered.prompt}`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to render prompt template - ${errorMessage}`;
+      }
+    },
+  });
+};
+
+/**
+ * Describe where a template part came from
+ * @param source The template source
+ * @param filePath The override file, if any
+ * @returns A human-readable description
+ */
+function describeSource(source: PromptTemplateSource, filePath?: string): string {
+  return filePath ? `${source} (${filePath})` : source;
+}
+
+/**
+ * Describe a resolved template
+ * @param template The resolved template
+ * @returns A human-readable header
+ */
+function describeTemplate(template: ResolvedPromptTemplate): string {
+  return `Template "${template.id}": ${template.description}\nTemplate source: ${describeSource(template.source, template.sourcePath)}\nSystem prompt source: ${describeSource(template.systemPromptSource, template.systemPromptPath)}\nVariables: ${Object.keys(template.variables).join(', ')}`;
+}
@@ -0,0 +1,216 @@
+/**
+ * Task Query Tool
+ * Filters and sorts the tasks of a todolist by state, section, text and inline metadata
+ */
+
+import { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+
+import { ToolRegistration } from './types.js';
+import { fileExists, readFile } from '../utils/file-utils.js';
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+import {
+  parseTodolist, listTasks, isTaskChecked, isTaskResolved, getTaskId, getTaskStatus, getTaskMetadata, getPriorityRank,
+  formatEstimate, isValidDate, getToday, TASK_PRIORITIES, TaskEntry, TaskMetadata
+} from '../todolist/index.js';
+
+/**
+ * A task with its metadata, as matched by a query
+ */
+interface QueriedTask {
+  entry: TaskEntry;
+  metadata: TaskMetadata;
+  // Position in the todolist, for document order
+  index: number;
+}
+
+/**
+ * Parameters for the query_tasks tool
+ */
+const queryTasksParameters = z.object({
+  todolist_file: z.string().describe('Path to the todolist markdown file'),
+  status: z.enum(['open', 'todo', 'in_progress', 'blocked', 'cancelled', 'done', 'all']).optional().describe('Which tasks to include: open (not done or cancelled; default), todo ([ ]), in_progress ([~]), blocked ([!]), cancelled ([-]), done ([x]) or all'),
+  priority: z.array(z.enum(TASK_PRIORITIES)).optional().describe('Only tasks with one of these priorities (!critical, !high, !medium, !low); tasks without a priority count as medium'),
+  tag: z.string().optional().describe('Only tasks with this tag, e.g. "backend" for #backend'),
+  owner: z.string().optional().describe('Only tasks assigned to this owner, e.g. "alice" for @alice'),
+  due_before: z.string().optional().describe('Only tasks due on or before this date (YYYY-MM-DD)'),
+  due_after: z.string().optional().describe('Only tasks due on or after this date (YYYY-MM-DD)'),
+  overdue: z.boolean().optional().describe('If true, only tasks that are not done or cancelled and whose due date is before today'),
+  section: z.string().optional().describe('Only tasks in sections whose heading contains this text'),
+  text: z.string().optional().describe('Only tasks whose text contains this text'),
+  sort_by: z.enum(['document', 'priority', 'due', 'estimate', 'owner']).optional().describe('Sort order (default: document order)'),
+  descending: z.boolean().optional().describe('If true, reverse the sort order (default: false)'),
+  limit: z.number().int().positive().optional().describe('The most tasks to return'),
+  format: z.enum(['text', 'json']).optional().describe('Response format (default: text)'),
+  workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+});
+
+/**
+ * Register the query_tasks tool
+ * @param server The MCP server
+ */
+export const registerQueryTasksTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'query_tasks',
+    description: 'Filter and sort the tasks of a todolist by state, priority (!high), tag (#backend), owner (@alice), due date (due:2026-11-01), estimate (~3h), section or text, e.g. to list overdue backend tasks. Does not call the model.',
+    parameters: queryTasksParameters,
+    execute: async (args, req) => {
+      try {
+        const {
+          todolist_file, status = 'open', priority, tag, owner, due_before, due_after, overdue = false,
+          section, text, sort_by = 'document', descending = false, limit, format = 'text', workspace_root
+        } = args;
+        
+        // Validate inputs
+        for (const [name, value] of [['due_before', due_before], ['due_after', due_after]] as const) {
+          if (value !== undefined && !isValidDate(value)) {
+            return `Error: ${name} must be a date in YYYY-MM-DD form, got "${value}".`;
+          }
+        }
+        
+        // Resolve the todolist file path
+        const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
+        
+        // Check if todolist file exists
+        if (!await fileExists(resolvedTodolistPath)) {
+          return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
+        }
+        
+        // Read the content of the todolist file
+        const todolistContent = await readFile(resolvedTodolistPath);
+        if (!todolistContent) {
+          return `Error: Failed to read content from "${resolvedTodolistPath}".`;
+        }
+        
+        const today = getToday();
+        const tasks: QueriedTask[] = listTasks(parseTodolist(todolistContent))
+          .map((entry, index) => ({ entry, metadata: getTaskMetadata(entry.task), index }));
+        const total = tasks.length;
+        
+        // Apply the filters
+        const matches = tasks.filter(({ entry, metadata }) => {
+          const done = isTaskResolved(entry.task);
+          if (!matchesStatus(entry, status)) return false;
+          if (priority && !priority.includes(metadata.priority ?? 'medium')) return false;
+          if (tag && !metadata.tags.some(candidate => sameName(candidate, tag.replace(/^#/, '')))) return false;
+          if (owner && !metadata.owners.some(candidate => sameName(candidate, owner.replace(/^@/, '')))) return false;
+          if (due_before && !(metadata.due && metadata.due <= due_before)) return false;
+          if (due_after && !(metadata.due && metadata.due >= due_after)) return false;
+          if (overdue && !(metadata.due && metadata.due < today && !done)) return false;
+          if (section && !entry.section?.title.toLowerCase().includes(section.toLowerCase())) return false;
+          if (text && !entry.task.text.toLowerCase().includes(text.toLowerCase())) return false;
+          return true;
+        });
+        
+        // Sort; tasks without the sort field go last, and ties keep document order
+        const direction = descending ? -1 : 1;
+        matches.sort((a, b) => {
+          const [keyA, keyB] = [sortKey(a, sort_by), sortKey(b, sort_by)];
+          if (keyA === keyB) return a.index - b.index;
+          if (keyA === undefined) return 1;
+          if (keyB === undefined) return -1;
+          return (keyA < keyB ? -1 : 1) * direction;
+        });
+        
+        const shown = limit ? matches.slice(0, limit) : matches;
+        const estimatedMinutes = matches.reduce((sum, { metadata }) => sum + (metadata.estimate?.minutes ?? 0), 0);
+        
+        if (format === 'json') {
+          return JSON.stringify({
+            file: resolvedTodolistPath,
+            total,
+            matched: matches.length,
+            estimated_minutes: estimatedMinutes,
+            tasks: shown.map(({ entry, metadata }) => ({
+              id: getTaskId(entry.task) ?? null,
+              text: entry.task.text.trim(),
+              done: isTaskChecked(entry.task),
+              status: getTaskStatus(entry.task),
+              section: entry.section?.title ?? null,
+              line: entry.task.line,
+              priority: metadata.priority ?? null,
+              estimate: metadata.estimate?.raw ?? null,
+              estimate_minutes: metadata.estimate?.minutes ?? null,
+              tags: metadata.tags,
+              owners: metadata.owners,
+              due: metadata.due ?? null,
+              completed: metadata.completed ?? null,
+              overdue: !!metadata.due && metadata.due < today && !isTaskResolved(entry.task)
+            }))
+          }, null, 2);
+        }
+        
+        if (matches.length === 0) {
+          return `No tasks in "${resolvedTodolistPath}" match the query (${total} tasks in total).`;
+        }
+        
+        const lines = shown.map(({ entry, metadata }) => {
+          const id = getTaskId(entry.task);
+          const late = metadata.due && metadata.due < today && !isTaskResolved(entry.task) ? ' (overdue)' : '';
+          const where = entry.section ? ` [${entry.section.title}]` : '';
+          return `- [${entry.task.mark}] ${id ? `${id} ` : ''}${entry.task.text.trim()}${where}${late}`;
+        });
+        if (shown.length < matches.length) {
+          lines.push(`... and ${matches.length - shown.length} more`);
+        }
+        
+        const estimate = estimatedMinutes > 0 ? `\n\nTotal estimate of the matching tasks: ${formatEstimate(estimatedMinutes)}` : '';
+        
+        return `${matches.length} of ${total} tasks in "${resolvedTodolistPath}" match:\n\n${lines.join('\n')}${estimate}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to query tasks - ${errorMessage}`;
+      }
+    },
+  });
+};
+
+/**
+ * Check a task against the status filter
+ * @param entry The task
+ * @param status The status filter
+ * @returns True if the task is included
+ */
+function matchesStatus(entry: TaskEntry, status: string): boolean {
+  switch (status) {
+    case 'all':
+      return true;
+    case 'open':
+      return !isTaskResolved(entry.task);
+    case 'todo':
+      return getTaskStatus(entry.task) === 'open';
+    default:
+      return getTaskStatus(entry.task) === status;
+  }
+}
+
+/**
+ * Get the value a task is sorted by
+ * @param task The task and its metadata
+ * @param sortBy The sort field
+ * @returns The sort key, or undefined if the task does not have the field
+ */
+function sortKey({ entry, metadata, index }: QueriedTask, sortBy: string): string | number | undefined {
+  switch (sortBy) {
+    case 'priority':
+      return getPriorityRank(entry.task);
+    case 'due':
+      return metadata.due;
+    case 'estimate':
+      return metadata.estimate?.minutes;
+    case 'owner':
+      return metadata.owners[0]?.toLowerCase();
+    default:
+      return index;
+  }
+}
+
+/**
+ * Compare a tag or owner name, ignoring case
+ * @param a One name
+ * @param b The other name
+ * @returns True if the names are the same
+ */
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
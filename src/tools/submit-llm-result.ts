@@ -0,0 +1,66 @@
+/**
+ * Submit LLM Result Tool
+ * Finishes a tool invocation that handed its prompt to the caller
+ */
+
+import { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+
+import { ToolRegistration } from './types.js';
+import { loadContinuation, deleteContinuation } from '../llm/index.js';
+import { getResumableTool } from './handoff.js';
+import { ToolProgress } from './progress.js';
+
+/**
+ * Register the submit_llm_result tool
+ * @param server The MCP server
+ */
+export const registerSubmitLLMResultTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'submit_llm_result',
+    description: 'Submit the model\'s answer for a prompt handed off by another tool, and finish that tool\'s operation. May return a further prompt with a new token if the operation needs more model output.',
+    parameters: z.object({
+      continuation_token: z.string().describe('The continuation token returned with the handed-off prompt'),
+      result: z.string().describe('The complete answer produced by the model for that prompt'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { continuation_token, result, workspace_root } = args;
+        
+        // Validate inputs
+        if (!result.trim()) {
+          return 'Error: Result cannot be empty.';
+        }
+        
+        // Load the pending continuation
+        const continuation = await loadContinuation(workspace_root, continuation_token);
+        
+        const resume = getResumableTool(continuation.tool);
+        if (!resume) {
+          return `Error: Tool "${continuation.tool}" cannot be resumed.`;
+        }
+        
+        // Re-run the original tool with every answer collected so far and its call options; tokens are single-use
+        const answers = { ...continuation.answers, [continuation.pending.promptHash]: result };
+        
+        // The re-run counts its own cache lookups, and reports progress and notices cancellation through this call
+        const progress = new ToolProgress();
+        try {
+          return await resume(continuation.args, {
+            ...continuation.options,
+            answers,
+            cacheStats: { hits: 0, misses: 0 },
+            signal: progress.signal,
+            reportProgress: (message, completed, total) => progress.report(message, completed, total)
+          });
+        } finally {
+          await deleteContinuation(workspace_root, continuation.token);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to submit LLM result - ${errorMessage}`;
+      }
+    },
+  });
+};
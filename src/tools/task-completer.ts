@@ -11,6 +11,11 @@ import { ToolRegistration } from './types.js';
 import { ProjectContextManager } from '../context/index.js';
 import { fileExists, readFile, createFile } from '../utils/file-utils.js';
 import { resolveWorkspacePath } from '../utils/path-utils.js';
+import { recordTodolistChange } from '../utils/todolist-history.js';
+import {
+  parseTodolist, serializeTodolist, resolveTaskReference, describeUnresolvedTask, describeTaskMatch, isTaskChecked,
+  isTaskResolved, setTaskChecked, getTaskId, getOpenSubtasks, rollUpTasks
+} from '../todolist/index.js';
 
 /**
  * Register the mark_task_complete tool
@@ -19,20 +24,22 @@ import { resolveWorkspacePath } from '../utils/path-utils.js';
 export const registerTaskCompleterTool: ToolRegistration = (server: FastMCP) => {
   server.addTool({
     name: 'mark_task_complete',
-    description: 'Mark a specific task as complete in the todolist.',
+    description: 'Mark a specific task as complete in the todolist. A parent task is checked automatically once all its subtasks are done; checking a parent with open subtasks needs force=true.',
     parameters: z.object({
-      task: z.string().describe('The task to mark as complete (text of the task from the todolist)'),
+      task: z.string().optional().describe('The task to mark as complete (text of the task from the todolist); or give task_id'),
+      task_id: z.string().optional().describe('The ID of the task to mark as complete, e.g. T-014; takes precedence over task'),
       todolist_file: z.string().describe('Path to the todolist markdown file'),
+      force: z.boolean().optional().describe('If true, check the task even if it has open subtasks (default: false)'),
       create_backup: z.boolean().optional().describe('Whether to create a backup of the original file (default: true)'),
       workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
     }),
     execute: async (args, req) => {
       try {
-        const { task, todolist_file, create_backup = true, workspace_root } = args;
+        const { task_id, todolist_file, force = false, create_backup = true, workspace_root } = args;
         
         // Validate inputs
-        if (!task.trim()) {
-          return 'Error: Task description cannot be empty.';
+        if (!args.task?.trim() && !task_id?.trim()) {
+          return 'Error: Either task or task_id is required.';
         }
         
         // Resolve the todolist file path
@@ -49,23 +56,61 @@ export const registerTaskCompleterTool: ToolRegistration = (server: FastMCP) =>
           return `Error: Failed to read content from "${resolvedTodolistPath}".`;
         }
         
+        // Resolve the task by ID or text
+        const todolist = parseTodolist(todolistContent);
+        const resolvedTask = resolveTaskReference(todolist, args.task, task_id);
+        if ('error' in resolvedTask) {
+          return `Error: ${resolvedTask.error}`;
+        }
+        const task = resolvedTask.text;
+        
+        // Check off the one unfinished task the reference names; cancelled tasks stay cancelled
+        const matches = resolvedTask.matches;
+        const unchecked = matches.filter(entry => !isTaskResolved(entry.task));
+        
+        if (unchecked.length === 0) {
+          if (matches.length === 0) {
+            return `No changes made: ${describeUnresolvedTask(resolvedTask)}`;
+          }
+          return matches.some(entry => isTaskChecked(entry.task))
+            ? `No changes made: Task "${task}" is already complete in the todolist.`
+            : `No changes made: Task "${task}" is cancelled in the todolist. Use set_task_status to reopen it first.`;
+        }
+        
+        // Duplicates are reported rather than all checked off, since usually only one of them is done
+        if (unchecked.length > 1) {
+          const lines = unchecked.map(({ task: match, section }) =>
+            `- [${match.mark}] ${getTaskId(match) ?? `line ${match.line}`}${section ? ` in "${section.title}"` : ''}`);
+          return `No changes made: ${unchecked.length} unchecked tasks have the text "${task}":\n${lines.join('\n')}\n\nGive task_id to choose one; use assign_task_ids if they have no IDs.`;
+        }
+        
+        // A parent is done when its subtasks are, unless the caller insists
+        const openSubtasks = unchecked.flatMap(entry => getOpenSubtasks(entry.task));
+        if (openSubtasks.length > 0 && !force) {
+          const lines = openSubtasks.map(subtask => `- [${subtask.mark}] ${subtask.text.trim()}`);
+          return `No changes made: Task "${task}" has ${openSubtasks.length} open ${openSubtasks.length === 1 ? 'subtask' : 'subtasks'}:\n${lines.join('\n')}\n\nComplete the subtasks first; the task is then checked automatically. To check it anyway, pass force=true.`;
+        }
+        
+        for (const entry of unchecked) {
+          setTaskChecked(entry.task, true);
+        }
+        const completedParents = rollUpTasks(todolist, unchecked.map(entry => entry.task));
+        const updatedTodolist = serializeTodolist(todolist);
+        
         // Create a backup if requested
         if (create_backup) {
           const backupPath = `${resolvedTodolistPath}.bak`;
           await createFile(backupPath, todolistContent, true);
         }
         
-        // Replace the task line with a completed version
-        const taskEscaped = escapeRegExp(task.trim());
-        const uncheckedTaskRegex = new RegExp(`- \\[ \\]\\s*${taskEscaped}`, 'gm');
-        const updatedTodolist = todolistContent.replace(uncheckedTaskRegex, `- [x] ${task.trim()}`);
-        
-        // Check if any replacements were made
-        if (updatedTodolist === todolistContent) {
-          return `No changes made: Could not find unchecked task "${task}" in the todolist.`;
-        }
-        
-        // Write the updated todolist back to the file
+        // Write the updated todolist back to the file, keeping the change for undo_last_todolist_change
+        await recordTodolistChange(workspace_root, {
+          file: resolvedTodolistPath,
+          tool: 'mark_task_complete',
+          summary: `Marked "${task}" as complete`,
+          before: todolistContent,
+          after: updatedTodolist
+        });
         await createFile(resolvedTodolistPath, updatedTodolist, true);
         
         // Update project context
@@ -75,7 +120,9 @@ export const registerTaskCompleterTool: ToolRegistration = (server: FastMCP) =>
         );
         
         // Return success response
-        return `Successfully marked task "${task}" as complete in "${resolvedTodolistPath}".\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+        const rollUpSummary = completedParents.map(parent => `\nAlso checked "${parent.text.trim()}" because all its subtasks are done.`).join('');
+        const matchNote = describeTaskMatch(resolvedTask, args.task);
+        return `Successfully marked task "${task}" as complete in "${resolvedTodolistPath}".${matchNote ? ` ${matchNote}` : ''}${rollUpSummary}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         return `Error: Failed to mark task as complete - ${errorMessage}`;
@@ -84,11 +131,3 @@ export const registerTaskCompleterTool: ToolRegistration = (server: FastMCP) =>
   });
 };
 
-/**
- * Escape special characters in a string for use in a regular expression
- * @param string The string to escape
- * @returns Escaped string
- */
-function escapeRegExp(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-} 
\ No newline at end of file
@@ -0,0 +1,568 @@
+/**
+ * Task Editor Tools
+ * Adds, updates, moves and removes tasks in a todolist without rewriting the rest of the file
+ */
+
+import { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import path from 'path';
+
+import { ToolRegistration } from './types.js';
+import { ProjectContextManager } from '../context/index.js';
+import { fileExists, readFile, createFile } from '../utils/file-utils.js';
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+import { recordTodolistChange } from '../utils/todolist-history.js';
+import {
+  parseTodolist, serializeTodolist, resolveTaskReference, describeUnresolvedTask, describeTaskMatch, listTasks, listSections, getSubtasks, getTaskId, setTaskId,
+  getNextTaskId, findTaskById, isTaskId, isTaskResolved, getTaskStatus, formatTaskStatus, updateTaskMetadata, parseEstimate, isValidDate,
+  getTaskDependencies, setTaskDependencies, orderTasks, rollUpTasks, rollUpRemovedTask, addTask, moveTask, removeTask, setTaskTitle,
+  addTaskNote, findSectionsByTitle, containsTask, TodolistDocument, TaskNode, TaskEntry, TaskLocation, TaskMetadataUpdate, TASK_PRIORITIES
+} from '../todolist/index.js';
+
+/**
+ * Parameters that place a task, shared by add_task and move_task
+ */
+const locationParameters = {
+  section: z.string().optional().describe('Put the task at the top level of the section with this heading'),
+  parent: z.string().optional().describe('Put the task under this task as a subtask (task text or ID, e.g. T-003)'),
+  before: z.string().optional().describe('Put the task right before this task, at its level (task text or ID)'),
+  after: z.string().optional().describe('Put the task right after this task, at its level (task text or ID)'),
+  position: z.enum(['start', 'end']).optional().describe('With section or parent, whether the task goes first or last among its tasks (default: end)'),
+};
+
+/**
+ * Parameters that set a task's metadata, shared by add_task and update_task
+ */
+const metadataParameters = {
+  priority: z.enum([...TASK_PRIORITIES, 'none']).optional().describe('Priority, written as !high; none removes it'),
+  estimate: z.string().optional().describe('Estimate such as 3h, 90m, 2d or 1.5w, written as ~3h; none removes it'),
+  tags: z.array(z.string()).optional().describe('Tags, written as #backend; replaces the existing tags, an empty list removes them'),
+  owners: z.array(z.string()).optional().describe('Owners, written as @alice; replaces the existing owners, an empty list removes them'),
+  due: z.string().optional().describe('Due date (YYYY-MM-DD), written as due:2026-11-01; none removes it'),
+  depends_on: z.array(z.string()).optional().describe('IDs of the tasks this task waits for, written as (after: T-003); replaces the existing ones, an empty list removes them'),
+};
+
+/**
+ * Register the add_task tool
+ * @param server The MCP server
+ */
+export const registerAddTaskTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'add_task',
+    description: 'Add an open task to a todolist: at the end, in a section, under a parent task, or before or after another task. Metadata (priority, estimate, tags, owners, due date, dependencies) is written inline, and the task gets the next free ID if the todolist uses IDs. The rest of the file is left as it was. Does not call the model.',
+    parameters: z.object({
+      text: z.string().describe('The task text, e.g. "Write the migration for the users table"'),
+      ...metadataParameters,
+      notes: z.string().optional().describe('Notes to put under the task; each line becomes a note line'),
+      ...locationParameters,
+      todolist_file: z.string().describe('Path to the todolist markdown file'),
+      create_backup: z.boolean().optional().describe('Whether to create a backup of the original file (default: true)'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { text, notes, todolist_file, create_backup = true, workspace_root } = args;
+        
+        // Validate inputs
+        if (!text.trim()) {
+          return 'Error: The task text is empty.';
+        }
+        
+        const loaded = await loadTodolist(workspace_root, todolist_file);
+        if ('error' in loaded) {
+          return `Error: ${loaded.error}`;
+        }
+        const { resolvedPath, content, document } = loaded;
+        
+        const location = resolveLocation(document, args);
+        if ('error' in location) {
+          return `Error: ${location.error}`;
+        }
+        const update = readMetadataUpdate(document, args);
+        if ('error' in update) {
+          return `Error: ${update.error}`;
+        }
+        
+        // New tasks continue the todolist's IDs, if it uses them
+        const id = listTasks(document).some(entry => getTaskId(entry.task)) ? getNextTaskId(document) : undefined;
+        const task = addTask(document, text, location);
+        applyMetadataUpdate(task, update);
+        if (id) {
+          setTaskId(task, id);
+        }
+        if (notes?.trim()) {
+          addTaskNote(task, notes);
+        }
+        rollUpTasks(document, []);
+        
+        const change = { tool: 'add_task', summary: `Added "${task.text.trim()}"` };
+        await saveTodolist(workspace_root, resolvedPath, todolist_file, change, content, document, create_backup);
+        
+        return `Added task "${task.text.trim()}"${id ? ` (${id})` : ''} ${describeLocation(args)} in "${resolvedPath}".\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to add task - ${errorMessage}`;
+      }
+    },
+  });
+};
+
+/**
+ * Register the update_task tool
+ * @param server The MCP server
+ */
+export const registerUpdateTaskTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'update_task',
+    description: 'Edit a task in a todolist: reword it, change its priority, estimate, tags, owners, due date or dependencies, or add a note. Rewording keeps the task\'s ID, metadata and progress. Use set_task_status to change its state. Does not call the model.',
+    parameters: z.object({
+      task: z.string().optional().describe('The task to update (text of the task from the todolist); or give task_id'),
+      task_id: z.string().optional().describe('The ID of the task to update, e.g. T-014; takes precedence over task'),
+      text: z.string().optional().describe('The new task text; metadata written in it is kept along with the old metadata'),
+      ...metadataParameters,
+      note: z.string().optional().describe('A note to add under the task, after its existing notes'),
+      todolist_file: z.string().describe('Path to the todolist markdown file'),
+      create_backup: z.boolean().optional().describe('Whether to create a backup of the original file (default: true)'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { task_id, text, note, todolist_file, create_backup = true, workspace_root } = args;
+        
+        // Validate inputs
+        if (!args.task?.trim() && !task_id?.trim()) {
+          return 'Error: Either task or task_id is required.';
+        }
+        if (text !== undefined && !text.trim()) {
+          return 'Error: The new task text is empty.';
+        }
+        
+        const loaded = await loadTodolist(workspace_root, todolist_file);
+        if ('error' in loaded) {
+          return `Error: ${loaded.error}`;
+        }
+        const { resolvedPath, content, document } = loaded;
+        
+        const resolvedTask = resolveSingleTask(document, args.task, task_id);
+        if ('error' in resolvedTask) {
+          return `Error: ${resolvedTask.error}`;
+        }
+        const target = resolvedTask.entry.task;
+        const update = readMetadataUpdate(document, args);
+        if ('error' in update) {
+          return `Error: ${update.error}`;
+        }
+        
+        const cyclesBefore = countDependencyCycles(document);
+        if (text !== undefined) {
+          setTaskTitle(target, text);
+        }
+        applyMetadataUpdate(target, update);
+        if (note?.trim()) {
+          addTaskNote(target, note);
+        }
+        if (countDependencyCycles(document) > cyclesBefore) {
+          return `Error: The dependencies of "${resolvedTask.text}" would form a cycle. No changes made.`;
+        }
+        rollUpTasks(document, []);
+        
+        const updatedContent = serializeTodolist(document);
+        if (updatedContent === content) {
+          return `No changes made: Task "${resolvedTask.text}" already looks like that.`;
+        }
+        const change = { tool: 'update_task', summary: `Updated "${resolvedTask.text}"` };
+        await saveTodolist(workspace_root, resolvedPath, todolist_file, change, content, document, create_backup, updatedContent);
+        
+        return `Updated task "${resolvedTask.text}" in "${resolvedPath}".${resolvedTask.matchNote ? ` ${resolvedTask.matchNote}` : ''} It now reads:\n- [${target.mark}] ${target.text.trim()}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to update task - ${errorMessage}`;
+      }
+    },
+  });
+};
+
+/**
+ * Register the move_task tool
+ * @param server The MCP server
+ */
+export const registerMoveTaskTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'move_task',
+    description: 'Move a task, with its notes and subtasks, to another section, under another task, before or after another task, or to the start or end of its list. The task keeps its ID and is reindented for its new place. Does not call the model.',
+    parameters: z.object({
+      task: z.string().optional().describe('The task to move (text of the task from the todolist); or give task_id'),
+      task_id: z.string().optional().describe('The ID of the task to move, e.g. T-014; takes precedence over task'),
+      ...locationParameters,
+      todolist_file: z.string().describe('Path to the todolist markdown file'),
+      create_backup: z.boolean().optional().describe('Whether to create a backup of the original file (default: true)'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { task_id, section, parent, before, after, position, todolist_file, create_backup = true, workspace_root } = args;
+        
+        // Validate inputs
+        if (!args.task?.trim() && !task_id?.trim()) {
+          return 'Error: Either task or task_id is required.';
+        }
+        if (!section && !parent && !before && !after && !position) {
+          return 'Error: Say where the task goes with section, parent, before, after or position.';
+        }
+        
+        const loaded = await loadTodolist(workspace_root, todolist_file);
+        if ('error' in loaded) {
+          return `Error: ${loaded.error}`;
+        }
+        const { resolvedPath, content, document } = loaded;
+        
+        const resolvedTask = resolveSingleTask(document, args.task, task_id);
+        if ('error' in resolvedTask) {
+          return `Error: ${resolvedTask.error}`;
+        }
+        
+        // Position alone moves the task within the list it is in
+        const entry = resolvedTask.entry;
+        const location = section || parent || before || after
+          ? resolveLocation(document, args)
+          : entry.parent ? { parent: entry.parent, position } : entry.section ? { section: entry.section, position } : { position };
+        if ('error' in location) {
+          return `Error: ${location.error}`;
+        }
+        
+        moveTask(document, entry.task, location);
+        const completedParents = rollUpRemovedTask(document, entry.parent, [entry.task]);
+        
+        const updatedContent = serializeTodolist(document);
+        if (updatedContent === content) {
+          return `No changes made: Task "${resolvedTask.text}" is already there.`;
+        }
+        const change = { tool: 'move_task', summary: `Moved "${resolvedTask.text}"` };
+        await saveTodolist(workspace_root, resolvedPath, todolist_file, change, content, document, create_backup, updatedContent);
+        
+        const subtasks = countNestedTasks(entry.task);
+        const withSubtasks = subtasks > 0 ? ` with ${subtasks} ${subtasks === 1 ? 'subtask' : 'subtasks'}` : '';
+        return `Moved task "${resolvedTask.text}"${withSubtasks} ${describeLocation(section || parent || before || after ? args : { position: position ?? 'end' })} in "${resolvedPath}".${resolvedTask.matchNote ? ` ${resolvedTask.matchNote}` : ''}${describeCompletedParents(completedParents)}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to move task - ${errorMessage}`;
+      }
+    },
+  });
+};
+
+/**
+ * Register the remove_task tool
+ * @param server The MCP server
+ */
+export const registerRemoveTaskTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'remove_task',
+    description: 'Delete a task, with its notes and subtasks, from a todolist. A task with subtasks or one that other tasks depend on is only removed with force=true, which also drops it from the other tasks\' dependencies. To keep a record of a task that will not be done, set its status to cancelled instead. Does not call the model.',
+    parameters: z.object({
+      task: z.string().optional().describe('The task to remove (text of the task from the todolist); or give task_id'),
+      task_id: z.string().optional().describe('The ID of the task to remove, e.g. T-014; takes precedence over task'),
+      force: z.boolean().optional().describe('If true, remove the task even if it has subtasks or other tasks depend on it (default: false)'),
+      todolist_file: z.string().describe('Path to the todolist markdown file'),
+      create_backup: z.boolean().optional().describe('Whether to create a backup of the original file (default: true)'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { task_id, force = false, todolist_file, create_backup = true, workspace_root } = args;
+        
+        // Validate inputs
+        if (!args.task?.trim() && !task_id?.trim()) {
+          return 'Error: Either task or task_id is required.';
+        }
+        
+        const loaded = await loadTodolist(workspace_root, todolist_file);
+        if ('error' in loaded) {
+          return `Error: ${loaded.error}`;
+        }
+        const { resolvedPath, content, document } = loaded;
+        
+        const resolvedTask = resolveSingleTask(document, args.task, task_id);
+        if ('error' in resolvedTask) {
+          return `Error: ${resolvedTask.error}`;
+        }
+        const target = resolvedTask.entry.task;
+        
+        // Tasks that would lose something: the subtasks, and the tasks outside the removed ones waiting for them
+        const subtasks = countNestedTasks(target);
+        const removed = listTasks(document).filter(({ task }) => task === target || containsTask(target, task));
+        const ids = new Set(removed.map(({ task }) => getTaskId(task)?.toUpperCase()).filter((id): id is string => !!id));
+        const dependents = listTasks(document).filter(({ task }) =>
+          !removed.some(entry => entry.task === task) && getTaskDependencies(task).some(id => ids.has(id)));
+        if ((subtasks > 0 || dependents.length > 0) && !force) {
+          const reasons = [
+            ...(subtasks > 0 ? [`- It has ${subtasks} ${subtasks === 1 ? 'subtask' : 'subtasks'}, which would be removed too.`] : []),
+            ...dependents.map(({ task }) => `- "${task.text.trim()}" depends on ${subtasks > 0 ? 'it or its subtasks' : 'it'}`)
+          ];
+          return `No changes made: Task "${resolvedTask.text}" is not safe to remove:\n${reasons.join('\n')}\n\nTo remove it anyway, pass force=true. To keep a record of it, set its status to cancelled instead.`;
+        }
+        
+        removeTask(document, target);
+        for (const { task } of dependents) {
+          setTaskDependencies(task, getTaskDependencies(task).filter(id => !ids.has(id)));
+        }
+        const completedParents = rollUpRemovedTask(document, resolvedTask.entry.parent);
+        
+        const change = { tool: 'remove_task', summary: `Removed "${resolvedTask.text}"` };
+        await saveTodolist(workspace_root, resolvedPath, todolist_file, change, content, document, create_backup);
+        
+        const removedSubtasks = subtasks > 0 ? ` and its ${subtasks} ${subtasks === 1 ? 'subtask' : 'subtasks'}` : '';
+        const dependencyNote = dependents.length > 0
+          ? `\nAlso removed ${subtasks > 0 ? 'their IDs' : 'its ID'} from the dependencies of ${dependents.length} ${dependents.length === 1 ? 'task' : 'tasks'}.`
+          : '';
+        return `Removed task "${resolvedTask.text}"${removedSubtasks} from "${resolvedPath}".${resolvedTask.matchNote ? ` ${resolvedTask.matchNote}` : ''}${dependencyNote}${describeCompletedParents(completedParents)}${create_backup ? `\nBackup: "${resolvedPath}.bak"` : ''}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to remove task - ${errorMessage}`;
+      }
+    },
+  });
+};
+
+/**
+ * Read and parse a todolist file
+ * @param workspaceRoot The workspace root
+ * @param todolistFile The todolist path as given
+ * @returns The resolved path, the content and the parsed todolist, or an error message
+ */
+async function loadTodolist(
+  workspaceRoot: string,
+  todolistFile: string
+): Promise<{ resolvedPath: string; content: string; document: TodolistDocument } | { error: string }> {
+  const resolvedPath = resolveWorkspacePath(workspaceRoot, todolistFile);
+  if (!await fileExists(resolvedPath)) {
+    return { error: `Todolist file "${resolvedPath}" does not exist.` };
+  }
+  
+  const content = await readFile(resolvedPath);
+  if (!content) {
+    return { error: `Failed to read content from "${resolvedPath}".` };
+  }
+  return { resolvedPath, content, document: parseTodolist(content) };
+}
+
+/**
+ * Write an edited todolist back, after backing up the original and recording the change, and make its project the current one
+ * @param workspaceRoot The workspace root
+ * @param resolvedPath The todolist path
+ * @param todolistFile The todolist path as given
+ * @param change The tool and what it did
+ * @param original The content before the edit
+ * @param document The edited todolist
+ * @param createBackup Whether to write the original to a .bak file
+ * @param updatedContent The serialized todolist, if already known
+ */
+async function saveTodolist(
+  workspaceRoot: string,
+  resolvedPath: string,
+  todolistFile: string,
+  change: { tool: string; summary: string },
+  original: string,
+  document: TodolistDocument,
+  createBackup: boolean,
+  updatedContent = serializeTodolist(document)
+): Promise<void> {
+  if (createBackup) {
+    await createFile(`${resolvedPath}.bak`, original, true);
+  }
+  await recordTodolistChange(workspaceRoot, { file: resolvedPath, ...change, before: original, after: updatedContent });
+  await createFile(resolvedPath, updatedContent, true);
+  
+  ProjectContextManager.getInstance().setCurrentProject(
+    path.basename(todolistFile, path.extname(todolistFile)),
+    path.dirname(resolvedPath)
+  );
+}
+
+/**
+ * Resolve a task reference that must name exactly one task
+ * @param document The todolist
+ * @param task The task text, if given
+ * @param taskId The task ID, if given
+ * @returns The task, its text and how it was matched when not by ID or exact text, or an error message
+ */
+function resolveSingleTask(
+  document: TodolistDocument,
+  task?: string,
+  taskId?: string
+): { text: string; entry: TaskEntry; matchNote: string } | { error: string } {
+  const resolved = resolveTaskReference(document, task, taskId);
+  if ('error' in resolved) {
+    return resolved;
+  }
+  
+  const { text, matches } = resolved;
+  if (matches.length === 0) {
+    return { error: describeUnresolvedTask(resolved) };
+  }
+  if (matches.length > 1) {
+    const lines = matches.map(({ task: match }) => `- [${match.mark}] ${getTaskId(match) ?? `line ${match.line}`}`);
+    return { error: `${matches.length} tasks have the text "${text}":\n${lines.join('\n')}\n\nGive task_id to choose one; use assign_task_ids if they have no IDs.` };
+  }
+  return { text, entry: matches[0], matchNote: describeTaskMatch(resolved, task) };
+}
+
+/**
+ * Say which parents were checked because their remaining subtasks are all done
+ * @param parents The parents rollUpTasks checked
+ * @returns One line per parent, each starting with a line break
+ */
+function describeCompletedParents(parents: TaskNode[]): string {
+  return parents.map(parent => `\nAlso checked "${parent.text.trim()}" because all its subtasks are done.`).join('');
+}
+
+/**
+ * Turn the location parameters into a place in the todolist
+ * @param document The todolist
+ * @param args The section, parent, before, after and position parameters
+ * @returns The location, or an error message
+ */
+function resolveLocation(
+  document: TodolistDocument,
+  args: { section?: string; parent?: string; before?: string; after?: string; position?: 'start' | 'end' }
+): TaskLocation | { error: string } {
+  const { section, parent, before, after, position } = args;
+  const given = [section, parent, before, after].filter(value => value?.trim());
+  if (given.length > 1) {
+    return { error: 'Give at most one of section, parent, before and after.' };
+  }
+  if (position && (before || after)) {
+    return { error: 'position only applies with section or parent.' };
+  }
+  
+  if (section?.trim()) {
+    const sections = findSectionsByTitle(document, section);
+    if (sections.length === 0) {
+      const headings = listSections(document).map(candidate => `- ${candidate.title}`);
+      return { error: `No section has the heading "${section.trim()}".${headings.length > 0 ? ` The sections are:\n${headings.join('\n')}` : ' The todolist has no sections.'}` };
+    }
+    if (sections.length > 1) {
+      return { error: `${sections.length} sections have the heading "${section.trim()}". Place the task before or after a task in the one you mean.` };
+    }
+    return { section: sections[0], position };
+  }
+  
+  const reference = parent ?? before ?? after;
+  if (!reference?.trim()) {
+    return { position };
+  }
+  const resolved = resolveSingleTask(document, reference);
+  if ('error' in resolved) {
+    return resolved;
+  }
+  
+  const task = resolved.entry.task;
+  if (parent) {
+    // Resolved tasks take no new work; the same rule keeps merged subtasks out of them
+    if (isTaskResolved(task)) {
+      return { error: `Task "${resolved.text}" is ${formatTaskStatus(getTaskStatus(task))}. Reopen it with set_task_status before adding subtasks to it.` };
+    }
+    return { parent: task, position };
+  }
+  return before ? { before: task } : { after: task };
+}
+
+/**
+ * Describe where a task was put, from the location parameters
+ * @param args The section, parent, before, after and position parameters
+ * @returns A phrase such as `in section "Backend"`
+ */
+function describeLocation(args: { section?: string; parent?: string; before?: string; after?: string; position?: 'start' | 'end' }): string {
+  const place = args.position === 'start' ? 'at the start' : 'at the end';
+  if (args.section?.trim()) return `${place} of section "${args.section.trim()}"`;
+  if (args.parent?.trim()) return `${place} of the subtasks of "${args.parent.trim()}"`;
+  if (args.before?.trim()) return `before "${args.before.trim()}"`;
+  if (args.after?.trim()) return `after "${args.after.trim()}"`;
+  return args.position ? `${place} of its list` : 'at the end of the todolist';
+}
+
+/**
+ * Check and convert the metadata parameters
+ * @param document The todolist, to check dependencies against
+ * @param args The metadata parameters
+ * @returns The metadata update and dependencies, or an error message
+ */
+function readMetadataUpdate(
+  document: TodolistDocument,
+  args: { priority?: string; estimate?: string; tags?: string[]; owners?: string[]; due?: string; depends_on?: string[] }
+): { metadata: TaskMetadataUpdate; dependencies?: string[] } | { error: string } {
+  const cleared = (value?: string) => value !== undefined && /^(none)?$/i.test(value.trim());
+  const metadata: TaskMetadataUpdate = {};
+  
+  if (args.priority !== undefined) {
+    metadata.priority = args.priority === 'none' ? null : args.priority as TaskMetadataUpdate['priority'];
+  }
+  if (args.estimate !== undefined) {
+    const estimate = args.estimate.trim().replace(/^~/, '');
+    if (!cleared(estimate) && parseEstimate(estimate) === undefined) {
+      return { error: `"${args.estimate}" is not an estimate. Use a number with m, h, d or w, e.g. 3h or 90m.` };
+    }
+    metadata.estimate = cleared(estimate) ? null : estimate;
+  }
+  if (args.due !== undefined) {
+    if (!cleared(args.due) && !isValidDate(args.due.trim())) {
+      return { error: `due must be a date in YYYY-MM-DD form, got "${args.due}".` };
+    }
+    metadata.due = cleared(args.due) ? null : args.due.trim();
+  }
+  
+  // Tags and owners are single words; anything else would not read back as a token
+  for (const [name, values, pattern] of [['tags', args.tags, /^#?[A-Za-z][\w/-]*$/], ['owners', args.owners, /^@?[A-Za-z0-9_][\w.-]*$/]] as const) {
+    const invalid = values?.find(value => !pattern.test(value.trim()));
+    if (invalid !== undefined) {
+      return { error: `"${invalid}" cannot be used in ${name}; use single words such as "backend".` };
+    }
+  }
+  if (args.tags) metadata.tags = args.tags.map(tag => tag.trim());
+  if (args.owners) metadata.owners = args.owners.map(owner => owner.trim());
+  
+  if (args.depends_on) {
+    for (const id of args.depends_on) {
+      if (!isTaskId(id)) {
+        return { error: `"${id}" in depends_on is not a task ID. IDs look like T-014.` };
+      }
+      if (!findTaskById(document, id)) {
+        return { error: `No task has the ID ${id.trim()}, so nothing can depend on it.` };
+      }
+    }
+  }
+  return { metadata, dependencies: args.depends_on };
+}
+
+/**
+ * Write checked metadata parameters onto a task
+ * @param task The task to update in place
+ * @param update The metadata update and dependencies
+ */
+function applyMetadataUpdate(task: TaskNode, update: { metadata: TaskMetadataUpdate; dependencies?: string[] }): void {
+  // Keep tokens that are already there when only some fields change
+  if (Object.keys(update.metadata).length > 0) {
+    updateTaskMetadata(task, update.metadata);
+  }
+  if (update.dependencies) {
+    setTaskDependencies(task, update.dependencies);
+  }
+}
+
+/**
+ * Count the dependency cycles in a todolist
+ * @param document The todolist
+ * @returns The number of cycle issues
+ */
+function countDependencyCycles(document: TodolistDocument): number {
+  return orderTasks(document).issues.filter(issue => issue.type === 'cycle').length;
+}
+
+/**
+ * Count the subtasks under a task, at any depth
+ * @param task The task
+ * @returns The number of nested tasks
+ */
+function countNestedTasks(task: TaskNode): number {
+  return getSubtasks(task).reduce((count, subtask) => count + 1 + countNestedTasks(subtask), 0);
+}
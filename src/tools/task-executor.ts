@@ -9,14 +9,34 @@ import path from 'path';
 import fs from 'fs/promises';
 import { existsSync } from 'fs';
 
-import { ToolRegistration } from './types.js';
+import { ToolRegistration, FileOperationType } from './types.js';
 import { ProjectContextManager } from '../context/index.js';
+import { LLMCallContext, PromptEchoError, PromptHandoffError, formatPromptEcho, formatCacheStats } from '../llm/index.js';
+import { createHandoffResponse, registerResumableTool } from './handoff.js';
+import { ToolProgress } from './progress.js';
 import { createImplementationPlan, parsePlanIntoActions } from '../utils/llm-utils.js';
 import { 
   fileExists, readFile, createFile, editFile,
-  deleteFile, moveFile, copyFile, createDirectory
+  deleteFile, moveFile, copyFile, createDirectory, deleteDirectory
 } from '../utils/file-utils.js';
 import { resolveWorkspacePath, ensureRelativePath } from '../utils/path-utils.js';
+import {
+  parseTodolist, describeTaskMismatch, resolveTaskReference, describeUnresolvedTask, describeTaskMatch, getTaskId
+} from '../todolist/index.js';
+
+/**
+ * Parameters for the task_executor tool
+ */
+const taskExecutorParameters = z.object({
+  task: z.string().optional().describe('The task to implement (text of the task from the todolist); or give task_id'),
+  task_id: z.string().optional().describe('The ID of the task to implement, e.g. T-014; takes precedence over task'),
+  todolist_file: z.string().describe('Path to the todolist markdown file for context'),
+  target_directory: z.string().describe('Target directory for file operations (relative to workspace root)'),
+  plan_file: z.string().optional().describe('Optional path to a plan file (if not provided, one will be generated)'),
+  validate_plan: z.boolean().optional().describe('If true, just validate the plan without executing it (default: false)'),
+  no_cache: z.boolean().optional().describe('If true, call the model even when a cached response exists (default: false)'),
+  workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+});
 
 /**
  * Register the task_executor tool
@@ -26,148 +46,241 @@ export const registerTaskExecutorTool: ToolRegistration = (server: FastMCP) => {
   server.addTool({
     name: 'task_executor',
     description: 'Execute a planned task by implementing the necessary file operations based on the implementation plan. Use validate_plan=true to preview actions without executing them.',
-    parameters: z.object({
-      task: z.string().describe('The task to implement (text of the task from the todolist)'),
-      todolist_file: z.string().describe('Path to the todolist markdown file for context'),
-      target_directory: z.string().describe('Target directory for file operations (relative to workspace root)'),
-      plan_file: z.string().optional().describe('Optional path to a plan file (if not provided, one will be generated)'),
-      validate_plan: z.boolean().optional().describe('If true, just validate the plan without executing it (default: false)'),
-      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
-    }),
-    execute: async (args, req) => {
-      try {
-        const { task, todolist_file, target_directory, plan_file, validate_plan = false, workspace_root } = args;
-        
-        // Validate inputs
-        if (!task.trim()) {
-          return 'Error: Task description cannot be empty.';
+    parameters: taskExecutorParameters,
+    execute: async (args, req) => executeTask(args),
+  });
+  
+  // Allow submit_llm_result to finish this tool after a prompt handoff
+  registerResumableTool('task_executor', executeTask);
+};
+
+/**
+ * Generate or load a plan for a task and apply its file operations
+ * @param args The tool arguments
+ * @param llmContext Per-invocation LLM context, including answers submitted through submit_llm_result
+ * @returns The tool response
+ */
+async function executeTask(args: z.infer<typeof taskExecutorParameters>, llmContext: LLMCallContext = {}): Promise<string> {
+  try {
+    const { task_id, todolist_file, target_directory, plan_file, validate_plan = false, no_cache = false, workspace_root } = args;
+    
+    // Validate inputs
+    if (!args.task?.trim() && !task_id?.trim()) {
+      return 'Error: Either task or task_id is required.';
+    }
+    
+    // Resolve the todolist file path
+    const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
+    
+    // Check if todolist file exists
+    if (!await fileExists(resolvedTodolistPath)) {
+      return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
+    }
+    
+    // Resolve target directory
+    const resolvedTargetDir = resolveWorkspacePath(workspace_root, target_directory);
+    
+    // Ensure target directory exists
+    if (!existsSync(resolvedTargetDir)) {
+      await fs.mkdir(resolvedTargetDir, { recursive: true });
+    }
+    
+    // Per-invocation LLM context, counting response cache hits and misses
+    const llmCallContext: LLMCallContext = {
+      ...llmContext,
+      workspaceRoot: workspace_root,
+      noCache: no_cache || !!llmContext.noCache,
+      cacheStats: llmContext.cacheStats ?? { hits: 0, misses: 0 }
+    };
+    
+    // Report each phase and operation to the client, and stop between them if it cancels
+    const progress = new ToolProgress();
+    
+    // Read the todolist for context
+    const todolistContent = await readFile(resolvedTodolistPath);
+    if (!todolistContent) {
+      return `Error: Failed to read content from "${resolvedTodolistPath}".`;
+    }
+    
+    // Resolve the task by ID or text
+    const todolist = parseTodolist(todolistContent);
+    const resolvedTask = resolveTaskReference(todolist, args.task, task_id);
+    if ('error' in resolvedTask) {
+      return `Error: ${resolvedTask.error}`;
+    }
+    if (resolvedTask.ambiguous) {
+      return `Error: ${describeUnresolvedTask(resolvedTask)}`;
+    }
+    const task = resolvedTask.text;
+    const taskId = resolvedTask.matches.length === 1 ? getTaskId(resolvedTask.matches[0].task) : undefined;
+    
+    // The task still gets executed when it is not an open task of the list, but the caller is told
+    const taskWarning = resolvedTask.matches.length === 0
+      ? describeUnresolvedTask(resolvedTask)
+      : [describeTaskMatch(resolvedTask, args.task), describeTaskMismatch(todolist, task)].filter(Boolean).join(' ');
+    
+    // Get implementation plan (either from file or generate new)
+    let implementationPlan: string;
+    
+    if (plan_file) {
+      // Use existing plan file
+      const resolvedPlanPath = resolveWorkspacePath(workspace_root, plan_file);
+      
+      if (!await fileExists(resolvedPlanPath)) {
+        return `Error: Plan file "${resolvedPlanPath}" does not exist.`;
+      }
+      
+      await progress.report(`Reading implementation plan from ${resolvedPlanPath}`);
+      implementationPlan = await readFile(resolvedPlanPath);
+      if (!implementationPlan) {
+        return `Error: Failed to read plan from "${resolvedPlanPath}".`;
+      }
+    } else {
+      // Generate a new implementation plan
+      await progress.report('Generating implementation plan');
+      implementationPlan = await createImplementationPlan(task, todolistContent, llmCallContext);
+    }
+    
+    if (progress.cancelled) {
+      return formatCancelledExecution(task, [], undefined);
+    }
+    
+    // Parse the plan into executable actions
+    await progress.report('Parsing the plan into file operations');
+    const actions = await parsePlanIntoActions(implementationPlan, task, llmCallContext);
+    
+    if (progress.cancelled) {
+      return formatCancelledExecution(task, [], actions.length);
+    }
+    
+    // Validate mode - just show the actions without executing
+    if (validate_plan) {
+      const actionsDescription = actions.map((action, index) => {
+        switch (action.type) {
+          case FileOperationType.CREATE_FILE:
+            return `${index + 1}. CREATE FILE: ${path.join(target_directory, ensureRelativePath(action.path))}`;
+          case FileOperationType.EDIT_FILE:
+            return `${index + 1}. EDIT FILE: ${path.join(target_directory, ensureRelativePath(action.path))}`;
+          case FileOperationType.DELETE_FILE:
+            return `${index + 1}. DELETE FILE: ${path.join(target_directory, ensureRelativePath(action.path))}`;
+          case FileOperationType.MOVE_FILE:
+            return `${index + 1}. MOVE FILE: ${path.join(target_directory, ensureRelativePath(action.from))} → ${path.join(target_directory, ensureRelativePath(action.to))}`;
+          case FileOperationType.COPY_FILE:
+            return `${index + 1}. COPY FILE: ${path.join(target_directory, ensureRelativePath(action.from))} → ${path.join(target_directory, ensureRelativePath(action.to))}`;
+          case FileOperationType.CREATE_DIRECTORY:
+            return `${index + 1}. CREATE DIRECTORY: ${path.join(target_directory, ensureRelativePath(action.path))}`;
+          case FileOperationType.DELETE_DIRECTORY:
+            return `${index + 1}. DELETE DIRECTORY: ${path.join(target_directory, ensureRelativePath(action.path))}`;
         }
-        
-        // Resolve the todolist file path
-        const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
-        
-        // Check if todolist file exists
-        if (!await fileExists(resolvedTodolistPath)) {
-          return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
+      }).join('\n');
+      
+      const cacheSummary = formatCacheStats(llmCallContext.cacheStats);
+      return `Plan validation for task "${task}":${taskWarning ? `\n\nWarning: ${taskWarning}` : ''}\n\n${actions.length} actions to execute:\n\n${actionsDescription}\n\nTo execute these actions, run this tool again with validate_plan=false.${cacheSummary ? `\n\n${cacheSummary}` : ''}`;
+    }
+    
+    // Execute the actions
+    const results: string[] = [];
+    
+    for (const [index, action] of actions.entries()) {
+      // Stop cleanly between operations when the client cancels
+      if (progress.cancelled) {
+        return formatCancelledExecution(task, results, actions.length);
+      }
+      
+      if (action.type === FileOperationType.CREATE_FILE) {
+        const filePath = path.join(resolvedTargetDir, ensureRelativePath(action.path));
+        const result = await createFile(filePath, action.content, true);
+        results.push(`Created file: ${filePath}`);
+      } else if (action.type === FileOperationType.EDIT_FILE) {
+        const filePath = path.join(resolvedTargetDir, ensureRelativePath(action.path));
+        if (await fileExists(filePath)) {
+          const result = await editFile(filePath, action.changes);
+          results.push(`Edited file: ${filePath}`);
+        } else {
+          results.push(`Warning: Cannot edit non-existent file: ${filePath}`);
         }
-        
-        // Resolve target directory
-        const resolvedTargetDir = resolveWorkspacePath(workspace_root, target_directory);
-        
-        // Ensure target directory exists
-        if (!existsSync(resolvedTargetDir)) {
-          await fs.mkdir(resolvedTargetDir, { recursive: true });
+      } else if (action.type === FileOperationType.DELETE_FILE) {
+        const filePath = path.join(resolvedTargetDir, ensureRelativePath(action.path));
+        if (await fileExists(filePath)) {
+          const result = await deleteFile(filePath);
+          results.push(`Deleted file: ${filePath}`);
+        } else {
+          results.push(`Warning: Cannot delete non-existent file: ${filePath}`);
         }
-        
-        // Get implementation plan (either from file or generate new)
-        let implementationPlan: string;
-        
-        if (plan_file) {
-          // Use existing plan file
-          const resolvedPlanPath = resolveWorkspacePath(workspace_root, plan_file);
-          
-          if (!await fileExists(resolvedPlanPath)) {
-            return `Error: Plan file "${resolvedPlanPath}" does not exist.`;
-          }
-          
-          implementationPlan = await readFile(resolvedPlanPath);
-          if (!implementationPlan) {
-            return `Error: Failed to read plan from "${resolvedPlanPath}".`;
-          }
+      } else if (action.type === FileOperationType.MOVE_FILE) {
+        const fromPath = path.join(resolvedTargetDir, ensureRelativePath(action.from));
+        const toPath = path.join(resolvedTargetDir, ensureRelativePath(action.to));
+        if (await fileExists(fromPath)) {
+          const result = await moveFile(fromPath, toPath, true);
+          results.push(`Moved file: ${fromPath} → ${toPath}`);
         } else {
-          // Generate a new implementation plan
-          const todolistContent = await readFile(resolvedTodolistPath);
-          if (!todolistContent) {
-            return `Error: Failed to read content from "${resolvedTodolistPath}".`;
-          }
-          
-          implementationPlan = await createImplementationPlan(task, todolistContent);
+          results.push(`Warning: Cannot move non-existent file: ${fromPath}`);
         }
-        
-        // Parse the plan into executable actions
-        const actions = await parsePlanIntoActions(implementationPlan, task);
-        
-        // Validate mode - just show the actions without executing
-        if (validate_plan) {
-          const actionsDescription = actions.map((action: any, index: number) => {
-            if (action.type === 'create_file') {
-              return `${index + 1}. CREATE FILE: ${path.join(target_directory, ensureRelativePath(action.path))}`;
-            } else if (action.type === 'edit_file') {
-              return `${index + 1}. EDIT FILE: ${path.join(target_directory, ensureRelativePath(action.path))}`;
-            } else if (action.type === 'delete_file') {
-              return `${index + 1}. DELETE FILE: ${path.join(target_directory, ensureRelativePath(action.path))}`;
-            } else if (action.type === 'move_file') {
-              return `${index + 1}. MOVE FILE: ${path.join(target_directory, ensureRelativePath(action.from))} → ${path.join(target_directory, ensureRelativePath(action.to))}`;
-            } else if (action.type === 'copy_file') {
-              return `${index + 1}. COPY FILE: ${path.join(target_directory, ensureRelativePath(action.from))} → ${path.join(target_directory, ensureRelativePath(action.to))}`;
-            }
-            return `${index + 1}. UNKNOWN ACTION: ${action.type}`;
-          }).join('\n');
-          
-          return `Plan validation for task "${task}":\n\n${actions.length} actions to execute:\n\n${actionsDescription}\n\nTo execute these actions, run this tool again with validate_plan=false.`;
+      } else if (action.type === FileOperationType.COPY_FILE) {
+        const fromPath = path.join(resolvedTargetDir, ensureRelativePath(action.from));
+        const toPath = path.join(resolvedTargetDir, ensureRelativePath(action.to));
+        if (await fileExists(fromPath)) {
+          const result = await copyFile(fromPath, toPath, true);
+          results.push(`Copied file: ${fromPath} → ${toPath}`);
+        } else {
+          results.push(`Warning: Cannot copy non-existent file: ${fromPath}`);
         }
-        
-        // Execute the actions
-        const results = [];
-        
-        for (const action of actions) {
-          const actionType = action.type;
-          
-          if (actionType === 'create_file') {
-            const filePath = path.join(resolvedTargetDir, ensureRelativePath(action.path));
-            const result = await createFile(filePath, action.content, true);
-            results.push(`Created file: ${filePath}`);
-          } else if (actionType === 'edit_file') {
-            const filePath = path.join(resolvedTargetDir, ensureRelativePath(action.path));
-            if (await fileExists(filePath)) {
-              const result = await editFile(filePath, action.changes);
-              results.push(`Edited file: ${filePath}`);
-            } else {
-              results.push(`Warning: Cannot edit non-existent file: ${filePath}`);
-            }
-          } else if (actionType === 'delete_file') {
-            const filePath = path.join(resolvedTargetDir, ensureRelativePath(action.path));
-            if (await fileExists(filePath)) {
-              const result = await deleteFile(filePath);
-              results.push(`Deleted file: ${filePath}`);
-            } else {
-              results.push(`Warning: Cannot delete non-existent file: ${filePath}`);
-            }
-          } else if (actionType === 'move_file') {
-            const fromPath = path.join(resolvedTargetDir, ensureRelativePath(action.from));
-            const toPath = path.join(resolvedTargetDir, ensureRelativePath(action.to));
-            if (await fileExists(fromPath)) {
-              const result = await moveFile(fromPath, toPath, true);
-              results.push(`Moved file: ${fromPath} → ${toPath}`);
-            } else {
-              results.push(`Warning: Cannot move non-existent file: ${fromPath}`);
-            }
-          } else if (actionType === 'copy_file') {
-            const fromPath = path.join(resolvedTargetDir, ensureRelativePath(action.from));
-            const toPath = path.join(resolvedTargetDir, ensureRelativePath(action.to));
-            if (await fileExists(fromPath)) {
-              const result = await copyFile(fromPath, toPath, true);
-              results.push(`Copied file: ${fromPath} → ${toPath}`);
-            } else {
-              results.push(`Warning: Cannot copy non-existent file: ${fromPath}`);
-            }
-          }
+      } else if (action.type === FileOperationType.CREATE_DIRECTORY) {
+        const dirPath = path.join(resolvedTargetDir, ensureRelativePath(action.path));
+        const result = await createDirectory(dirPath);
+        results.push(`Created directory: ${dirPath}`);
+      } else if (action.type === FileOperationType.DELETE_DIRECTORY) {
+        const dirPath = path.join(resolvedTargetDir, ensureRelativePath(action.path));
+        if (existsSync(dirPath)) {
+          const result = await deleteDirectory(dirPath, action.recursive ?? false);
+          results.push(result.startsWith('Error:') ? `Warning: ${result.replace(/^Error:\s*/, '')}` : `Deleted directory: ${dirPath}`);
+        } else {
+          results.push(`Warning: Cannot delete non-existent directory: ${dirPath}`);
         }
-        
-        // Update project context
-        ProjectContextManager.getInstance().setCurrentProject(
-          path.basename(todolist_file, path.extname(todolist_file)),
-          resolvedTargetDir
-        );
-        
-        // Return success response
-        const response = `Successfully executed ${results.length} operations for task "${task}".\n\nResults:\n${results.join('\n')}\n\nNext steps:\n1. Review the implemented files\n2. Test the implementation\n3. Mark the task as complete using the mark_task_complete tool\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
-        
-        return response;
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return `Error: Failed to execute task - ${errorMessage}`;
       }
-    },
-  });
-}; 
\ No newline at end of file
+      
+      await progress.report(results[results.length - 1], index + 1, actions.length);
+    }
+    
+    // Update project context
+    ProjectContextManager.getInstance().setCurrentProject(
+      path.basename(todolist_file, path.extname(todolist_file)),
+      resolvedTargetDir
+    );
+    
+    // Report response cache use
+    const cacheSummary = formatCacheStats(llmCallContext.cacheStats);
+    
+    // Return success response
+    const response = `Successfully executed ${results.length} operations for task "${task}".${taskWarning ? `\n\nWarning: ${taskWarning}` : ''}\n\nResults:\n${results.join('\n')}\n\nNext steps:\n1. Review the implemented files\n2. Test the implementation\n3. Mark the task as complete using the mark_task_complete tool${taskId ? ` (task_id: ${taskId})` : ''}${cacheSummary ? `\n\n${cacheSummary}` : ''}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+    
+    return response;
+  } catch (error) {
+    // No model could be called: hand the prompt to the caller to finish via submit_llm_result
+    if (error instanceof PromptHandoffError) {
+      return await createHandoffResponse('task_executor', args, llmContext, error);
+    }
+    
+    // The echo provider hands the prompt back instead of generating
+    if (error instanceof PromptEchoError) {
+      return formatPromptEcho(error);
+    }
+    
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return `Error: Failed to execute task - ${errorMessage}`;
+  }
+} 
+
+/**
+ * Build the response for a run the client cancelled
+ * @param task The task being executed
+ * @param results The results of the operations applied before cancellation
+ * @param total The number of operations in the plan, if it was parsed
+ * @returns A response listing what was and was not applied
+ */
+function formatCancelledExecution(task: string, results: string[], total: number | undefined): string {
+  const applied = results.length > 0 ? results.join('\n') : 'No operations were applied.';
+  const stage = total === undefined ? 'before the plan was parsed' : `after ${results.length} of ${total} operations`;
+  
+  return `Cancelled: execution of task "${task}" was stopped by the client ${stage}.\n\nApplied:\n${applied}\n\nThe remaining operations were not applied. Run this tool again to execute the full plan.`;
+}
\ No newline at end of file
@@ -9,9 +9,31 @@ import path from 'path';
 
 import { ToolRegistration } from './types.js';
 import { ProjectContextManager } from '../context/index.js';
-import { findNextTask } from '../utils/llm-utils.js';
+import { LLMCallContext, PromptEchoError, PromptHandoffError, formatPromptEcho, formatCacheStats } from '../llm/index.js';
+import { createHandoffResponse, registerResumableTool } from './handoff.js';
+import { findNextTask, chooseNextTask, NextTask } from '../utils/llm-utils.js';
 import { fileExists, readFile } from '../utils/file-utils.js';
 import { resolveWorkspacePath } from '../utils/path-utils.js';
+import {
+  parseTodolist, countTasks, countTasksByStatus, findTasksByText, isTaskActionable, getTaskId, orderTasks,
+  getTaskDependencies, getTaskPriority, getPriorityRank, getTaskStatus, getStatusReason, TaskEntry
+} from '../todolist/index.js';
+
+/**
+ * The most tasks of the dependency order listed in a response
+ */
+const MAX_ORDER_SHOWN = 20;
+
+/**
+ * Parameters for the find_next_task tool
+ */
+const taskFinderParameters = z.object({
+  todolist_file: z.string().describe('Path to the todolist markdown file'),
+  mode: z.enum(['llm', 'deterministic']).optional().describe('llm: the model picks the next task (default). deterministic: order open tasks by their (after: T-003) dependencies, then in-progress first, then priority, then section order'),
+  tie_breaker: z.enum(['order', 'llm']).optional().describe('In deterministic mode, how to choose between equally ranked ready tasks: order picks the first in the todolist (default), llm asks the model'),
+  no_cache: z.boolean().optional().describe('If true, call the model even when a cached response exists (default: false)'),
+  workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+});
 
 /**
  * Register the find_next_task tool
@@ -20,44 +42,184 @@ import { resolveWorkspacePath } from '../utils/path-utils.js';
 export const registerTaskFinderTool: ToolRegistration = (server: FastMCP) => {
   server.addTool({
     name: 'find_next_task',
-    description: 'Identify the next logical unchecked task to implement from the todolist.',
-    parameters: z.object({
-      todolist_file: z.string().describe('Path to the todolist markdown file'),
-      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
-    }),
-    execute: async (args, req) => {
-      try {
-        const { todolist_file, workspace_root } = args;
-        
-        // Resolve the todolist file path
-        const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
-        
-        // Check if todolist file exists
-        if (!await fileExists(resolvedTodolistPath)) {
-          return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
-        }
-        
-        // Read the content of the todolist file
-        const todolistContent = await readFile(resolvedTodolistPath);
-        if (!todolistContent) {
-          return `Error: Failed to read content from "${resolvedTodolistPath}".`;
-        }
-        
-        // Find the next task using the IDE's LLM
-        const nextTask = await findNextTask(todolistContent);
-        
-        // Update project context
-        ProjectContextManager.getInstance().setCurrentProject(
-          path.basename(resolvedTodolistPath, path.extname(resolvedTodolistPath)),
-          path.dirname(resolvedTodolistPath)
-        );
-        
-        // Return the next task
-        return `Next task to implement: "${nextTask}"\n\nTo create a detailed implementation plan for this task, use the plan_task_implementation tool.\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return `Error: Failed to find next task - ${errorMessage}`;
+    description: 'Identify the next logical unchecked task to implement from the todolist. Blocked [!] and cancelled [-] tasks are skipped, and tasks already in progress [~] are preferred.',
+    parameters: taskFinderParameters,
+    execute: async (args, req) => findNextTaskInFile(args),
+  });
+  
+  // Allow submit_llm_result to finish this tool after a prompt handoff
+  registerResumableTool('find_next_task', findNextTaskInFile);
+};
+
+/**
+ * Find the next task to implement in a todolist file
+ * @param args The tool arguments
+ * @param llmContext Per-invocation LLM context, including answers submitted through submit_llm_result
+ * @returns The tool response
+ */
+async function findNextTaskInFile(args: z.infer<typeof taskFinderParameters>, llmContext: LLMCallContext = {}): Promise<string> {
+  try {
+    const { todolist_file, mode = 'llm', tie_breaker = 'order', no_cache = false, workspace_root } = args;
+    
+    // Resolve the todolist file path
+    const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
+    
+    // Check if todolist file exists
+    if (!await fileExists(resolvedTodolistPath)) {
+      return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
+    }
+    
+    // Read the content of the todolist file
+    const todolistContent = await readFile(resolvedTodolistPath);
+    if (!todolistContent) {
+      return `Error: Failed to read content from "${resolvedTodolistPath}".`;
+    }
+    
+    // Nothing to choose from once every task is done, cancelled or blocked
+    const todolist = parseTodolist(todolistContent);
+    const { total, checked } = countTasks(todolist);
+    if (total === 0) {
+      return `Error: No tasks found in "${resolvedTodolistPath}". Tasks are checklist items such as "- [ ] Write the parser".`;
+    }
+    if (checked === total) {
+      return `All ${total} tasks in "${resolvedTodolistPath}" are complete. There is no next task.`;
+    }
+    const counts = countTasksByStatus(todolist);
+    if (counts.open + counts.in_progress === 0) {
+      return `No task in "${resolvedTodolistPath}" can be worked on: ${counts.done} done, ${counts.cancelled} cancelled and ${counts.blocked} blocked.${counts.blocked > 0 ? ' Use set_task_status to unblock a task.' : ''}`;
+    }
+    
+    // Per-invocation LLM context, counting response cache hits and misses
+    const llmCallContext: LLMCallContext = {
+      ...llmContext,
+      workspaceRoot: workspace_root,
+      noCache: no_cache || !!llmContext.noCache,
+      cacheStats: llmContext.cacheStats ?? { hits: 0, misses: 0 }
+    };
+    
+    let nextTask: NextTask;
+    let nextTaskEntry: TaskEntry | undefined;
+    let orderSummary = '';
+    
+    if (mode === 'deterministic') {
+      // Order the open tasks by their dependencies; problems are reported, not guessed around
+      const { ready, order, blocked, stalled, issues } = orderTasks(todolist);
+      if (issues.length > 0) {
+        return `Error: Cannot order the tasks in "${resolvedTodolistPath}":\n${issues.map(issue => `- ${issue.message}`).join('\n')}`;
+      }
+      if (ready.length === 0) {
+        return `No task in "${resolvedTodolistPath}" is ready to start: every open task waits for a blocked task.\n\n${formatBlockedTasks(blocked)}\n\nUse set_task_status to unblock a task once its blocker is resolved.`;
       }
-    },
+      
+      // Ready tasks come sorted; the ones sharing the best state and priority are tied
+      const rank = (entry: TaskEntry) => `${getTaskStatus(entry.task) === 'in_progress' ? 0 : 1}:${getPriorityRank(entry.task)}`;
+      const tied = ready.filter(entry => rank(entry) === rank(ready[0]));
+      if (tie_breaker === 'llm' && tied.length > 1) {
+        nextTask = await chooseNextTask(tied.map(entry => entry.task.text.trim()), todolistContent, llmCallContext);
+        nextTaskEntry = tied.find(entry => entry.task.text.trim() === nextTask.task);
+      } else {
+        nextTaskEntry = ready[0];
+        nextTask = { task: ready[0].task.text.trim(), reason: explainOrderedPick(ready[0], ready.length, tied.length) };
+      }
+      orderSummary = `\n\n${formatTaskOrder(ready, order)}${blocked.length > 0 ? `\n\n${formatBlockedTasks(blocked, stalled)}` : ''}`;
+    } else {
+      // Find the next task using the IDE's LLM
+      nextTask = await findNextTask(todolistContent, llmCallContext);
+      nextTaskEntry = findTasksByText(todolist, nextTask.task).find(entry => isTaskActionable(entry.task));
+    }
+    
+    // Update project context
+    ProjectContextManager.getInstance().setCurrentProject(
+      path.basename(resolvedTodolistPath, path.extname(resolvedTodolistPath)),
+      path.dirname(resolvedTodolistPath)
+    );
+    
+    // Report response cache use
+    const cacheSummary = formatCacheStats(llmCallContext.cacheStats);
+    
+    // Give the task's ID so the next tools can use task_id
+    const nextTaskId = nextTaskEntry ? getTaskId(nextTaskEntry.task) : undefined;
+    
+    // Return the next task
+    return `Next task to implement: "${nextTask.task}"${nextTaskId ? ` (${nextTaskId})` : ''}\n\nWhy: ${nextTask.reason}${orderSummary}\n\nTo create a detailed implementation plan for this task, use the plan_task_implementation tool.${cacheSummary ? `\n\n${cacheSummary}` : ''}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+  } catch (error) {
+    // No model could be called: hand the prompt to the caller to finish via submit_llm_result
+    if (error instanceof PromptHandoffError) {
+      return await createHandoffResponse('find_next_task', args, llmContext, error);
+    }
+    
+    // The echo provider hands the prompt back instead of generating
+    if (error instanceof PromptEchoError) {
+      return formatPromptEcho(error);
+    }
+    
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return `Error: Failed to find next task - ${errorMessage}`;
+  }
+} 
+
+/**
+ * Explain why the deterministic order picked a task
+ * @param entry The picked task
+ * @param readyCount The number of tasks ready to start
+ * @param tiedCount The number of ready tasks sharing the picked task's priority
+ * @returns One or two sentences
+ */
+function explainOrderedPick(entry: TaskEntry, readyCount: number, tiedCount: number): string {
+  const dependencies = getTaskDependencies(entry.task);
+  const priority = getTaskPriority(entry.task);
+  const reasons = [dependencies.length > 0
+    ? `Its dependencies (${dependencies.join(', ')}) are complete.`
+    : 'It has no open dependencies.'];
+  
+  if (getTaskStatus(entry.task) === 'in_progress') {
+    reasons.push(tiedCount === 1
+      ? 'It is already in progress, so finishing it comes first.'
+      : `It comes first in the todolist among the ${tiedCount} tasks already in progress with ${priority ?? 'medium'} priority.`);
+  } else if (readyCount === 1) {
+    reasons.push('It is the only task ready to start.');
+  } else if (tiedCount === 1) {
+    reasons.push(`It has the highest priority (${priority ?? 'medium'}) of the ${readyCount} ready tasks.`);
+  } else {
+    reasons.push(`It comes first in the todolist among the ${tiedCount} ready tasks with ${priority ?? 'medium'} priority.`);
+  }
+  
+  return reasons.join(' ');
+}
+
+/**
+ * Format the ready tasks and the full dependency order
+ * @param ready The tasks ready to start, best first
+ * @param order Every open task in dependency order
+ * @returns The summary
+ */
+function formatTaskOrder(ready: TaskEntry[], order: TaskEntry[]): string {
+  const describe = ({ task, section }: TaskEntry) => {
+    const id = getTaskId(task);
+    const started = getTaskStatus(task) === 'in_progress' ? ' (in progress)' : '';
+    return `${id ? `${id} ` : ''}${task.text.trim()}${section ? ` [${section.title}]` : ''}${started}`;
+  };
+  
+  const shown = order.slice(0, MAX_ORDER_SHOWN).map((entry, index) => `${index + 1}. ${describe(entry)}`);
+  if (order.length > MAX_ORDER_SHOWN) {
+    shown.push(`... and ${order.length - MAX_ORDER_SHOWN} more`);
+  }
+  
+  return `Ready to start (${ready.length}):\n${ready.map(entry => `- ${describe(entry)}`).join('\n')}\n\nOrder of the ${order.length} open tasks:\n${shown.join('\n')}`;
+}
+
+/**
+ * Format the blocked tasks with their reasons, and the tasks waiting for them
+ * @param blocked The blocked tasks
+ * @param stalled The open tasks that wait for a blocked task
+ * @returns The summary
+ */
+function formatBlockedTasks(blocked: TaskEntry[], stalled: TaskEntry[] = []): string {
+  const lines = blocked.map(({ task }) => {
+    const id = getTaskId(task);
+    const reason = getStatusReason(task, 'blocked');
+    return `- ${id ? `${id} ` : ''}${task.text.trim()}${reason ? ` (${reason.reason})` : ''}`;
   });
-}; 
\ No newline at end of file
+  const waiting = stalled.length > 0 ? `\n\n${stalled.length} open ${stalled.length === 1 ? 'task waits' : 'tasks wait'} for them.` : '';
+  return `Blocked (${blocked.length}):\n${lines.join('\n')}${waiting}`;
+}
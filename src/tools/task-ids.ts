@@ -0,0 +1,106 @@
+/**
+ * Task ID Tool
+ * Backfills stable task IDs into an existing todolist
+ */
+
+import { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+
+import { ToolRegistration } from './types.js';
+import { fileExists, readFile, createFile } from '../utils/file-utils.js';
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+import { recordTodolistChange } from '../utils/todolist-history.js';
+import { parseTodolist, serializeTodolist, assignTaskIds, countTasks } from '../todolist/index.js';
+
+/**
+ * Register the assign_task_ids tool
+ * @param server The MCP server
+ */
+export const registerAssignTaskIdsTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'assign_task_ids',
+    description: 'Give every task in a todolist a stable ID such as T-014, kept in a trailing HTML comment, so tools can find tasks by task_id after they are reworded. Tasks that already have an ID keep it; later copies of a duplicated ID get a new one.',
+    parameters: z.object({
+      todolist_file: z.string().describe('Path to the todolist markdown file'),
+      dry_run: z.boolean().optional().describe('If true, report the IDs that would be assigned without changing the file (default: false)'),
+      create_backup: z.boolean().optional().describe('Whether to create a backup of the original file (default: true)'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { todolist_file, dry_run = false, create_backup = true, workspace_root } = args;
+        
+        // Resolve the todolist file path
+        const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
+        
+        // Check if todolist file exists
+        if (!await fileExists(resolvedTodolistPath)) {
+          return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
+        }
+        
+        // Read the content of the todolist file
+        const todolistContent = await readFile(resolvedTodolistPath);
+        if (!todolistContent) {
+          return `Error: Failed to read content from "${resolvedTodolistPath}".`;
+        }
+        
+        const todolist = parseTodolist(todolistContent);
+        if (countTasks(todolist).total === 0) {
+          return `Error: No tasks found in "${resolvedTodolistPath}".`;
+        }
+        
+        const { assigned, reassigned, kept } = assignTaskIds(todolist);
+        const changed = assigned.length + reassigned.length;
+        
+        const lines: string[] = [];
+        if (assigned.length > 0) {
+          lines.push(`${dry_run ? 'Would assign' : 'Assigned'} ${assigned.length} new ${assigned.length === 1 ? 'ID' : 'IDs'} (${describeIds(assigned)}).`);
+        }
+        if (reassigned.length > 0) {
+          lines.push(`${dry_run ? 'Would replace' : 'Replaced'} ${reassigned.length} duplicate ${reassigned.length === 1 ? 'ID' : 'IDs'}:`);
+          lines.push(...reassigned.map(({ from, to, text }) => `- ${from} → ${to}: ${text}`));
+        }
+        lines.push(`${kept} ${kept === 1 ? 'task' : 'tasks'} kept ${kept === 1 ? 'its' : 'their'} existing ID.`);
+        
+        if (changed === 0) {
+          return `No changes made: Every task in "${resolvedTodolistPath}" already has a unique ID.`;
+        }
+        
+        if (dry_run) {
+          return `Dry run for "${resolvedTodolistPath}":\n\n${lines.join('\n')}\n\nRun again with dry_run=false to update the file.`;
+        }
+        
+        // Create a backup if requested
+        if (create_backup) {
+          await createFile(`${resolvedTodolistPath}.bak`, todolistContent, true);
+        }
+        
+        const updatedTodolist = serializeTodolist(todolist);
+        await recordTodolistChange(workspace_root, {
+          file: resolvedTodolistPath,
+          tool: 'assign_task_ids',
+          summary: `Assigned ${changed} task ${changed === 1 ? 'ID' : 'IDs'}`,
+          before: todolistContent,
+          after: updatedTodolist
+        });
+        await createFile(resolvedTodolistPath, updatedTodolist, true);
+        
+        return `Updated "${resolvedTodolistPath}":\n\n${lines.join('\n')}\n\nTools that take a task also accept its ID as task_id.\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to assign task IDs - ${errorMessage}`;
+      }
+    },
+  });
+};
+
+/**
+ * Describe a list of IDs, as a range when their numbers are consecutive
+ * @param ids The IDs in ascending order
+ * @returns For example "T-004 to T-009" or "T-004, T-006"
+ */
+function describeIds(ids: string[]): string {
+  const numbers = ids.map(id => parseInt(id.replace(/^\D+/, ''), 10));
+  const consecutive = numbers.every((number, index) => index === 0 || number === numbers[index - 1] + 1);
+  return consecutive && ids.length > 2 ? `${ids[0]} to ${ids[ids.length - 1]}` : ids.join(', ');
+}
@@ -9,9 +9,27 @@ import path from 'path';
 
 import { ToolRegistration } from './types.js';
 import { ProjectContextManager } from '../context/index.js';
+import { LLMCallContext, PromptEchoError, PromptHandoffError, formatPromptEcho, formatCacheStats } from '../llm/index.js';
+import { createHandoffResponse, registerResumableTool } from './handoff.js';
 import { createImplementationPlan } from '../utils/llm-utils.js';
 import { fileExists, readFile, createFile } from '../utils/file-utils.js';
 import { resolveWorkspacePath, getSanitizedFilename } from '../utils/path-utils.js';
+import {
+  parseTodolist, describeTaskMismatch, resolveTaskReference, describeUnresolvedTask, describeTaskMatch
+} from '../todolist/index.js';
+
+/**
+ * Parameters for the plan_task_implementation tool
+ */
+const taskPlannerParameters = z.object({
+  task: z.string().optional().describe('The task to implement (text of the task from the todolist); or give task_id'),
+  task_id: z.string().optional().describe('The ID of the task to implement, e.g. T-014; takes precedence over task'),
+  todolist_file: z.string().describe('Path to the todolist markdown file for context'),
+  output_file: z.string().optional().describe('Optional file path to save the implementation plan (default: <task>_plan.md)'),
+  overwrite: z.boolean().optional().describe('Whether to overwrite if output file exists (default: false)'),
+  no_cache: z.boolean().optional().describe('If true, call the model even when a cached response exists (default: false)'),
+  workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+});
 
 /**
  * Register the plan_task_implementation tool
@@ -21,67 +39,109 @@ export const registerTaskPlannerTool: ToolRegistration = (server: FastMCP) => {
   server.addTool({
     name: 'plan_task_implementation',
     description: 'Create a detailed implementation plan for a specific task.',
-    parameters: z.object({
-      task: z.string().describe('The task to implement (text of the task from the todolist)'),
-      todolist_file: z.string().describe('Path to the todolist markdown file for context'),
-      output_file: z.string().optional().describe('Optional file path to save the implementation plan (default: <task>_plan.md)'),
-      overwrite: z.boolean().optional().describe('Whether to overwrite if output file exists (default: false)'),
-      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
-    }),
-    execute: async (args, req) => {
-      try {
-        const { task, todolist_file, overwrite = false, workspace_root } = args;
-        
-        // Validate inputs
-        if (!task.trim()) {
-          return 'Error: Task description cannot be empty.';
-        }
-        
-        // Resolve the todolist file path
-        const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
-        
-        // Check if todolist file exists
-        if (!await fileExists(resolvedTodolistPath)) {
-          return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
-        }
-        
-        // Read the content of the todolist file
-        const todolistContent = await readFile(resolvedTodolistPath);
-        if (!todolistContent) {
-          return `Error: Failed to read content from "${resolvedTodolistPath}".`;
-        }
-        
-        // Generate a file name for the output if not provided
-        const output_file = args.output_file || `${getSanitizedFilename(task, '_plan.md')}`;
-        
-        // Resolve the output path
-        const resolvedOutputPath = resolveWorkspacePath(workspace_root, output_file);
-        
-        // Check for output file existence
-        if (!overwrite && await fileExists(resolvedOutputPath)) {
-          return `Error: Output file "${resolvedOutputPath}" already exists. Set overwrite=true to overwrite.`;
-        }
-        
-        // Generate implementation plan using the IDE's LLM
-        const implementationPlan = await createImplementationPlan(task, todolistContent);
-        
-        // Ensure the output directory exists and write the file
-        const result = await createFile(resolvedOutputPath, implementationPlan, overwrite);
-        
-        // Update project context
-        ProjectContextManager.getInstance().setCurrentProject(
-          path.basename(todolist_file, path.extname(todolist_file)),
-          path.dirname(resolvedOutputPath)
-        );
-        
-        // Return success response
-        const response = `Successfully created implementation plan for "${task}" and saved to "${resolvedOutputPath}".\n\n${implementationPlan}\n\nTo execute this plan, use the task_executor tool.\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
-        
-        return response;
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return `Error: Failed to create implementation plan - ${errorMessage}`;
-      }
-    },
+    parameters: taskPlannerParameters,
+    execute: async (args, req) => planTaskImplementation(args),
   });
-}; 
\ No newline at end of file
+  
+  // Allow submit_llm_result to finish this tool after a prompt handoff
+  registerResumableTool('plan_task_implementation', planTaskImplementation);
+};
+
+/**
+ * Create and save an implementation plan for a task
+ * @param args The tool arguments
+ * @param llmContext Per-invocation LLM context, including answers submitted through submit_llm_result
+ * @returns The tool response
+ */
+async function planTaskImplementation(args: z.infer<typeof taskPlannerParameters>, llmContext: LLMCallContext = {}): Promise<string> {
+  try {
+    const { task_id, todolist_file, overwrite = false, no_cache = false, workspace_root } = args;
+    
+    // Validate inputs
+    if (!args.task?.trim() && !task_id?.trim()) {
+      return 'Error: Either task or task_id is required.';
+    }
+    
+    // Resolve the todolist file path
+    const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
+    
+    // Check if todolist file exists
+    if (!await fileExists(resolvedTodolistPath)) {
+      return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
+    }
+    
+    // Read the content of the todolist file
+    const todolistContent = await readFile(resolvedTodolistPath);
+    if (!todolistContent) {
+      return `Error: Failed to read content from "${resolvedTodolistPath}".`;
+    }
+    
+    // Resolve the task by ID or text
+    const todolist = parseTodolist(todolistContent);
+    const resolvedTask = resolveTaskReference(todolist, args.task, task_id);
+    if ('error' in resolvedTask) {
+      return `Error: ${resolvedTask.error}`;
+    }
+    if (resolvedTask.ambiguous) {
+      return `Error: ${describeUnresolvedTask(resolvedTask)}`;
+    }
+    const task = resolvedTask.text;
+    
+    // The plan still gets made for a task that is not an open task of the list, but the caller is told
+    const taskWarning = resolvedTask.matches.length === 0
+      ? describeUnresolvedTask(resolvedTask)
+      : [describeTaskMatch(resolvedTask, args.task), describeTaskMismatch(todolist, task)].filter(Boolean).join(' ');
+    
+    // Generate a file name for the output if not provided
+    const output_file = args.output_file || `${getSanitizedFilename(task, '_plan.md')}`;
+    
+    // Resolve the output path
+    const resolvedOutputPath = resolveWorkspacePath(workspace_root, output_file);
+    
+    // Check for output file existence
+    if (!overwrite && await fileExists(resolvedOutputPath)) {
+      return `Error: Output file "${resolvedOutputPath}" already exists. Set overwrite=true to overwrite.`;
+    }
+    
+    // Per-invocation LLM context, counting response cache hits and misses
+    const llmCallContext: LLMCallContext = {
+      ...llmContext,
+      workspaceRoot: workspace_root,
+      noCache: no_cache || !!llmContext.noCache,
+      cacheStats: llmContext.cacheStats ?? { hits: 0, misses: 0 }
+    };
+    
+    // Generate implementation plan using the IDE's LLM
+    const implementationPlan = await createImplementationPlan(task, todolistContent, llmCallContext);
+    
+    // Ensure the output directory exists and write the file
+    const result = await createFile(resolvedOutputPath, implementationPlan, overwrite);
+    
+    // Update project context
+    ProjectContextManager.getInstance().setCurrentProject(
+      path.basename(todolist_file, path.extname(todolist_file)),
+      path.dirname(resolvedOutputPath)
+    );
+    
+    // Report response cache use
+    const cacheSummary = formatCacheStats(llmCallContext.cacheStats);
+    
+    // Return success response
+    const response = `Successfully created implementation plan for "${task}" and saved to "${resolvedOutputPath}".${taskWarning ? `\n\nWarning: ${taskWarning}` : ''}\n\n${implementationPlan}\n\nTo execute this plan, use the task_executor tool.${cacheSummary ? `\n\n${cacheSummary}` : ''}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+    
+    return response;
+  } catch (error) {
+    // No model could be called: hand the prompt to the caller to finish via submit_llm_result
+    if (error instanceof PromptHandoffError) {
+      return await createHandoffResponse('plan_task_implementation', args, llmContext, error);
+    }
+    
+    // The echo provider hands the prompt back instead of generating
+    if (error instanceof PromptEchoError) {
+      return formatPromptEcho(error);
+    }
+    
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return `Error: Failed to create implementation plan - ${errorMessage}`;
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,245 @@
+/**
+ * Task Status Tools
+ * Moves a task between the open, in-progress, blocked, cancelled and done states, and reopens finished tasks
+ */
+
+import { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import path from 'path';
+
+import { ToolRegistration } from './types.js';
+import { ProjectContextManager } from '../context/index.js';
+import { fileExists, readFile, createFile } from '../utils/file-utils.js';
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+import { recordTodolistChange } from '../utils/todolist-history.js';
+import {
+  parseTodolist, serializeTodolist, resolveTaskReference, describeUnresolvedTask, describeTaskMatch, listTasks, getTaskId, getTaskStatus, setTaskStatus,
+  canChangeTaskStatus, isTaskResolved, formatTaskStatus, addStatusNote, getOpenSubtasks, rollUpTasks, TaskNode, TASK_STATUSES
+} from '../todolist/index.js';
+
+/**
+ * Register the set_task_status tool
+ * @param server The MCP server
+ */
+export const registerTaskStatusTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'set_task_status',
+    description: 'Set a task\'s state in the todolist: open [ ], in_progress [~], blocked [!] (a reason is required), cancelled [-] or done [x]. An optional reason is kept as a dated note under the task. Done and cancelled tasks must be reopened (open or in_progress) before other changes. Setting a parent with open subtasks to done needs force=true.',
+    parameters: z.object({
+      task: z.string().optional().describe('The task to update (text of the task from the todolist); or give task_id'),
+      task_id: z.string().optional().describe('The ID of the task to update, e.g. T-014; takes precedence over task'),
+      status: z.enum(TASK_STATUSES).describe('The new state: open, in_progress, blocked, cancelled or done'),
+      reason: z.string().optional().describe('Why the state changed, kept as a dated note under the task; required for blocked'),
+      todolist_file: z.string().describe('Path to the todolist markdown file'),
+      force: z.boolean().optional().describe('If true, allow status done even if the task has open subtasks (default: false)'),
+      create_backup: z.boolean().optional().describe('Whether to create a backup of the original file (default: true)'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { task_id, status, todolist_file, force = false, create_backup = true, workspace_root } = args;
+        const reason = args.reason?.trim();
+        
+        // Validate inputs
+        if (!args.task?.trim() && !task_id?.trim()) {
+          return 'Error: Either task or task_id is required.';
+        }
+        if (status === 'blocked' && !reason) {
+          return 'Error: A reason is required to mark a task as blocked, e.g. "waiting for API keys".';
+        }
+        
+        // Resolve the todolist file path
+        const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
+        
+        // Check if todolist file exists
+        if (!await fileExists(resolvedTodolistPath)) {
+          return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
+        }
+        
+        // Read the content of the todolist file
+        const todolistContent = await readFile(resolvedTodolistPath);
+        if (!todolistContent) {
+          return `Error: Failed to read content from "${resolvedTodolistPath}".`;
+        }
+        
+        // Resolve the task by ID or text; the state of one task changes at a time
+        const todolist = parseTodolist(todolistContent);
+        const resolvedTask = resolveTaskReference(todolist, args.task, task_id);
+        if ('error' in resolvedTask) {
+          return `Error: ${resolvedTask.error}`;
+        }
+        const task = resolvedTask.text;
+        const matches = resolvedTask.matches;
+        
+        if (matches.length === 0) {
+          return `Error: ${describeUnresolvedTask(resolvedTask)}`;
+        }
+        if (matches.length > 1) {
+          const lines = matches.map(({ task: match }) => `- [${match.mark}] ${getTaskId(match) ?? `line ${match.line}`}`);
+          return `Error: ${matches.length} tasks have the text "${task}":\n${lines.join('\n')}\n\nGive task_id to choose one; use assign_task_ids if they have no IDs.`;
+        }
+        
+        // Check the transition
+        const target = matches[0].task;
+        const current = getTaskStatus(target);
+        if (current === status) {
+          return `No changes made: Task "${task}" is already ${formatTaskStatus(status)}.`;
+        }
+        if (!canChangeTaskStatus(current, status)) {
+          return `Error: Task "${task}" is ${formatTaskStatus(current)} and cannot become ${formatTaskStatus(status)} directly. Set it to open or in_progress first.`;
+        }
+        
+        const openSubtasks = status === 'done' ? getOpenSubtasks(target) : [];
+        if (openSubtasks.length > 0 && !force) {
+          const lines = openSubtasks.map(subtask => `- [${subtask.mark}] ${subtask.text.trim()}`);
+          return `No changes made: Task "${task}" has ${openSubtasks.length} open ${openSubtasks.length === 1 ? 'subtask' : 'subtasks'}:\n${lines.join('\n')}\n\nComplete the subtasks first; the task is then checked automatically. To complete it anyway, pass force=true.`;
+        }
+        
+        setTaskStatus(target, status);
+        if (reason) {
+          addStatusNote(target, status, reason);
+        }
+        const completedParents = rollUpTasks(todolist, [target]);
+        
+        // Create a backup if requested
+        if (create_backup) {
+          await createFile(`${resolvedTodolistPath}.bak`, todolistContent, true);
+        }
+        
+        // Write the updated todolist back to the file, keeping the change for undo_last_todolist_change
+        const updatedTodolist = serializeTodolist(todolist);
+        await recordTodolistChange(workspace_root, {
+          file: resolvedTodolistPath,
+          tool: 'set_task_status',
+          summary: `Changed "${task}" from ${formatTaskStatus(current)} to ${formatTaskStatus(status)}`,
+          before: todolistContent,
+          after: updatedTodolist
+        });
+        await createFile(resolvedTodolistPath, updatedTodolist, true);
+        
+        // Update project context
+        ProjectContextManager.getInstance().setCurrentProject(
+          path.basename(todolist_file, path.extname(todolist_file)),
+          path.dirname(resolvedTodolistPath)
+        );
+        
+        const rollUpSummary = completedParents.map(parent => `\nAlso checked "${parent.text.trim()}" because all its subtasks are done.`).join('');
+        const matchNote = describeTaskMatch(resolvedTask, args.task);
+        return `Changed task "${task}" from ${formatTaskStatus(current)} to ${formatTaskStatus(status)} in "${resolvedTodolistPath}".${matchNote ? ` ${matchNote}` : ''}${reason ? `\nReason: ${reason}` : ''}${rollUpSummary}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to set task status - ${errorMessage}`;
+      }
+    },
+  });
+};
+
+/**
+ * Register the reopen_task tool
+ * @param server The MCP server
+ */
+export const registerReopenTaskTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'reopen_task',
+    description: 'Reopen a task that was marked done [x] (or cancelled [-]) by mistake, turning it back into [ ]. An optional reason is kept as a dated "Reopened" note under the task. Parents that were checked because all their subtasks were done are reopened too. To revert the last change to the file instead, use undo_last_todolist_change.',
+    parameters: z.object({
+      task: z.string().optional().describe('The task to reopen (text of the task from the todolist); or give task_id'),
+      task_id: z.string().optional().describe('The ID of the task to reopen, e.g. T-014; takes precedence over task'),
+      reason: z.string().optional().describe('Why the task is reopened, kept as a dated note under the task'),
+      todolist_file: z.string().describe('Path to the todolist markdown file'),
+      create_backup: z.boolean().optional().describe('Whether to create a backup of the original file (default: true)'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { task_id, todolist_file, create_backup = true, workspace_root } = args;
+        const reason = args.reason?.trim();
+        
+        // Validate inputs
+        if (!args.task?.trim() && !task_id?.trim()) {
+          return 'Error: Either task or task_id is required.';
+        }
+        
+        // Resolve the todolist file path
+        const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
+        
+        // Check if todolist file exists
+        if (!await fileExists(resolvedTodolistPath)) {
+          return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
+        }
+        
+        // Read the content of the todolist file
+        const todolistContent = await readFile(resolvedTodolistPath);
+        if (!todolistContent) {
+          return `Error: Failed to read content from "${resolvedTodolistPath}".`;
+        }
+        
+        // Resolve the task by ID or text; among tasks with the same text, only finished ones can be reopened
+        const todolist = parseTodolist(todolistContent);
+        const resolvedTask = resolveTaskReference(todolist, args.task, task_id);
+        if ('error' in resolvedTask) {
+          return `Error: ${resolvedTask.error}`;
+        }
+        const task = resolvedTask.text;
+        const matches = resolvedTask.matches;
+        const finished = matches.filter(entry => isTaskResolved(entry.task));
+        
+        if (matches.length === 0) {
+          return `Error: ${describeUnresolvedTask(resolvedTask)}`;
+        }
+        if (finished.length === 0) {
+          return `No changes made: Task "${task}" is ${formatTaskStatus(getTaskStatus(matches[0].task))}, not done or cancelled.`;
+        }
+        if (finished.length > 1) {
+          const lines = finished.map(({ task: match }) => `- [${match.mark}] ${getTaskId(match) ?? `line ${match.line}`}`);
+          return `Error: ${finished.length} finished tasks have the text "${task}":\n${lines.join('\n')}\n\nGive task_id to choose one; use assign_task_ids if they have no IDs.`;
+        }
+        
+        const target = finished[0];
+        const previous = getTaskStatus(target.task);
+        setTaskStatus(target.task, 'open');
+        if (reason) {
+          addStatusNote(target.task, 'open', reason);
+        }
+        
+        // A done parent is no longer done once one of its subtasks is open again
+        const parents = new Map(listTasks(todolist).map(entry => [entry.task, entry.parent]));
+        const reopenedParents: TaskNode[] = [];
+        for (let parent = target.parent; parent && getTaskStatus(parent) === 'done'; parent = parents.get(parent)) {
+          setTaskStatus(parent, 'open');
+          reopenedParents.push(parent);
+        }
+        rollUpTasks(todolist, []);
+        const updatedTodolist = serializeTodolist(todolist);
+        
+        // Create a backup if requested
+        if (create_backup) {
+          await createFile(`${resolvedTodolistPath}.bak`, todolistContent, true);
+        }
+        
+        // Write the updated todolist back to the file, keeping the change for undo_last_todolist_change
+        await recordTodolistChange(workspace_root, {
+          file: resolvedTodolistPath,
+          tool: 'reopen_task',
+          summary: `Reopened "${task}"`,
+          before: todolistContent,
+          after: updatedTodolist
+        });
+        await createFile(resolvedTodolistPath, updatedTodolist, true);
+        
+        // Update project context
+        ProjectContextManager.getInstance().setCurrentProject(
+          path.basename(todolist_file, path.extname(todolist_file)),
+          path.dirname(resolvedTodolistPath)
+        );
+        
+        const parentSummary = reopenedParents.map(parent => `\nAlso reopened "${parent.text.trim()}" because it has an open subtask again.`).join('');
+        const matchNote = describeTaskMatch(resolvedTask, args.task);
+        return `Reopened task "${task}" (was ${formatTaskStatus(previous)}) in "${resolvedTodolistPath}".${matchNote ? ` ${matchNote}` : ''}${reason ? `\nReason: ${reason}` : ''}${parentSummary}\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to reopen task - ${errorMessage}`;
+      }
+    },
+  });
+};
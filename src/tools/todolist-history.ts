@@ -0,0 +1,86 @@
+/**
+ * Todolist History Tool
+ * Reverts the most recent change a tool made to a todolist
+ */
+
+import { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import path from 'path';
+
+import { ToolRegistration } from './types.js';
+import { ProjectContextManager } from '../context/index.js';
+import { fileExists, readFile, createFile } from '../utils/file-utils.js';
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+import { listTodolistChanges, popTodolistChange } from '../utils/todolist-history.js';
+import { parseTodolist, diffTodolists, formatTaskStatus } from '../todolist/index.js';
+
+/**
+ * Register the undo_last_todolist_change tool
+ * @param server The MCP server
+ */
+export const registerUndoTodolistChangeTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'undo_last_todolist_change',
+    description: 'Revert the most recent change a tool made to a todolist (mark_task_complete, set_task_status, reopen_task, add_task, update_task, move_task, remove_task, assign_task_ids, lint_todolist with fix, enhance_todolist in place), restoring the file as it was before. Each todolist keeps its last 50 changes, so calling it again undoes the change before. Refuses if the file was edited since, unless force=true. Does not call the model.',
+    parameters: z.object({
+      todolist_file: z.string().describe('Path to the todolist markdown file'),
+      force: z.boolean().optional().describe('If true, undo even if the file was edited after the change, discarding those edits (default: false)'),
+      create_backup: z.boolean().optional().describe('Whether to create a backup of the current file before undoing (default: true)'),
+      workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+    }),
+    execute: async (args, req) => {
+      try {
+        const { todolist_file, force = false, create_backup = true, workspace_root } = args;
+        
+        // Resolve the todolist file path
+        const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
+        
+        // Check if todolist file exists
+        if (!await fileExists(resolvedTodolistPath)) {
+          return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
+        }
+        
+        const changes = await listTodolistChanges(workspace_root, resolvedTodolistPath);
+        const change = changes[changes.length - 1];
+        if (!change) {
+          return `No changes made: No tool changes to "${resolvedTodolistPath}" are recorded in this workspace.`;
+        }
+        
+        // Do not throw away edits made after the change without asking
+        const todolistContent = await readFile(resolvedTodolistPath);
+        if (todolistContent !== change.after && !force) {
+          return `No changes made: "${resolvedTodolistPath}" was edited after ${change.tool} changed it (${change.summary}, ${change.createdAt}). Undoing would discard those edits. To undo anyway, pass force=true.`;
+        }
+        
+        // Create a backup if requested
+        if (create_backup) {
+          await createFile(`${resolvedTodolistPath}.bak`, todolistContent, true);
+        }
+        
+        await createFile(resolvedTodolistPath, change.before, true);
+        await popTodolistChange(workspace_root, resolvedTodolistPath);
+        
+        // Update project context
+        ProjectContextManager.getInstance().setCurrentProject(
+          path.basename(todolist_file, path.extname(todolist_file)),
+          path.dirname(resolvedTodolistPath)
+        );
+        
+        // Describe what the undo changed, task by task
+        const diff = diffTodolists(parseTodolist(todolistContent), parseTodolist(change.before));
+        const restored = [
+          ...diff.stateChanged.map(pair => `- "${pair.after.title}": ${formatTaskStatus(pair.before.status)} → ${formatTaskStatus(pair.after.status)}`),
+          ...diff.reworded.map(pair => `- "${pair.before.title}" → "${pair.after.title}"`),
+          ...diff.moved.map(pair => `- "${pair.after.title}" moved back`),
+          ...diff.added.map(task => `- "${task.title}" restored`),
+          ...diff.removed.map(task => `- "${task.title}" removed`)
+        ];
+        const remaining = changes.length - 1;
+        return `Undid the last change to "${resolvedTodolistPath}": ${change.summary} (${change.tool}, ${change.createdAt}).${restored.length > 0 ? `\n${restored.join('\n')}` : ''}\n\n${remaining} earlier ${remaining === 1 ? 'change' : 'changes'} can still be undone.\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to undo todolist change - ${errorMessage}`;
+      }
+    },
+  });
+};
@@ -0,0 +1,175 @@
+/**
+ * Todolist Report Tool
+ * Summarizes a todolist's progress per section, without calling the model
+ */
+
+import { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+
+import { ToolRegistration } from './types.js';
+import { fileExists, readFile } from '../utils/file-utils.js';
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+import {
+  parseTodolist, listTasks, getTodolistTitle, getTaskId, getTaskStatus, getTaskMetadata, getTaskTitle,
+  addDays, getToday, TaskEntry, TaskStatus, SectionNode
+} from '../todolist/index.js';
+
+/**
+ * Task counts for a section or the whole todolist
+ */
+interface StatusCounts {
+  total: number;
+  open: number;
+  in_progress: number;
+  blocked: number;
+  cancelled: number;
+  done: number;
+  // Done tasks as a share of the tasks that were not cancelled
+  percent_complete: number;
+}
+
+/**
+ * Parameters for the todolist_report tool
+ */
+const todolistReportParameters = z.object({
+  todolist_file: z.string().describe('Path to the todolist markdown file'),
+  recent_days: z.number().int().nonnegative().optional().describe('How many days back "recently completed" reaches, counting today as day 0 (default: 7)'),
+  recent_limit: z.number().int().positive().optional().describe('The most recently completed tasks to list (default: 10)'),
+  format: z.enum(['both', 'markdown', 'json']).optional().describe('Response format: markdown followed by a JSON payload (default), or only one of them'),
+  workspace_root: z.string().describe('Workspace root directory (absolute path to the user\'s working directory)'),
+});
+
+/**
+ * Register the todolist_report tool
+ * @param server The MCP server
+ */
+export const registerTodolistReportTool: ToolRegistration = (server: FastMCP) => {
+  server.addTool({
+    name: 'todolist_report',
+    description: 'Report a todolist\'s progress: done, in-progress, blocked and open counts per section, overall percent complete and recently completed tasks, as markdown and JSON. Does not call the model.',
+    parameters: todolistReportParameters,
+    execute: async (args, req) => {
+      try {
+        const { todolist_file, recent_days = 7, recent_limit = 10, format = 'both', workspace_root } = args;
+        
+        // Resolve the todolist file path
+        const resolvedTodolistPath = resolveWorkspacePath(workspace_root, todolist_file);
+        
+        // Check if todolist file exists
+        if (!await fileExists(resolvedTodolistPath)) {
+          return `Error: Todolist file "${resolvedTodolistPath}" does not exist.`;
+        }
+        
+        // Read the content of the todolist file
+        const todolistContent = await readFile(resolvedTodolistPath);
+        if (!todolistContent) {
+          return `Error: Failed to read content from "${resolvedTodolistPath}".`;
+        }
+        
+        const todolist = parseTodolist(todolistContent);
+        const entries = listTasks(todolist);
+        if (entries.length === 0) {
+          return `Error: No tasks found in "${resolvedTodolistPath}".`;
+        }
+        
+        // Group the tasks by the section they sit in; tasks before the first heading have none
+        const groups = new Map<SectionNode | undefined, TaskEntry[]>();
+        for (const entry of entries) {
+          groups.set(entry.section, [...(groups.get(entry.section) ?? []), entry]);
+        }
+        
+        // Tasks checked off within the window, newest first
+        const today = getToday();
+        const since = addDays(today, -recent_days);
+        const completed = entries
+          .filter(entry => getTaskStatus(entry.task) === 'done')
+          .map(entry => ({ entry, date: getTaskMetadata(entry.task).completed }));
+        const recent = completed
+          .filter((item): item is { entry: TaskEntry; date: string } => !!item.date && item.date >= since && item.date <= today)
+          .sort((a, b) => b.date.localeCompare(a.date));
+        const undated = completed.filter(item => !item.date).length;
+        
+        const report = {
+          file: resolvedTodolistPath,
+          title: getTodolistTitle(todolist) ?? null,
+          generated: today,
+          overall: countStatuses(entries),
+          sections: [...groups].map(([section, sectionEntries]) => ({ title: section?.title ?? '(no section)', ...countStatuses(sectionEntries) })),
+          recently_completed: {
+            since,
+            tasks: recent.slice(0, recent_limit).map(({ entry, date }) => ({
+              id: getTaskId(entry.task) ?? null,
+              text: getTaskTitle(entry.task),
+              section: entry.section?.title ?? null,
+              completed: date
+            })),
+            total: recent.length,
+            without_date: undated
+          }
+        };
+        
+        if (format === 'json') {
+          return JSON.stringify(report, null, 2);
+        }
+        
+        // Render the markdown report
+        const { overall } = report;
+        const lines = [
+          `# Progress report${report.title ? `: ${report.title}` : ''}`,
+          '',
+          `**${overall.percent_complete}% complete**: ${overall.done} of ${overall.total - overall.cancelled} tasks done, ${overall.in_progress} in progress, ${overall.blocked} blocked, ${overall.open} not started${overall.cancelled > 0 ? ` (${overall.cancelled} cancelled)` : ''}.`,
+          '',
+          '| Section | Total | Done | In progress | Blocked | Open | Cancelled | Complete |',
+          '|---------|-------|------|-------------|---------|------|-----------|----------|',
+          ...report.sections.map(section =>
+            `| ${section.title.replace(/\|/g, '\\|')} | ${section.total} | ${section.done} | ${section.in_progress} | ${section.blocked} | ${section.open} | ${section.cancelled} | ${section.percent_complete}% |`),
+          '',
+          `## Recently completed (since ${since})`,
+          ''
+        ];
+        
+        if (recent.length === 0) {
+          lines.push('No tasks were completed in this period.');
+        } else {
+          lines.push(...report.recently_completed.tasks.map(task =>
+            `- ${task.completed}: ${task.id ? `${task.id} ` : ''}${task.text}${task.section ? ` [${task.section}]` : ''}`));
+          if (recent.length > recent_limit) {
+            lines.push(`- ... and ${recent.length - recent_limit} more`);
+          }
+        }
+        if (undated > 0) {
+          lines.push('', `${undated} done ${undated === 1 ? 'task has' : 'tasks have'} no completion date. Dates are recorded as done:YYYY-MM-DD when a tool checks a task off.`);
+        }
+        
+        const markdown = lines.join('\n');
+        if (format === 'markdown') {
+          return markdown;
+        }
+        
+        return `${markdown}\n\n\`\`\`json\n${JSON.stringify(report, null, 2)}\n\`\`\`\n\n[Note for AI assistants: When using this tool, always set the workspace_root parameter to the user's current working directory, not the tool's directory. Check last_terminal_cwd or conversation context.]`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `Error: Failed to create the todolist report - ${errorMessage}`;
+      }
+    },
+  });
+};
+
+/**
+ * Count tasks by state
+ * @param entries The tasks
+ * @returns The counts and the percentage done, leaving out cancelled tasks
+ */
+function countStatuses(entries: TaskEntry[]): StatusCounts {
+  const counts: Record<TaskStatus, number> = { open: 0, in_progress: 0, blocked: 0, cancelled: 0, done: 0 };
+  for (const entry of entries) {
+    counts[getTaskStatus(entry.task)]++;
+  }
+  
+  const counted = entries.length - counts.cancelled;
+  return {
+    total: entries.length,
+    ...counts,
+    percent_complete: counted > 0 ? Math.round((counts.done / counted) * 100) : 100
+  };
+}
@@ -135,4 +135,77 @@ export type FileOperation =
   | MoveFileOperation
   | CopyFileOperation
   | CreateDirectoryOperation
-  | DeleteDirectoryOperation; 
\ No newline at end of file
+  | DeleteDirectoryOperation; 
+
+/**
+ * Schema for a single file change in an edit operation
+ * Each change type requires the fields it uses
+ */
+export const fileChangeSchema = z.object({
+  type: z.nativeEnum(FileChangeType),
+  old: z.string().optional(),
+  new: z.string().optional(),
+  content: z.string().optional(),
+  line: z.number().int().nonnegative().optional()
+}).superRefine((change, ctx) => {
+  if (change.type === FileChangeType.REPLACE && (change.old === undefined || change.new === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'replace changes require "old" and "new"' });
+  }
+  if ((change.type === FileChangeType.APPEND || change.type === FileChangeType.PREPEND) && change.content === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${change.type} changes require "content"` });
+  }
+  if (change.type === FileChangeType.INSERT_AT_LINE && (change.line === undefined || change.content === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'insert_at_line changes require "line" and "content"' });
+  }
+});
+
+/**
+ * Schema mirroring the FileOperation union
+ */
+export const fileOperationSchema: z.ZodType<FileOperation, z.ZodTypeDef, unknown> = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal(FileOperationType.CREATE_FILE),
+    path: z.string().min(1),
+    content: z.string(),
+    description: z.string().optional()
+  }),
+  z.object({
+    type: z.literal(FileOperationType.EDIT_FILE),
+    path: z.string().min(1),
+    changes: z.array(fileChangeSchema).min(1),
+    description: z.string().optional()
+  }),
+  z.object({
+    type: z.literal(FileOperationType.DELETE_FILE),
+    path: z.string().min(1),
+    description: z.string().optional()
+  }),
+  z.object({
+    type: z.literal(FileOperationType.MOVE_FILE),
+    from: z.string().min(1),
+    to: z.string().min(1),
+    description: z.string().optional()
+  }),
+  z.object({
+    type: z.literal(FileOperationType.COPY_FILE),
+    from: z.string().min(1),
+    to: z.string().min(1),
+    description: z.string().optional()
+  }),
+  z.object({
+    type: z.literal(FileOperationType.CREATE_DIRECTORY),
+    path: z.string().min(1),
+    description: z.string().optional()
+  }),
+  z.object({
+    type: z.literal(FileOperationType.DELETE_DIRECTORY),
+    path: z.string().min(1),
+    recursive: z.boolean().optional(),
+    description: z.string().optional()
+  })
+]);
+
+/**
+ * Schema for the list of file operations extracted from an implementation plan
+ */
+export const fileOperationListSchema = z.array(fileOperationSchema).min(1, 'The plan must produce at least one file operation');
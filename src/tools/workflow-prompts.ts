@@ -0,0 +1,253 @@
+/**
+ * Workflow Prompts
+ * Exposes the sequential workflow as MCP prompts so clients can start each step from their prompt menu
+ *
+ * Each prompt tells the assistant which tools to call and with which arguments. Argument completion
+ * offers the todolist files in the workspace and the unchecked tasks inside them; completers only see
+ * the value being typed, so they search the server's project root rather than a prompt's workspace_root.
+ */
+
+import { FastMCP } from 'fastmcp';
+import fs from 'fs/promises';
+import path from 'path';
+
+import { ToolRegistration } from './types.js';
+import { resolveWorkspacePath } from '../utils/path-utils.js';
+import { parseTodolist, listTasks, isTaskActionable, countTasks } from '../todolist/index.js';
+
+/**
+ * The most values a completion may return, as set by the MCP specification
+ */
+const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * How deep below the workspace root to look for todolist files
+ */
+const MAX_SEARCH_DEPTH = 4;
+
+/**
+ * Directories never searched for todolist files
+ */
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'out', 'coverage', 'vendor']);
+
+/**
+ * The workspace_root argument shared by every workflow prompt
+ */
+const workspaceRootArgument = {
+  name: 'workspace_root',
+  description: 'Workspace root directory (absolute path; defaults to the server\'s project root)',
+  required: false,
+};
+
+/**
+ * The todolist_file argument, completed with the todolist files in the workspace
+ */
+const todolistFileArgument = {
+  name: 'todolist_file',
+  description: 'Path to the todolist markdown file, relative to the workspace root',
+  required: true,
+  complete: completeTodolistFile,
+};
+
+/**
+ * Register the workflow prompts
+ * @param server The MCP server
+ */
+export const registerWorkflowPrompts: ToolRegistration = (server: FastMCP) => {
+  server.addPrompt({
+    name: 'organize-thoughts',
+    description: 'Turn a brain dump about a project into a structured todolist (brain_dump_organize).',
+    arguments: [
+      { name: 'project_description', description: 'A short description of the project', required: true },
+      { name: 'unstructured_thoughts', description: 'Your raw notes and ideas about what needs to be done', required: true },
+      { name: 'output_file', description: 'Where to save the todolist, relative to the workspace root (default: <project>_todo.md)', required: false },
+      workspaceRootArgument,
+    ],
+    load: async args => {
+      const workspaceRoot = getWorkspaceRoot(args.workspace_root);
+      
+      return `Organize my thoughts about this project into a structured todolist.
+
+Call brain_dump_organize with:
+- project_description: ${JSON.stringify(args.project_description)}
+- unstructured_thoughts: ${JSON.stringify(args.unstructured_thoughts)}
+${args.output_file ? `- output_file: ${JSON.stringify(args.output_file)}\n` : ''}- workspace_root: ${JSON.stringify(workspaceRoot)}
+
+Then show me the resulting todolist.`;
+    },
+  });
+  
+  server.addPrompt({
+    name: 'enhance-todolist',
+    description: 'Improve an existing todolist with missing tasks, clearer wording and better structure (enhance_todolist).',
+    arguments: [todolistFileArgument, workspaceRootArgument],
+    load: async args => {
+      const workspaceRoot = getWorkspaceRoot(args.workspace_root);
+      
+      return `Enhance my todolist ${JSON.stringify(args.todolist_file)}.
+
+Call enhance_todolist with:
+- input_file: ${JSON.stringify(args.todolist_file)}
+- workspace_root: ${JSON.stringify(workspaceRoot)}
+
+Then summarize what changed.`;
+    },
+  });
+  
+  server.addPrompt({
+    name: 'find-next-task',
+    description: 'Pick the next logical task to work on from a todolist (find_next_task).',
+    arguments: [todolistFileArgument, workspaceRootArgument],
+    load: async args => {
+      const workspaceRoot = getWorkspaceRoot(args.workspace_root);
+      
+      return `What should I work on next in ${JSON.stringify(args.todolist_file)}?
+
+Call find_next_task with:
+- todolist_file: ${JSON.stringify(args.todolist_file)}
+- workspace_root: ${JSON.stringify(workspaceRoot)}
+
+Then tell me the task and why it comes next.`;
+    },
+  });
+  
+  server.addPrompt({
+    name: 'plan-next-task',
+    description: 'Plan the implementation of a task from a todolist, finding the next task first if none is given (plan_task_implementation).',
+    arguments: [
+      todolistFileArgument,
+      {
+        name: 'task',
+        description: 'The unchecked task to plan; leave empty to plan the next task',
+        required: false,
+        complete: completeUncheckedTask,
+      },
+      workspaceRootArgument,
+    ],
+    load: async args => {
+      const workspaceRoot = getWorkspaceRoot(args.workspace_root);
+      const findStep = args.task
+        ? ''
+        : `1. Call find_next_task with:
+   - todolist_file: ${JSON.stringify(args.todolist_file)}
+   - workspace_root: ${JSON.stringify(workspaceRoot)}
+`;
+      const taskArgument = args.task ? JSON.stringify(args.task) : 'the task found in step 1';
+      
+      return `Plan the implementation of ${args.task ? `the task ${JSON.stringify(args.task)}` : 'the next task'} from ${JSON.stringify(args.todolist_file)}.
+
+${findStep}${args.task ? '1' : '2'}. Call plan_task_implementation with:
+   - task: ${taskArgument}
+   - todolist_file: ${JSON.stringify(args.todolist_file)}
+   - workspace_root: ${JSON.stringify(workspaceRoot)}
+
+Then walk me through the plan before executing anything.`;
+    },
+  });
+  
+  console.log('✅ Registered workflow prompts');
+};
+
+/**
+ * Get the workspace root for a prompt
+ * @param workspaceRoot The workspace_root argument, if given
+ * @returns The workspace root, defaulting to the server's project root
+ */
+function getWorkspaceRoot(workspaceRoot?: string): string {
+  return workspaceRoot || process.env.PROJECT_ROOT || process.cwd();
+}
+
+/**
+ * Complete a todolist_file argument
+ * @param value What the user has typed so far
+ * @returns The matching todolist files, relative to the project root
+ */
+async function completeTodolistFile(value: string): Promise<{ values: string[]; total?: number; hasMore?: boolean }> {
+  const files = await findTodolistFiles(getWorkspaceRoot());
+  return rankCompletions(files, value);
+}
+
+/**
+ * Complete a task argument
+ * @param value What the user has typed so far
+ * @returns The matching open and in-progress tasks from the todolist files in the project root
+ */
+async function completeUncheckedTask(value: string): Promise<{ values: string[]; total?: number; hasMore?: boolean }> {
+  const workspaceRoot = getWorkspaceRoot();
+  const tasks = new Set<string>();
+  
+  for (const file of await findTodolistFiles(workspaceRoot)) {
+    try {
+      const content = await fs.readFile(resolveWorkspacePath(workspaceRoot, file), 'utf-8');
+      for (const { task } of listTasks(parseTodolist(content))) {
+        if (isTaskActionable(task) && task.text.trim()) {
+          tasks.add(task.text.trim());
+        }
+      }
+    } catch {
+      // A file that disappeared or cannot be read offers no tasks
+    }
+  }
+  
+  return rankCompletions([...tasks], value);
+}
+
+/**
+ * Filter completion candidates by what the user has typed, prefix matches first
+ * @param candidates The candidate values
+ * @param value What the user has typed so far
+ * @returns The completion, truncated to the protocol limit
+ */
+function rankCompletions(candidates: string[], value: string): { values: string[]; total: number; hasMore: boolean } {
+  const typed = value.trim().toLowerCase();
+  const matches = candidates
+    .filter(candidate => candidate.toLowerCase().includes(typed))
+    .sort((a, b) => Number(!a.toLowerCase().startsWith(typed)) - Number(!b.toLowerCase().startsWith(typed)));
+  
+  return {
+    values: matches.slice(0, MAX_COMPLETION_VALUES),
+    total: matches.length,
+    hasMore: matches.length > MAX_COMPLETION_VALUES,
+  };
+}
+
+/**
+ * Find the markdown files in a workspace that contain a checklist
+ * Hidden directories and dependency or build output directories are skipped
+ * @param workspaceRoot The workspace root
+ * @returns The todolist files, relative to the workspace root and sorted
+ */
+async function findTodolistFiles(workspaceRoot: string): Promise<string[]> {
+  const files: string[] = [];
+  
+  const search = async (directory: string, depth: number): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (depth < MAX_SEARCH_DEPTH && !IGNORED_DIRECTORIES.has(entry.name)) {
+          await search(entryPath, depth + 1);
+        }
+      } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.md')) {
+        try {
+          if (countTasks(parseTodolist(await fs.readFile(entryPath, 'utf-8'))).total > 0) {
+            files.push(path.relative(workspaceRoot, entryPath).split(path.sep).join('/'));
+          }
+        } catch {
+          // Unreadable files are not offered
+        }
+      }
+    }
+  };
+  
+  await search(workspaceRoot, 0);
+  return files.sort();
+}
@@ -10,4 +10,10 @@ export * from './llm-utils.js';
 export * from './file-utils.js';
 
 // Export all path utilities
-export * from './path-utils.js'; 
\ No newline at end of file
+export * from './path-utils.js'; 
+
+// Export all token budget utilities
+export * from './token-budget.js';
+
+// Export all todolist history utilities
+export * from './todolist-history.js';
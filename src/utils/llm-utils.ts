@@ -1,72 +1,266 @@
 /**
  * LLM Utilities
- * This module provides utilities for interacting with the IDE's built-in LLM capabilities.
- * It enforces the use of the environment's LLM (Cursor, Windsurf, Claude Desktop, etc.)
+ * This module provides the workflow prompts and routes them to the configured LLM provider.
+ * By default that is the environment's LLM (Cursor, Windsurf, Claude Desktop, etc.) via MCP sampling,
  * with no rule-based fallbacks.
  */
 
+import { z } from 'zod';
+
+import {
+  getLLMProvider, getLLMConfig, getContextWindowTokens, getCacheableModel, hashPrompt,
+  computeResponseCacheKey, readCachedResponse, writeCachedResponse, deleteCachedResponse,
+  LLMRequestOptions, LLMCallContext, PromptCacheKey, DEFAULT_MAX_TOKENS,
+  LLMProviderError, PromptEchoError, PromptHandoffError, StructuredOutputError
+} from '../llm/index.js';
+import { renderPromptTemplate, RenderedPrompt } from '../prompts/index.js';
+import { FileOperation, fileOperationListSchema } from '../tools/types.js';
+import { parseTodolist, listTasks, isTaskActionable, getTodolistTitle, stripTaskProgress } from '../todolist/index.js';
+import { estimateTokens, fitTodolistToBudget, chunkTodolist, splitTodolistSections } from './token-budget.js';
+
+/**
+ * How a rendered prompt fits the provider's context window
+ */
+interface PromptBudget {
+  // Tokens reserved for the response, used as the request's token limit
+  outputTokens: number;
+  // Tokens the prompt, including the system prompt, may use
+  promptTokens: number;
+  // Tokens the rendered prompt currently uses
+  usedTokens: number;
+}
+
+/**
+ * The next task chosen from a todolist, with the model's reasoning
+ */
+export interface NextTask {
+  task: string;
+  reason: string;
+}
+
 /**
  * Flag to check if running in optimization mode for tool scanning
+ * Only a tool scan skips the model; hosted deployments call the configured provider like any other
  */
-export const OPTIMIZE_FOR_TOOL_SCAN = 
-  process.env.SMITHERY_HOSTED === 'true' || 
-  process.env.ENABLE_QUICK_STARTUP === 'true';
+export const OPTIMIZE_FOR_TOOL_SCAN = process.env.SMITHERY_TOOL_SCAN === 'true';
 
 /**
- * Generates text using the IDE's built-in LLM
- * This is the only supported method - no rule-based fallbacks
+ * Generates text using the configured LLM provider
+ * By default this is the IDE's LLM via MCP sampling; see the `llm` section of tanuki-config.json
  * @param prompt The prompt to send to the LLM
+ * @param options System prompt, token limit and model preferences for the request
+ * @param context Per-invocation context, including answers submitted through submit_llm_result
+ * @param cacheKey What the prompt was rendered from; when given, responses are cached in the workspace
  * @returns The generated text
- * @throws Error if the LLM operation fails
+ * @throws PromptHandoffError if no model can be called and prompt handoff is enabled
+ * @throws LLMProviderError if the LLM operation fails
  */
-export async function generateWithLLM(prompt: string): Promise<string> {
+export async function generateWithLLM(prompt: string, options: LLMRequestOptions = {}, context: LLMCallContext = {}, cacheKey?: PromptCacheKey): Promise<string> {
+  const promptHash = hashPrompt({ prompt, systemPrompt: options.systemPrompt });
+  
+  // An answer submitted by the caller takes the place of a model call
+  const submittedAnswer = context.answers?.[promptHash];
+  if (submittedAnswer !== undefined) {
+    return submittedAnswer;
+  }
+  
   // Skip intensive processing during optimization mode
   if (OPTIMIZE_FOR_TOOL_SCAN) {
     return "Optimization mode: LLM functionality will be available when fully loaded.";
   }
   
-  console.log('Using IDE\'s built-in LLM capabilities');
+  // Reuse the response to an identical earlier request
+  const cache = getResponseCacheTarget(context, cacheKey);
+  if (cache) {
+    const cached = await readCachedResponse(cache.workspaceRoot, cache.key);
+    if (cached) {
+      if (context.cacheStats) context.cacheStats.hits++;
+      return cached.text;
+    }
+    if (context.cacheStats) context.cacheStats.misses++;
+  }
   
   try {
-    // The actual LLM processing happens in the IDE
-    // This is just a placeholder - the IDE will intercept and handle LLM operations
-    // We rely on the environment (Cursor, Windsurf, Claude Desktop, Smithery) to provide the LLM capabilities
-    return "Using the IDE's built-in LLM capabilities";
+    const response = await getLLMProvider().generate({ ...options, prompt });
+    
+    if (cache) {
+      await writeCachedResponse(cache.workspaceRoot, {
+        key: cache.key,
+        templateId: cache.templateId,
+        provider: response.provider,
+        model: response.model || cache.model,
+        text: response.text
+      });
+    }
+    
+    return response.text;
+  } catch (error) {
+    if (getLLMConfig().handoff.enabled && shouldHandOff(error)) {
+      throw new PromptHandoffError(prompt, options.systemPrompt, promptHash, (error as Error).message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Work out where a response is cached, if it should be
+ * @param context Per-invocation LLM context
+ * @param cacheKey What the prompt was rendered from
+ * @returns The workspace, cache key, template and model, or null when caching is off for this request
+ */
+function getResponseCacheTarget(context: LLMCallContext, cacheKey?: PromptCacheKey): { workspaceRoot: string; key: string; templateId: string; model: string } | null {
+  const cacheable = getCacheableModel();
+  if (!cacheKey || !context.workspaceRoot || context.noCache || !cacheable) {
+    return null;
+  }
+  
+  return {
+    workspaceRoot: context.workspaceRoot,
+    key: computeResponseCacheKey(cacheKey, cacheable.provider, cacheable.model),
+    templateId: cacheKey.templateId,
+    model: cacheable.model
+  };
+}
+
+/**
+ * Check whether a provider failure means no model is reachable, so the prompt should go to the caller
+ * @param error The provider failure
+ * @returns True for the echo provider and for clients that cannot answer sampling requests
+ */
+function shouldHandOff(error: unknown): boolean {
+  if (error instanceof PromptEchoError) {
+    return true;
+  }
+  return error instanceof LLMProviderError &&
+    error.provider === 'sampling' &&
+    (error.code === 'unsupported' || error.code === 'unavailable');
+}
+
+/**
+ * Work out how a rendered prompt fits the configured provider's context window
+ * Up to half of the window is reserved for the response; the rest is left for the prompt
+ * @param rendered The rendered prompt
+ * @returns The response and prompt budgets and the prompt's estimated size
+ */
+function getPromptBudget(rendered: RenderedPrompt): PromptBudget {
+  const contextWindow = getContextWindowTokens();
+  const outputTokens = Math.min(rendered.options.maxTokens ?? DEFAULT_MAX_TOKENS, Math.floor(contextWindow / 2));
+  
+  return {
+    outputTokens,
+    promptTokens: contextWindow - outputTokens,
+    usedTokens: estimateTokens(rendered.prompt) + estimateTokens(rendered.options.systemPrompt ?? '')
+  };
+}
+
+/**
+ * Generate JSON output that must match a schema
+ * When the output does not parse or validate, the model is asked again with the exact validation errors,
+ * up to `llm.structuredOutput.maxAttempts` attempts in total
+ * @param rendered The rendered prompt for the first attempt
+ * @param schema The schema the parsed output must match
+ * @param context Per-invocation LLM context
+ * @returns The validated output
+ * @throws StructuredOutputError if no attempt produced valid output
+ */
+async function generateStructured<T>(rendered: RenderedPrompt, schema: z.ZodType<T, z.ZodTypeDef, unknown>, context: LLMCallContext): Promise<T> {
+  const maxAttempts = Math.max(1, getLLMConfig().structuredOutput.maxAttempts);
+  let prompt = rendered.prompt;
+  let options = rendered.options;
+  let cacheKey = rendered.cacheKey;
+  let issues = '';
+  
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const output = await generateWithLLM(prompt, options, context, cacheKey);
+    
+    const parsed = parseJsonOutput(output);
+    if (parsed.ok) {
+      const result = schema.safeParse(parsed.value);
+      if (result.success) {
+        return result.data;
+      }
+      issues = formatValidationIssues(result.error);
+    } else {
+      issues = `- ${parsed.error}`;
+    }
+    
+    // Never serve an invalid response from the cache again
+    const cache = getResponseCacheTarget(context, cacheKey);
+    if (cache) {
+      await deleteCachedResponse(cache.workspaceRoot, cache.key);
+    }
+    
+    // Ask the model to correct its response, keeping the original request's token limit
+    const repair = await renderPromptTemplate('repair-structured-output', {
+      prompt: rendered.prompt,
+      response: output.trim(),
+      errors: issues
+    }, context.workspaceRoot);
+    prompt = repair.prompt;
+    options = { ...rendered.options, ...repair.options };
+    cacheKey = repair.cacheKey;
+  }
+  
+  throw new StructuredOutputError(maxAttempts, issues);
+}
+
+/**
+ * Extract and parse the JSON value in a model response
+ * Markdown fences and text around the outermost array or object are ignored
+ * @param output The raw model output
+ * @returns The parsed value, or a description of why parsing failed
+ */
+function parseJsonOutput(output: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  const text = output.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const starts = [text.indexOf('['), text.indexOf('{')].filter(index => index !== -1);
+  
+  if (starts.length === 0) {
+    return { ok: false, error: 'The response does not contain a JSON array or object' };
+  }
+  
+  const startIdx = Math.min(...starts);
+  const endIdx = text.lastIndexOf(text[startIdx] === '[' ? ']' : '}');
+  if (endIdx < startIdx) {
+    return { ok: false, error: 'The JSON in the response is not closed' };
+  }
+  
+  try {
+    return { ok: true, value: JSON.parse(text.substring(startIdx, endIdx + 1)) };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`LLM operation failed: ${errorMessage}`);
+    return { ok: false, error: `The response is not valid JSON: ${errorMessage}` };
   }
 }
 
+/**
+ * Format zod validation errors as one line per issue, with the path to the offending value
+ * @param error The validation error
+ * @returns The issues, e.g. `- at [0].changes[1]: replace changes require "old" and "new"`
+ */
+function formatValidationIssues(error: z.ZodError): string {
+  return error.issues.map(issue => {
+    const location = issue.path
+      .map(segment => typeof segment === 'number' ? `[${segment}]` : `.${segment}`)
+      .join('')
+      .replace(/^\./, '');
+    return `- at ${location || 'root'}: ${issue.message}`;
+  }).join('\n');
+}
+
 /**
  * Generate a structured todolist from unstructured thoughts
  * @param projectDescription The project description
  * @param thoughts Unstructured thoughts about the project
+ * @param context Per-invocation LLM context
  * @returns A structured markdown todolist
  */
-export async function generateTodolist(projectDescription: string, thoughts: string): Promise<string> {
-  const prompt = `
-  Your task is to analyze the following unstructured thoughts about a project and organize them into a clear, structured todolist.
+export async function generateTodolist(projectDescription: string, thoughts: string, context: LLMCallContext = {}): Promise<string> {
+  const rendered = await renderPromptTemplate('generate-todolist', { projectDescription, thoughts }, context.workspaceRoot);
   
-  Project: ${projectDescription}
+  const output = await generateWithLLM(rendered.prompt, rendered.options, context, rendered.cacheKey);
   
-  Unstructured thoughts:
-  ${thoughts}
-  
-  Create a markdown todolist that:
-  1. Starts with a heading showing the project name
-  2. Organizes tasks into logical categories based on the content
-  3. Uses proper Markdown formatting with checkboxes (- [ ] Task)
-  4. Includes EVERY thought from the input, transformed into clear, actionable tasks
-  5. Is comprehensive and detailed
-  
-  Return ONLY the markdown todolist without any other text.
-  `;
-  
-  const output = await generateWithLLM(prompt);
-  
-  // If the output doesn't start with a markdown heading, add one
-  if (!output.trim().startsWith('# ')) {
+  // If the output has no title heading, add one
+  if (getTodolistTitle(parseTodolist(output)) === undefined) {
     return `# ${projectDescription}\n\n${output.trim()}`;
   }
   
@@ -75,89 +269,114 @@ export async function generateTodolist(projectDescription: string, thoughts: str
 
 /**
  * Enhance an existing todolist with more details
+ * Todolists too large for one prompt are enhanced a few sections at a time and stitched back together
  * @param todolist The existing todolist to enhance
+ * @param context Per-invocation LLM context
  * @returns The enhanced todolist
  */
-export async function enhanceTodolist(todolist: string): Promise<string> {
-  const prompt = `
-  Your task is to enhance and improve this todolist with more specific details, acceptance criteria, and technical requirements.
+export async function enhanceTodolist(todolist: string, context: LLMCallContext = {}): Promise<string> {
+  const rendered = await renderPromptTemplate('enhance-todolist', { todolist }, context.workspaceRoot);
+  const budget = getPromptBudget(rendered);
   
-  Original todolist:
-  ${todolist}
+  if (budget.usedTokens <= budget.promptTokens) {
+    return await generateWithLLM(rendered.prompt, { ...rendered.options, maxTokens: budget.outputTokens }, context, rendered.cacheKey);
+  }
   
-  For each existing task:
-  1. Add 2-3 specific acceptance criteria as subtasks
-  2. Add relevant technical requirements and implementation details
-  3. Consider edge cases and error handling
+  // Give every chunk the outline of the whole list so the model knows where it is
+  const { preamble, sections } = splitTodolistSections(todolist);
+  const outline = [preamble, ...sections.map(section => section.heading)].filter(Boolean).join('\n');
   
-  Also, add any missing categories that would be important for a complete project, such as:
-  - Testing & QA
-  - Deployment
-  - Security
-  - Documentation
+  const emptySection = await renderPromptTemplate('enhance-todolist-section', { outline, section: '' }, context.workspaceRoot);
+  const sectionBudget = getPromptBudget(emptySection);
   
-  Preserve all existing content and structure. Add to it, don't remove anything.
-  Return the complete enhanced markdown todolist.
-  `;
+  // Enhanced sections grow to roughly three times their size, and must fit in the response
+  const chunkTokens = Math.max(1, Math.min(sectionBudget.promptTokens - sectionBudget.usedTokens, Math.floor(sectionBudget.outputTokens / 3)));
+  const { chunks } = chunkTodolist(todolist, chunkTokens);
   
-  return await generateWithLLM(prompt);
+  const enhancedChunks: string[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    // Stop between parts when the client cancels
+    context.signal?.throwIfAborted();
+    
+    const sectionPrompt = await renderPromptTemplate('enhance-todolist-section', { outline, section: chunk }, context.workspaceRoot);
+    const output = await generateWithLLM(sectionPrompt.prompt, { ...sectionPrompt.options, maxTokens: sectionBudget.outputTokens }, context, sectionPrompt.cacheKey);
+    enhancedChunks.push(output.trim());
+    
+    await context.reportProgress?.(`Enhanced ${chunk.split('\n')[0]}`, index + 1, chunks.length);
+  }
+  
+  return [preamble, ...enhancedChunks].filter(Boolean).join('\n\n');
 }
 
 /**
  * Find the next task to implement from a todolist
  * @param todolist The todolist to analyze
- * @returns The text of the next task to implement
+ * @param context Per-invocation LLM context
+ * @returns The text of the next task to implement and why it comes next
  */
-export async function findNextTask(todolist: string): Promise<string> {
-  const prompt = `
-  You are a project management assistant. Given the following todolist, identify the most logical next task to implement.
-  
-  Todolist:
-  ${todolist}
-  
-  Find an uncompleted task (marked with "- [ ]") that should be implemented next, based on:
-  1. Dependencies (tasks that others depend on should be done first)
-  2. Logical order (setup/foundation tasks before features)
-  3. Complexity (consider starting with simpler tasks)
-  
-  Return ONLY the text of the single next task to implement, exactly as it appears in the todolist, without the checkbox or additional explanation.
-  `;
-  
-  const output = await generateWithLLM(prompt);
-  
-  // Remove any markdown formatting the LLM might have included
-  return output.trim().replace(/^- \[[ x]\]\s*/, '');
+export async function findNextTask(todolist: string, context: LLMCallContext = {}): Promise<NextTask> {
+  const rendered = await renderPromptTemplate('find-next-task', { todolist }, context.workspaceRoot);
+  
+  // The task must be one of the todolist's open or in-progress tasks; blocked and cancelled ones are skipped
+  const uncheckedTasks = listTasks(parseTodolist(todolist))
+    .filter(entry => isTaskActionable(entry.task))
+    .map(entry => stripTaskProgress(entry.task.text.trim()));
+  
+  const nextTaskSchema = z.object({
+    // Remove any markdown formatting the LLM might have included
+    task: z.string().trim().min(1).transform(task => task.replace(/^(?:[-*+]|\d+[.)])\s+\[[ xX~!-]\]\s*/, '')),
+    reason: z.string().trim().min(1)
+  }).refine(
+    next => uncheckedTasks.length === 0 || uncheckedTasks.includes(stripTaskProgress(next.task)),
+    next => ({ message: `"${next.task}" is not an open or in-progress task in the todolist; copy the task text exactly`, path: ['task'] })
+  );
+  
+  return await generateStructured(rendered, nextTaskSchema, context);
+}
+
+/**
+ * Choose the next task from tasks that are equally ready
+ * @param candidates The texts of the tasks to choose from
+ * @param todolist The todolist, for context
+ * @param context Per-invocation LLM context
+ * @returns The chosen task and why it comes first
+ */
+export async function chooseNextTask(candidates: string[], todolist: string, context: LLMCallContext = {}): Promise<NextTask> {
+  const rendered = await renderPromptTemplate('choose-next-task', {
+    todolist,
+    candidates: candidates.map(candidate => `- ${candidate}`).join('\n')
+  }, context.workspaceRoot);
+  
+  const choiceSchema = z.object({
+    task: z.string().trim().min(1).transform(task => task.replace(/^-\s+/, '')),
+    reason: z.string().trim().min(1)
+  }).refine(
+    choice => candidates.includes(choice.task),
+    choice => ({ message: `"${choice.task}" is not one of the tasks to choose from; copy the task text exactly`, path: ['task'] })
+  );
+  
+  return await generateStructured(rendered, choiceSchema, context);
 }
 
 /**
  * Create an implementation plan for a specific task
+ * When the todolist does not fit the context window, sections unrelated to the task are condensed or summarized
  * @param task The task to implement
  * @param todolistContext The full todolist for context
+ * @param context Per-invocation LLM context
  * @returns A detailed implementation plan
  */
-export async function createImplementationPlan(task: string, todolistContext: string): Promise<string> {
-  const prompt = `
-  You are a senior software engineer creating an implementation plan for a task in a project.
-  
-  Task to implement:
-  ${task}
-  
-  Project Context (full todolist):
-  ${todolistContext}
-  
-  Create a detailed implementation plan that includes:
-  1. A clear approach with step-by-step implementation strategy
-  2. Architecture considerations and design patterns to use
-  3. Key dependencies and components needed
-  4. Potential integration points with other systems
-  5. Error handling strategies and edge cases to consider
-  6. Testing approach with specific test scenarios
-  7. Performance considerations and optimizations
-  
-  Format your response as a comprehensive markdown implementation plan.
-  `;
+export async function createImplementationPlan(task: string, todolistContext: string, context: LLMCallContext = {}): Promise<string> {
+  let rendered = await renderPromptTemplate('implementation-plan', { task, todolist: todolistContext }, context.workspaceRoot);
+  const budget = getPromptBudget(rendered);
+  
+  if (budget.usedTokens > budget.promptTokens) {
+    const todolistBudget = budget.promptTokens - (budget.usedTokens - estimateTokens(todolistContext));
+    const todolist = fitTodolistToBudget(todolistContext, task, todolistBudget);
+    rendered = await renderPromptTemplate('implementation-plan', { task, todolist }, context.workspaceRoot);
+  }
   
-  const plan = await generateWithLLM(prompt);
+  const plan = await generateWithLLM(rendered.prompt, { ...rendered.options, maxTokens: budget.outputTokens }, context, rendered.cacheKey);
   
   // If plan doesn't have a heading, add one
   if (!plan.trim().startsWith('#')) {
@@ -171,95 +390,18 @@ export async function createImplementationPlan(task: string, todolistContext: st
  * Parse an implementation plan into executable actions
  * @param plan The implementation plan to parse
  * @param task The task being implemented
- * @returns Array of actions to execute
+ * @param context Per-invocation LLM context
+ * @returns The file operations to execute, validated against the FileOperation schema
  */
-export async function parsePlanIntoActions(plan: string, task: string): Promise<any[]> {
-  // Skip intensive processing during optimization mode
-  if (OPTIMIZE_FOR_TOOL_SCAN) {
-    return [{
-      type: 'create_file',
-      path: 'quick-startup-placeholder.md',
-      description: 'Placeholder for quick startup mode',
-      content: '# Quick Startup Mode\n\nFull functionality will be available when server is fully loaded.'
-    }];
-  }
-  
-  const prompt = `
-  You are a code implementation assistant. Your job is to analyze an implementation plan and extract specific file operations needed.
-  
-  Task to implement: "${task}"
-  
-  Implementation Plan:
-  ${plan}
-  
-  Based on this plan, extract and list all file operations needed (create_file, edit_file, delete_file, move_file, copy_file).
-  
-  For each operation, specify:
-  - Type of operation
-  - Target file path(s)
-  - Brief description of what's changing
-  - Content (for file creation) or changes (for edits)
-  
-  Return a JSON array of operations, with each operation having properties:
-  - type: The operation type (create_file, edit_file, delete_file, move_file, copy_file)
-  - path/from/to: The file path(s) for the operation
-  - description: A brief description of the change
-  - content: For create_file, the full file content
-  - changes: For edit_file, an array of changes (each with type, content/old/new/line)
-  
-  Example format:
-  [
-    {
-      "type": "create_file",
-      "path": "src/utils/helper.js",
-      "description": "Create utility helper file",
-      "content": "function helper() { ... }"
-    }
-  ]
-  
-  Return a valid JSON array, nothing else.
-  `;
-  
-  const output = await generateWithLLM(prompt);
+export async function parsePlanIntoActions(plan: string, task: string, context: LLMCallContext = {}): Promise<FileOperation[]> {
+  const rendered = await renderPromptTemplate('plan-actions', { task, plan }, context.workspaceRoot);
   
   try {
-    // Try to parse the JSON output
-    const jsonString = output.trim();
-    // Find the first [ and last ]
-    const startIdx = jsonString.indexOf('[');
-    const endIdx = jsonString.lastIndexOf(']');
-    
-    if (startIdx === -1 || endIdx === -1) {
-      throw new Error('LLM did not return a valid JSON array');
-    }
-    
-    const cleanedJsonString = jsonString.substring(startIdx, endIdx + 1);
-    const actions = JSON.parse(cleanedJsonString);
-    
-    // Validate actions
-    const validatedActions = actions.filter((action: any) => {
-      // Ensure the action has a valid type
-      if (!action.type || !['create_file', 'edit_file', 'delete_file', 'move_file', 'copy_file'].includes(action.type)) {
-        return false;
-      }
-      
-      // Ensure paths are provided where needed
-      if (action.type === 'create_file' || action.type === 'edit_file' || action.type === 'delete_file') {
-        return !!action.path;
-      } else if (action.type === 'move_file' || action.type === 'copy_file') {
-        return !!action.from && !!action.to;
-      }
-      
-      return false;
-    });
-    
-    if (validatedActions.length === 0) {
-      throw new Error('No valid actions found in LLM output');
-    }
-    
-    return validatedActions;
+    return await generateStructured(rendered, fileOperationListSchema, context);
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Failed to parse LLM output into actions: ${errorMessage}`);
+    if (error instanceof StructuredOutputError) {
+      throw new Error(`Failed to parse LLM output into actions: ${error.message}`);
+    }
+    throw error;
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,134 @@
+/**
+ * Todolist History
+ * Records the changes the tools make to a todolist under `.tanuki/history`, so they can be undone one at a time
+ *
+ * Each todolist has its own stack of changes, newest last. A change keeps the content before and after it,
+ * so an undo can tell whether the file was edited by something else since.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+
+import { resolveWorkspacePath } from './path-utils.js';
+
+/**
+ * One change a tool made to a todolist
+ */
+export interface TodolistChange {
+  // The todolist, as an absolute path
+  file: string;
+  // The tool that made the change
+  tool: string;
+  // What the change did, e.g. `Marked "Write tests" as complete`
+  summary: string;
+  before: string;
+  after: string;
+  createdAt: string;
+}
+
+/**
+ * The most changes kept per todolist; older ones are dropped
+ */
+const MAX_TODOLIST_CHANGES = 50;
+
+// Entries are numbered so that name order is the order they were recorded in
+const ENTRY_PATTERN = /^\d{8}\.json$/;
+
+/**
+ * Get the directory holding a todolist's history
+ * @param workspaceRoot The workspace root directory
+ * @param filePath The todolist, as an absolute path
+ * @returns The history directory path
+ */
+export function getTodolistHistoryDir(workspaceRoot: string, filePath: string): string {
+  const key = crypto.createHash('sha256').update(path.resolve(filePath)).digest('hex').slice(0, 16);
+  return resolveWorkspacePath(workspaceRoot, path.join('.tanuki', 'history', key));
+}
+
+/**
+ * Record a change to a todolist; changes that leave the content as it was are not recorded
+ * @param workspaceRoot The workspace root directory
+ * @param change The todolist, the tool, what it did and the content before and after
+ */
+export async function recordTodolistChange(workspaceRoot: string, change: Omit<TodolistChange, 'createdAt'>): Promise<void> {
+  if (change.before === change.after) {
+    return;
+  }
+  
+  const dir = getTodolistHistoryDir(workspaceRoot, change.file);
+  await fs.mkdir(dir, { recursive: true });
+  
+  const entries = await listEntries(dir);
+  const next = entries.length > 0 ? parseInt(entries[entries.length - 1], 10) + 1 : 1;
+  const entry: TodolistChange = { ...change, file: path.resolve(change.file), createdAt: new Date().toISOString() };
+  await fs.writeFile(path.join(dir, `${String(next).padStart(8, '0')}.json`), JSON.stringify(entry, null, 2), 'utf-8');
+  
+  // Drop the oldest changes beyond the limit
+  for (const name of entries.slice(0, Math.max(0, entries.length + 1 - MAX_TODOLIST_CHANGES))) {
+    await fs.rm(path.join(dir, name), { force: true });
+  }
+}
+
+/**
+ * List the recorded changes to a todolist
+ * @param workspaceRoot The workspace root directory
+ * @param filePath The todolist, as an absolute path
+ * @returns The changes, oldest first; unreadable entries are skipped
+ */
+export async function listTodolistChanges(workspaceRoot: string, filePath: string): Promise<TodolistChange[]> {
+  const dir = getTodolistHistoryDir(workspaceRoot, filePath);
+  const changes: TodolistChange[] = [];
+  for (const name of await listEntries(dir)) {
+    const change = await readEntry(path.join(dir, name));
+    if (change) changes.push(change);
+  }
+  return changes;
+}
+
+/**
+ * Remove the most recent change to a todolist from its history
+ * @param workspaceRoot The workspace root directory
+ * @param filePath The todolist, as an absolute path
+ * @returns The change that was removed, or null if there is none
+ */
+export async function popTodolistChange(workspaceRoot: string, filePath: string): Promise<TodolistChange | null> {
+  const dir = getTodolistHistoryDir(workspaceRoot, filePath);
+  const entries = await listEntries(dir);
+  
+  // A corrupt entry cannot be undone; skip past it to the change before
+  while (entries.length > 0) {
+    const entryPath = path.join(dir, entries.pop()!);
+    const change = await readEntry(entryPath);
+    await fs.rm(entryPath, { force: true });
+    if (change) return change;
+  }
+  return null;
+}
+
+/**
+ * List the entry files in a history directory
+ * @param dir The history directory
+ * @returns The entry file names, oldest first
+ */
+async function listEntries(dir: string): Promise<string[]> {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return (await fs.readdir(dir)).filter(name => ENTRY_PATTERN.test(name)).sort();
+}
+
+/**
+ * Read a history entry
+ * @param entryPath The entry file
+ * @returns The change, or null if the entry cannot be read
+ */
+async function readEntry(entryPath: string): Promise<TodolistChange | null> {
+  try {
+    const change = JSON.parse(await fs.readFile(entryPath, 'utf-8')) as TodolistChange;
+    return typeof change.before === 'string' && typeof change.after === 'string' ? change : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Token Budget Utilities
+ * Estimates prompt sizes and shrinks or splits todolists so prompts fit the model's context window
+ */
+
+import {
+  parseTodolist, serializeTask, renderTaskLine, listSections, countTasksByStatus, TodolistDocument, TodolistNode
+} from '../todolist/index.js';
+
+/**
+ * Words too common to say anything about which section a task belongs to
+ */
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'that', 'this', 'add', 'use', 'make', 'create',
+  'implement', 'set', 'up', 'all', 'any', 'are', 'not', 'new', 'update', 'ensure'
+]);
+
+/**
+ * A section of a markdown todolist: a heading and the lines up to the next heading
+ */
+export interface TodolistSection {
+  heading: string;
+  body: string[];
+  // The tasks and text under the heading, before any deeper heading
+  children: TodolistNode[];
+}
+
+/**
+ * A todolist split into the text before the first section and its sections
+ */
+export interface SplitTodolist {
+  preamble: string;
+  sections: TodolistSection[];
+}
+
+/**
+ * Estimate the number of tokens in a text
+ * Uses roughly four characters per token, raised for text made of many short words
+ * @param text The text to measure
+ * @returns The estimated token count
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.ceil(Math.max(text.length / 4, words * 1.3));
+}
+
+/**
+ * Split a markdown todolist into its sections, one per heading at any level
+ * The first heading, if it is a `# ` title, and anything before the next heading form the preamble
+ * @param todolist The todolist content
+ * @returns The preamble and the sections in document order
+ */
+export function splitTodolistSections(todolist: string): SplitTodolist {
+  const document = parseTodolist(todolist);
+  const sections = listSections(document);
+  const title = sections[0]?.level === 1 ? sections.shift() : undefined;
+  
+  const preamble = [
+    ...document.frontMatter.map(node => node.raw),
+    ...renderNodes(document.children),
+    ...(title ? [title.raw, ...renderNodes(title.children)] : [])
+  ];
+  
+  return {
+    preamble: preamble.join('\n').trim(),
+    sections: sections.map(section => ({ heading: section.raw, body: renderNodes(section.children), children: section.children }))
+  };
+}
+
+/**
+ * Fit a todolist into a token budget, keeping what matters for one task
+ * The section containing the task is always kept in full. Other sections are kept in full, condensed
+ * to their top-level tasks, or summarized as a task count, in order of relevance to the task.
+ * @param todolist The todolist content
+ * @param task The task the prompt is about
+ * @param budgetTokens The number of tokens the todolist may use
+ * @returns The todolist, unchanged if it already fits
+ */
+export function fitTodolistToBudget(todolist: string, task: string, budgetTokens: number): string {
+  if (estimateTokens(todolist) <= budgetTokens) {
+    return todolist;
+  }
+  
+  const { preamble, sections } = splitTodolistSections(todolist);
+  if (sections.length === 0) {
+    return todolist;
+  }
+  
+  // Every section starts summarized; the section containing the task starts in full
+  const taskWords = significantWords(task);
+  const normalizedTask = task.trim().toLowerCase();
+  const renderings = sections.map(section => [summarizeSection(section), condenseSection(section), renderSection(section)]);
+  const levels: number[] = sections.map(section =>
+    section.body.some(line => line.toLowerCase().includes(normalizedTask)) ? 2 : 0
+  );
+  
+  const totalTokens = () => estimateTokens(preamble) +
+    renderings.reduce((sum, rendering, index) => sum + estimateTokens(rendering[levels[index]]) + 1, 0);
+  
+  // Upgrade the most relevant sections first, one level at a time, while the result still fits
+  const byRelevance = sections
+    .map((section, index) => ({ index, score: relevance(section, taskWords) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+  
+  for (const level of [1, 2]) {
+    for (const { index } of byRelevance) {
+      if (levels[index] >= level) continue;
+      
+      const previous = levels[index];
+      levels[index] = level;
+      if (totalTokens() > budgetTokens) {
+        levels[index] = previous;
+      }
+    }
+  }
+  
+  const body = renderings.map((rendering, index) => rendering[levels[index]]).join('\n\n');
+  return preamble ? `${preamble}\n\n${body}` : body;
+}
+
+/**
+ * Split a todolist into chunks of whole sections that each fit a token budget
+ * Sections larger than the budget are split between their top-level tasks
+ * @param todolist The todolist content
+ * @param budgetTokens The number of tokens each chunk may use
+ * @returns The preamble and the chunks in document order
+ */
+export function chunkTodolist(todolist: string, budgetTokens: number): { preamble: string; chunks: string[] } {
+  const { preamble, sections } = splitTodolistSections(todolist);
+  const chunks: string[] = [];
+  let current = '';
+  
+  const pushPiece = (piece: string) => {
+    if (current && estimateTokens(current) + estimateTokens(piece) > budgetTokens) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  };
+  
+  for (const section of sections) {
+    const text = renderSection(section);
+    if (estimateTokens(text) <= budgetTokens) {
+      pushPiece(text);
+      continue;
+    }
+    
+    // Split an oversized section into task blocks under a repeated heading
+    for (const block of splitIntoTaskBlocks(section, budgetTokens)) {
+      pushPiece(block);
+    }
+  }
+  
+  if (current) {
+    chunks.push(current);
+  }
+  
+  return { preamble, chunks };
+}
+
+/**
+ * Split one section into pieces of whole top-level tasks, each under the section heading
+ * @param section The section to split
+ * @param budgetTokens The number of tokens each piece may use
+ * @returns The pieces
+ */
+function splitIntoTaskBlocks(section: TodolistSection, budgetTokens: number): string[] {
+  const blocks: string[][] = [];
+  
+  // Each task starts a block with its notes and subtasks; text between tasks stays with the task before it
+  for (const node of section.children) {
+    const lines = renderNodes([node]);
+    if (blocks.length === 0 || node.type === 'task') {
+      blocks.push(lines);
+    } else {
+      blocks[blocks.length - 1].push(...lines);
+    }
+  }
+  
+  const pieces: string[] = [];
+  let current: string[] = [];
+  
+  for (const block of blocks) {
+    const candidate = [section.heading, ...current, ...block].join('\n');
+    if (current.length > 0 && estimateTokens(candidate) > budgetTokens) {
+      pieces.push([section.heading, ...current].join('\n').trim());
+      current = [];
+    }
+    current.push(...block);
+  }
+  
+  if (current.length > 0) {
+    pieces.push([section.heading, ...current].join('\n').trim());
+  }
+  
+  return pieces;
+}
+
+/**
+ * Render a section in full
+ * @param section The section
+ * @returns The heading and body
+ */
+function renderSection(section: TodolistSection): string {
+  return [section.heading, ...section.body].join('\n').trim();
+}
+
+/**
+ * Render a section with only its top-level tasks
+ * @param section The section
+ * @returns The heading and the lines of the tasks directly under it
+ */
+function condenseSection(section: TodolistSection): string {
+  const topLevel = section.children.flatMap(node => (node.type === 'task' ? [renderTaskLine(node)] : []));
+  return [section.heading, ...topLevel].join('\n');
+}
+
+/**
+ * Render a section as its heading and a task count
+ * @param section The section
+ * @returns The heading and a one-line summary
+ */
+function summarizeSection(section: TodolistSection): string {
+  const counts = countTasksByStatus(toDocument(section.children));
+  const open = counts.open + counts.in_progress + counts.blocked;
+  const total = open + counts.done + counts.cancelled;
+  return `${section.heading}\n_(${total} tasks not shown: ${open} open, ${counts.done} done${counts.cancelled > 0 ? `, ${counts.cancelled} cancelled` : ''})_`;
+}
+
+/**
+ * Render tasks, with their notes and subtasks, and text as lines
+ * @param nodes The nodes
+ * @returns The lines
+ */
+function renderNodes(nodes: TodolistNode[]): string[] {
+  return nodes.flatMap(node => (node.type === 'task' ? serializeTask(node).split('\n') : [node.raw]));
+}
+
+/**
+ * Wrap the nodes of a section in a todolist of their own, for the todolist queries
+ * @param nodes The nodes
+ * @returns A todolist holding only the nodes
+ */
+function toDocument(nodes: TodolistNode[]): TodolistDocument {
+  return { frontMatter: [], metadata: {}, children: nodes, sections: [], lineEnding: '\n', finalNewline: false };
+}
+
+/**
+ * Score how related a section is to a task by the words they share
+ * @param section The section
+ * @param taskWords The task's significant words
+ * @returns The number of task words that appear in the section
+ */
+function relevance(section: TodolistSection, taskWords: Set<string>): number {
+  const sectionWords = significantWords(renderSection(section));
+  let score = 0;
+  for (const word of taskWords) {
+    if (sectionWords.has(word)) score++;
+  }
+  return score;
+}
+
+/**
+ * Get the lowercase words of a text that are long enough to be meaningful
+ * @param text The text
+ * @returns The set of words
+ */
+function significantWords(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+  );
+}